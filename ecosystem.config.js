@@ -4,5 +4,13 @@ module.exports = {
     script: 'npm',
     args: 'run dev',
     autorestart: true,
+  }, {
+    // Background jobs: transcription, extraction, embedding, summaries
+    name: 'worker',
+    script: 'npm',
+    args: 'run worker',
+    autorestart: true,
+    // Let the job in progress settle before the process is killed
+    kill_timeout: 30000,
   }]
-};
\ No newline at end of file
+};
@@ -1,5 +1,42 @@
-import { useEffect, useRef, useState } from "react";
-import { annotationService, type Annotation, type AnnotationCoordinates } from "@/services/annotationService";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Copy, Trash2 } from "lucide-react";
+import {
+  annotationService,
+  type Annotation,
+  type AnnotationCoordinates,
+  type AnnotationRect,
+  type CreateAnnotationData,
+  type UpdateAnnotationData,
+} from "@/services/annotationService";
+import { Button } from "@/components/ui/button";
+import { useRowChanges } from "@/hooks/use-realtime";
+import { useAnnotationHistory } from "@/hooks/use-annotation-history";
+import { useToast } from "@/hooks/use-toast";
+import { deleteForHistory, describeCommand, type AnnotationCommand } from "@/lib/documents/annotationHistory";
+import {
+  TEXT_SIZE,
+  annotationBounds,
+  cornersOf,
+  hitsAnnotation,
+  intersects,
+  isPinned,
+  isResizable,
+  rectBetween,
+  resizeBox,
+  scaleCoordinates,
+  shiftCoordinates,
+  type Corner,
+  type Point,
+} from "@/lib/documents/annotationGeometry";
+import { removeRow, upsertRow } from "@/integrations/supabase/realtime";
+import type { AnnotationAnchoring } from "@/lib/documents/docxAnchors";
+import {
+  boundingBox,
+  lineRects,
+  rangeFromOffsets,
+  reanchorQuote,
+  selectionTarget,
+} from "@/lib/documents/textLayer";
 
 interface AnnotationCanvasProps {
   documentId: string;
@@ -7,13 +44,49 @@ interface AnnotationCanvasProps {
   width: number;
   height: number;
   scale?: number;
-  currentTool: "highlight" | "drawing" | "text" | "shape" | "select" | "eraser";
+  currentTool: "highlight" | "textHighlight" | "drawing" | "text" | "shape" | "select" | "eraser";
   currentColor: string;
   onAnnotationClick?: (annotation: Annotation) => void;
+  onAnnotationCreated?: (annotation: Annotation) => void;
   selectedMediaFileId?: string;
-  currentTimestamp?: number;
+  // Playhead to link new annotations to, undefined when nothing is playing
+  getCurrentTimestamp?: () => number | undefined;
+  // Text anchoring for documents laid out in the browser (DOCX)
+  anchoring?: AnnotationAnchoring | null;
+  // Rendered page text (PDF text layer or DOCX page) for text highlights
+  textLayer?: HTMLElement | null;
+  // Page count, for copying the selection to another page
+  numPages?: number;
 }
 
+// A drag with the select tool: moving the selection, resizing it by a
+// corner handle, or a rubber band selecting what it touches
+type Drag = { start: Point; current: Point } & (
+  | { mode: "move" }
+  | { mode: "resize"; corner: Corner; box: AnnotationRect }
+  | { mode: "band"; additive: boolean }
+);
+
+const SELECTION_COLOR = "#2563EB";
+// Resize handle size in screen pixels
+const HANDLE_SIZE = 8;
+// How far copies pasted onto the same page are offset from the originals
+const COPY_OFFSET = 12;
+
+// Where a selected annotation is while being dragged, or null if the drag
+// doesn't move it
+function draggedCoordinates(annotation: Annotation, drag: Drag): AnnotationCoordinates | null {
+  if (drag.mode === "band" || isPinned(annotation)) return null;
+  const coords = annotation.coordinates as unknown as AnnotationCoordinates;
+  return drag.mode === "move"
+    ? shiftCoordinates(coords, drag.current.x - drag.start.x, drag.current.y - drag.start.y)
+    : scaleCoordinates(coords, drag.box, resizeBox(drag.box, drag.corner, drag.current));
+}
+
+// The current values of the fields an update is about to change
+const snapshot = (annotation: Annotation, update: UpdateAnnotationData): UpdateAnnotationData =>
+  Object.fromEntries(Object.keys(update).map((key) => [key, annotation[key as keyof Annotation]])) as UpdateAnnotationData;
+
 export function AnnotationCanvas({
   documentId,
   pageNumber,
@@ -23,34 +96,175 @@ export function AnnotationCanvas({
   currentTool,
   currentColor,
   onAnnotationClick,
+  onAnnotationCreated,
   selectedMediaFileId,
-  currentTimestamp,
+  getCurrentTimestamp,
+  anchoring,
+  textLayer,
+  numPages,
 }: AnnotationCanvasProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [loadedAnnotations, setLoadedAnnotations] = useState<Annotation[]>([]);
   const [isDrawing, setIsDrawing] = useState(false);
   const [currentPath, setCurrentPath] = useState<{ x: number; y: number }[]>([]);
   const [startPoint, setStartPoint] = useState<{ x: number; y: number } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const history = useAnnotationHistory(documentId);
+  const { toast } = useToast();
+  // Counts loads, so a slow response for a page we've left is dropped
+  const loadRequest = useRef(0);
 
   // Debug logging
   useEffect(() => {
     console.log("AnnotationCanvas mounted:", { documentId, pageNumber, width, height, scale, currentTool });
   }, [documentId, pageNumber, width, height, scale, currentTool]);
 
-  // Load annotations for current page
+  const isAnchored = !!anchoring;
+
+  // Load annotations for current page. The previous page's are cleared
+  // first so nothing (such as re-anchoring) works on them against this page.
   useEffect(() => {
+    setLoadedAnnotations([]);
     loadAnnotations();
-  }, [documentId, pageNumber]);
+  }, [documentId, pageNumber, isAnchored]);
+
+  // The selection belongs to the select tool and the page it was made on
+  useEffect(() => {
+    setSelectedIds([]);
+    setDrag(null);
+  }, [documentId, pageNumber, currentTool]);
 
-  // Redraw canvas when annotations or dimensions change
+  // Undo and redo write to the database from the toolbar; show the result
+  // without waiting for Realtime
+  useEffect(() => {
+    if (history.replays > 0) loadAnnotations();
+  }, [history.replays]);
+
+  // Annotations added, moved or linked elsewhere (another tab, the
+  // toolbar) arrive over Realtime
+  const onThisPage = (annotation: Annotation) => isAnchored || annotation.page_number === pageNumber;
+
+  useRowChanges("annotations", { column: "document_id", value: documentId }, {
+    onInsert: (row) => {
+      if (onThisPage(row)) setLoadedAnnotations((prev) => upsertRow(prev, row));
+    },
+    onUpdate: (row) => {
+      setLoadedAnnotations((prev) => (onThisPage(row) ? upsertRow(prev, row) : removeRow(prev, row.id)));
+    },
+    onDelete: ({ id }) => setLoadedAnnotations((prev) => removeRow(prev, id)),
+  });
+
+  // Anchored annotations are placed by their text anchor, which may have
+  // moved to another page or position since they were created
+  const annotations = useMemo(() => {
+    if (!anchoring) return loadedAnnotations;
+
+    return loadedAnnotations.flatMap((annotation) => {
+      const coords = annotation.coordinates as unknown as AnnotationCoordinates;
+      const placement = coords.anchor ? anchoring.resolveAnchor(coords.anchor) : null;
+
+      if (!placement) {
+        return annotation.page_number === pageNumber ? [annotation] : [];
+      }
+      if (placement.pageNumber !== pageNumber || !placement.point) return [];
+
+      const shifted = shiftCoordinates(coords, placement.point.x - coords.x, placement.point.y - coords.y);
+      return [{ ...annotation, coordinates: shifted as unknown as Annotation["coordinates"] }];
+    });
+  }, [loadedAnnotations, anchoring, pageNumber]);
+
+  const selected = useMemo(
+    () => annotations.filter((annotation) => selectedIds.includes(annotation.id)),
+    [annotations, selectedIds]
+  );
+
+  // Annotations as drawn: the selection follows a move or resize in progress
+  const displayed = useMemo(() => {
+    if (!drag) return annotations;
+    return annotations.map((annotation) => {
+      const coordinates = selectedIds.includes(annotation.id) ? draggedCoordinates(annotation, drag) : null;
+      return coordinates ? { ...annotation, coordinates: coordinates as unknown as Annotation["coordinates"] } : annotation;
+    });
+  }, [annotations, selectedIds, drag]);
+
+  // Re-anchor text highlights whose quote has moved, e.g. after the document
+  // file was replaced. DOCX highlights follow their paragraph anchor instead.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!textLayer || !canvas || anchoring) return;
+
+    const moved: Annotation[] = [];
+    const updated = loadedAnnotations.map((annotation) => {
+      const coords = annotation.coordinates as unknown as AnnotationCoordinates;
+      // The text layer is this page's; highlights on any other page are left alone
+      if (annotation.page_number !== pageNumber || !coords.quote || !coords.textRange) return annotation;
+
+      const textRange = reanchorQuote(textLayer, coords.quote, coords.textRange);
+      if (!textRange || textRange.start === coords.textRange.start) return annotation;
+
+      const range = rangeFromOffsets(textLayer, textRange.start, textRange.end);
+      const rects = range ? lineRects(range, canvas, scale) : [];
+      if (rects.length === 0) return annotation;
+
+      const coordinates: AnnotationCoordinates = { ...coords, ...boundingBox(rects), textRange, rects };
+      const reanchored = { ...annotation, coordinates: coordinates as unknown as Annotation["coordinates"] };
+      moved.push(reanchored);
+      return reanchored;
+    });
+
+    if (moved.length === 0) return;
+    setLoadedAnnotations(updated);
+    moved.forEach((annotation) => {
+      annotationService
+        .updateAnnotation(annotation.id, { coordinates: annotation.coordinates as unknown as AnnotationCoordinates })
+        .catch((error) => console.error("Failed to save re-anchored highlight:", error));
+    });
+  }, [loadedAnnotations, textLayer, pageNumber, anchoring, scale]);
+
+  // Text selection highlights: the canvas lets pointer events through to
+  // the text layer, and the selection is captured when the mouse is released.
+  // The listener calls the latest handler, so it never sees stale props.
+  const createTextHighlightRef = useRef<() => void>(() => {});
+  useEffect(() => {
+    if (currentTool !== "textHighlight" || !textLayer) return;
+
+    const onMouseUp = () => createTextHighlightRef.current();
+    document.addEventListener("mouseup", onMouseUp);
+    return () => document.removeEventListener("mouseup", onMouseUp);
+  }, [currentTool, textLayer]);
+
+  // Redraw canvas when annotations, the selection or dimensions change
   useEffect(() => {
     drawAnnotations();
-  }, [annotations, width, height, scale]);
+  }, [displayed, selectedIds, drag, width, height, scale]);
+
+  // Delete or Backspace removes the selection, Escape clears it
+  useEffect(() => {
+    if (currentTool !== "select" || selectedIds.length === 0) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, [contenteditable='true']")) return;
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        deleteSelection();
+      } else if (e.key === "Escape") {
+        setSelectedIds([]);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
 
   const loadAnnotations = async () => {
+    const request = ++loadRequest.current;
     try {
-      const data = await annotationService.getAnnotationsByPage(documentId, pageNumber);
-      setAnnotations(data);
+      // Anchored annotations can move between pages, so load them all
+      const data = anchoring
+        ? await annotationService.getAnnotationsByDocument(documentId)
+        : await annotationService.getAnnotationsByPage(documentId, pageNumber);
+      if (request === loadRequest.current) setLoadedAnnotations(data);
     } catch (error) {
       console.error("Failed to load annotations:", error);
     }
@@ -67,7 +281,7 @@ export function AnnotationCanvas({
     ctx.clearRect(0, 0, width, height);
 
     // Draw all annotations
-    annotations.forEach((annotation) => {
+    displayed.forEach((annotation) => {
       const coords = annotation.coordinates as unknown as AnnotationCoordinates;
       ctx.strokeStyle = annotation.color || "#FFFF00";
       ctx.fillStyle = annotation.color || "#FFFF00";
@@ -83,7 +297,11 @@ export function AnnotationCanvas({
       switch (annotation.annotation_type) {
         case "highlight":
           ctx.globalAlpha = 0.3;
-          ctx.fillRect(sx, sy, sw, sh);
+          if (coords.rects?.length) {
+            coords.rects.forEach((rect) => ctx.fillRect(s(rect.x), s(rect.y), s(rect.width), s(rect.height)));
+          } else {
+            ctx.fillRect(sx, sy, sw, sh);
+          }
           ctx.globalAlpha = 1.0;
           break;
 
@@ -103,7 +321,7 @@ export function AnnotationCanvas({
           break;
 
         case "text":
-          ctx.font = `${16 * scale}px Arial`;
+          ctx.font = `${TEXT_SIZE * scale}px Arial`;
           ctx.fillText(annotation.content || "", sx, sy);
           
           // Draw timestamp indicator if linked
@@ -116,8 +334,59 @@ export function AnnotationCanvas({
           break;
       }
     });
+
+    // Selection outlines, resize handles and the rubber band
+    const s = (val: number) => val * scale;
+    ctx.save();
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.lineWidth = 1;
+    ctx.setLineDash([4, 3]);
+    displayed
+      .filter((annotation) => selectedIds.includes(annotation.id))
+      .forEach((annotation) => {
+        const box = boundsOf(annotation);
+        ctx.strokeRect(s(box.x) - 3, s(box.y) - 3, s(box.width) + 6, s(box.height) + 6);
+      });
+
+    const resizable = resizableSelection();
+    if (resizable) {
+      const box = boundsOf(displayed.find((annotation) => annotation.id === resizable.id) ?? resizable);
+      ctx.setLineDash([]);
+      ctx.fillStyle = "#FFFFFF";
+      Object.values(cornersOf(box)).forEach((corner) => {
+        ctx.fillRect(s(corner.x) - HANDLE_SIZE / 2, s(corner.y) - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+        ctx.strokeRect(s(corner.x) - HANDLE_SIZE / 2, s(corner.y) - HANDLE_SIZE / 2, HANDLE_SIZE, HANDLE_SIZE);
+      });
+    }
+
+    if (drag?.mode === "band") {
+      const band = rectBetween(drag.start, drag.current);
+      ctx.fillStyle = "rgba(37, 99, 235, 0.08)";
+      ctx.fillRect(s(band.x), s(band.y), s(band.width), s(band.height));
+      ctx.strokeRect(s(band.x), s(band.y), s(band.width), s(band.height));
+    }
+    ctx.restore();
+  };
+
+  // Width of a text note at TEXT_SIZE, in unscaled units
+  const textWidth = (text: string) => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return text.length * TEXT_SIZE * 0.5;
+    ctx.save();
+    ctx.font = `${TEXT_SIZE}px Arial`;
+    const measured = ctx.measureText(text).width;
+    ctx.restore();
+    return measured;
   };
 
+  const boundsOf = (annotation: Annotation) => annotationBounds(annotation, textWidth);
+
+  // Only a single highlight or rectangle gets resize handles
+  const resizableSelection = () => (selected.length === 1 && isResizable(selected[0]) ? selected[0] : null);
+
+  // The topmost annotation under a point
+  const annotationAt = (point: Point) => [...annotations].reverse().find((annotation) => hitsAnnotation(annotation, point));
+
   const getCanvasCoordinates = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
@@ -129,9 +398,11 @@ export function AnnotationCanvas({
     };
   };
 
+  const toViewer = (point: Point): Point => ({ x: point.x / scale, y: point.y / scale });
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     if (currentTool === "select") {
-      handleAnnotationClick(e);
+      handleSelectDown(e);
       return;
     }
 
@@ -150,6 +421,10 @@ export function AnnotationCanvas({
   };
 
   const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (drag) {
+      setDrag({ ...drag, current: toViewer(getCanvasCoordinates(e)) });
+      return;
+    }
     if (!isDrawing || !startPoint) return;
 
     const canvas = canvasRef.current;
@@ -195,7 +470,52 @@ export function AnnotationCanvas({
     }
   };
 
+  // Attach a text anchor at the annotation's origin when anchoring is available
+  const withAnchor = (coords: AnnotationCoordinates): AnnotationCoordinates => {
+    const anchor = anchoring?.createAnchor({ x: coords.x, y: coords.y });
+    return anchor ? { ...coords, anchor } : coords;
+  };
+
+  // Link new annotations to the media playhead when a player is active
+  const mediaLink = () => {
+    const timestamp = getCurrentTimestamp?.();
+    return timestamp !== undefined && selectedMediaFileId
+      ? { media_timestamp: timestamp, media_file_id: selectedMediaFileId }
+      : {};
+  };
+
+  const createTextHighlight = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !textLayer) return;
+
+    const selection = window.getSelection();
+    const target = selectionTarget(selection, textLayer, canvas, scale);
+    if (!target) return;
+    selection?.removeAllRanges();
+
+    try {
+      const created = await annotationService.createAnnotation({
+        document_id: documentId,
+        page_number: pageNumber,
+        annotation_type: "highlight",
+        coordinates: withAnchor({ ...boundingBox(target.rects), ...target }),
+        color: currentColor,
+        ...mediaLink(),
+      });
+      history.record({ type: "create", label: "Highlight text", annotation: created });
+      onAnnotationCreated?.(created);
+      await loadAnnotations();
+    } catch (error) {
+      console.error("Failed to create text highlight:", error);
+    }
+  };
+  createTextHighlightRef.current = createTextHighlight;
+
   const handleMouseUp = async (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (drag) {
+      await finishDrag({ ...drag, current: toViewer(getCanvasCoordinates(e)) });
+      return;
+    }
     if (!isDrawing || !startPoint) return;
 
     const coords = getCanvasCoordinates(e);
@@ -242,19 +562,20 @@ export function AnnotationCanvas({
         annotationType = "text";
         const textContent = prompt("Enter text:");
         if (!textContent) return;
-        annotationCoords = { x: u(coords.x), y: u(coords.y) };
+        annotationCoords = withAnchor({ x: u(coords.x), y: u(coords.y) });
         
         try {
-          await annotationService.createAnnotation({
+          const created = await annotationService.createAnnotation({
             document_id: documentId,
             page_number: pageNumber,
             annotation_type: annotationType,
             coordinates: annotationCoords,
             content: textContent,
             color: currentColor,
-            media_timestamp: currentTimestamp,
-            media_file_id: selectedMediaFileId,
+            ...mediaLink(),
           });
+          history.record({ type: "create", label: describeCommand("Add", created), annotation: created });
+          onAnnotationCreated?.(created);
           await loadAnnotations();
         } catch (error) {
           console.error("Failed to create text annotation:", error);
@@ -264,15 +585,16 @@ export function AnnotationCanvas({
 
     // Save annotation
     try {
-      await annotationService.createAnnotation({
+      const created = await annotationService.createAnnotation({
         document_id: documentId,
         page_number: pageNumber,
         annotation_type: annotationType,
-        coordinates: annotationCoords,
+        coordinates: withAnchor(annotationCoords),
         color: currentColor,
-        media_timestamp: currentTimestamp,
-        media_file_id: selectedMediaFileId,
+        ...mediaLink(),
       });
+      history.record({ type: "create", label: describeCommand("Add", created), annotation: created });
+      onAnnotationCreated?.(created);
       await loadAnnotations();
     } catch (error) {
       console.error("Failed to create annotation:", error);
@@ -281,91 +603,197 @@ export function AnnotationCanvas({
     setStartPoint(null);
   };
 
-  const handleAnnotationClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const coords = getCanvasCoordinates(e);
-    const u = (val: number) => val / scale;
-    const clickX = u(coords.x);
-    const clickY = u(coords.y);
-    
-    // Find clicked annotation
-    const clickedAnnotation = annotations.find((ann) => {
-      const c = ann.coordinates as unknown as AnnotationCoordinates;
-      
-      switch (ann.annotation_type) {
-        case "highlight":
-        case "shape":
-          return (
-            clickX >= c.x &&
-            clickX <= c.x + (c.width || 0) &&
-            clickY >= c.y &&
-            clickY <= c.y + (c.height || 0)
-          );
-        
-        case "text":
-          // 20px radius around text (unscaled)
-          return Math.hypot(clickX - c.x, clickY - c.y) < 20;
-        
-        case "drawing":
-          // Check if click is near any point in the path
-          if (c.points) {
-            return c.points.some(
-              (point) => Math.hypot(clickX - point.x, clickY - point.y) < 10
-            );
-          }
-          return false;
-        
-        default:
-          return false;
+  const handleSelectDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toViewer(getCanvasCoordinates(e));
+
+    // A corner handle of the selected highlight or rectangle
+    const resizable = resizableSelection();
+    if (resizable) {
+      const box = boundsOf(resizable);
+      const corner = (Object.entries(cornersOf(box)) as [Corner, Point][]).find(
+        ([, c]) => Math.hypot(point.x - c.x, point.y - c.y) <= HANDLE_SIZE / scale
+      )?.[0];
+      if (corner) {
+        setDrag({ mode: "resize", corner, box, start: point, current: point });
+        return;
       }
+    }
+
+    const clickedAnnotation = annotationAt(point);
+    if (!clickedAnnotation) {
+      if (!e.shiftKey) setSelectedIds([]);
+      setDrag({ mode: "band", additive: e.shiftKey, start: point, current: point });
+      return;
+    }
+
+    // Shift-click adds to or removes from the selection
+    if (e.shiftKey) {
+      setSelectedIds((prev) =>
+        prev.includes(clickedAnnotation.id) ? prev.filter((id) => id !== clickedAnnotation.id) : [...prev, clickedAnnotation.id]
+      );
+      return;
+    }
+
+    if (!selectedIds.includes(clickedAnnotation.id)) setSelectedIds([clickedAnnotation.id]);
+    onAnnotationClick?.(clickedAnnotation);
+    setDrag({ mode: "move", start: point, current: point });
+  };
+
+  const finishDrag = async (finished: Drag) => {
+    setDrag(null);
+
+    if (finished.mode === "band") {
+      const band = rectBetween(finished.start, finished.current);
+      const touched = annotations.filter((annotation) => intersects(band, boundsOf(annotation))).map((annotation) => annotation.id);
+      setSelectedIds((prev) => (finished.additive ? Array.from(new Set([...prev, ...touched])) : touched));
+      return;
+    }
+
+    // A click without a drag only selects
+    if (Math.hypot(finished.current.x - finished.start.x, finished.current.y - finished.start.y) < 2 / scale) return;
+
+    const updates = selected.flatMap((annotation) => {
+      const coordinates = draggedCoordinates(annotation, finished);
+      return coordinates ? [{ annotation, after: placement(coordinates) }] : [];
     });
+    await saveUpdates(finished.mode === "move" ? selectionLabel("Move") : selectionLabel("Resize"), updates);
+  };
+
+  // Stored fields for an annotation at new coordinates. Anchored annotations
+  // get a fresh anchor at their new place on this page.
+  const placement = (coordinates: AnnotationCoordinates): UpdateAnnotationData => {
+    if (!anchoring) return { coordinates };
+    return { coordinates: withAnchor({ ...coordinates, anchor: undefined }), page_number: pageNumber };
+  };
+
+  const selectionLabel = (verb: string) =>
+    selected.length === 1 ? describeCommand(verb, selected[0]) : `${verb} ${selected.length} annotations`;
+
+  // Several commands from one action are undone together
+  const recordCommands = (label: string, commands: AnnotationCommand[]) => {
+    if (commands.length === 1) history.record(commands[0]);
+    else if (commands.length > 1) history.record({ type: "batch", label, commands });
+  };
+
+  const showError = (description: string) => {
+    toast({ variant: "destructive", title: "Error", description });
+  };
+
+  const saveUpdates = async (label: string, updates: { annotation: Annotation; after: UpdateAnnotationData }[]) => {
+    if (updates.length === 0) return;
+
+    // Show the change straight away; the saved rows replace it below
+    const patches = new Map(updates.map(({ annotation, after }) => [annotation.id, after]));
+    const stored = new Map(loadedAnnotations.map((annotation) => [annotation.id, annotation]));
+    setLoadedAnnotations((prev) =>
+      prev.map((annotation) => (patches.has(annotation.id) ? ({ ...annotation, ...patches.get(annotation.id) } as unknown as Annotation) : annotation))
+    );
 
-    if (clickedAnnotation && onAnnotationClick) {
-      onAnnotationClick(clickedAnnotation);
+    // History keeps the stored values, not the positions anchoring shifted them to
+    const commands: AnnotationCommand[] = [];
+    try {
+      for (const { annotation, after } of updates) {
+        await annotationService.updateAnnotation(annotation.id, after);
+        const before = snapshot(stored.get(annotation.id) ?? annotation, after);
+        commands.push({ type: "update", label, annotationId: annotation.id, before, after });
+      }
+    } catch (error) {
+      console.error("Failed to update annotations:", error);
+      showError("Failed to save the annotation changes.");
     }
+    recordCommands(label, commands);
+    await loadAnnotations();
   };
 
-  const handleEraserClick = async (e: React.MouseEvent<HTMLCanvasElement>) => {
-    const coords = getCanvasCoordinates(e);
-    const u = (val: number) => val / scale;
-    const clickX = u(coords.x);
-    const clickY = u(coords.y);
-    
-    // Find clicked annotation
-    const clickedAnnotation = annotations.find((ann) => {
-      const c = ann.coordinates as unknown as AnnotationCoordinates;
-      
-      switch (ann.annotation_type) {
-        case "highlight":
-        case "shape":
-          return (
-            clickX >= c.x &&
-            clickX <= c.x + (c.width || 0) &&
-            clickY >= c.y &&
-            clickY <= c.y + (c.height || 0)
-          );
-        
-        case "text":
-          // 20px radius around text (unscaled)
-          return Math.hypot(clickX - c.x, clickY - c.y) < 20;
-        
-        case "drawing":
-          // Check if click is near any point in the path
-          if (c.points) {
-            return c.points.some(
-              (point) => Math.hypot(clickX - point.x, clickY - point.y) < 10
-            );
-          }
-          return false;
-        
-        default:
-          return false;
+  const recolourSelection = () =>
+    saveUpdates(
+      selectionLabel("Recolour"),
+      selected.filter((annotation) => annotation.color !== currentColor).map((annotation) => ({ annotation, after: { color: currentColor } }))
+    );
+
+  const deleteSelection = async () => {
+    const label = selectionLabel("Delete");
+    const commands: AnnotationCommand[] = [];
+    try {
+      for (const annotation of selected) {
+        const command = await deleteForHistory(annotation.id, "Delete");
+        if (command) commands.push(command);
       }
-    });
+    } catch (error) {
+      console.error("Failed to delete annotations:", error);
+      showError("Failed to delete the selected annotations.");
+    }
+    recordCommands(label, commands);
+    setSelectedIds([]);
+    await loadAnnotations();
+  };
+
+  // Copies are plain annotations: text highlights don't keep their quote, and
+  // copies on other pages aren't anchored to text
+  const copySelection = async () => {
+    const answer = prompt(`Copy to page (1-${numPages ?? "?"}):`, String(pageNumber));
+    if (!answer) return;
 
-    // Delete the annotation immediately
+    const target = Number(answer);
+    if (!Number.isInteger(target) || target < 1 || (numPages !== undefined && target > numPages)) {
+      showError(`There is no page ${answer}.`);
+      return;
+    }
+
+    const label = selectionLabel("Copy");
+    const offset = target === pageNumber ? COPY_OFFSET : 0;
+    const commands: AnnotationCommand[] = [];
+    const copies: string[] = [];
+    try {
+      for (const annotation of selected) {
+        const coords = annotation.coordinates as unknown as AnnotationCoordinates;
+        const coordinates = shiftCoordinates({ ...coords, anchor: undefined, quote: undefined, textRange: undefined }, offset, offset);
+        const created = await annotationService.createAnnotation({
+          document_id: documentId,
+          page_number: target,
+          annotation_type: annotation.annotation_type as CreateAnnotationData["annotation_type"],
+          coordinates: target === pageNumber ? withAnchor(coordinates) : coordinates,
+          content: annotation.content ?? undefined,
+          color: annotation.color ?? undefined,
+          media_timestamp: annotation.media_timestamp ?? undefined,
+          media_file_id: annotation.media_file_id ?? undefined,
+        });
+        commands.push({ type: "create", label: describeCommand("Copy", created), annotation: created });
+        copies.push(created.id);
+      }
+    } catch (error) {
+      console.error("Failed to copy annotations:", error);
+      showError("Failed to copy the selected annotations.");
+    }
+    recordCommands(label, commands);
+
+    if (target === pageNumber) {
+      setSelectedIds(copies);
+      await loadAnnotations();
+    } else if (copies.length > 0) {
+      toast({ title: "Copied", description: `${label} to page ${target}.` });
+    }
+  };
+
+  // Double-clicking a text note edits it
+  const handleDoubleClick = async (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (currentTool !== "select") return;
+    const annotation = annotationAt(toViewer(getCanvasCoordinates(e)));
+    if (annotation?.annotation_type !== "text") return;
+
+    const content = prompt("Edit text:", annotation.content || "");
+    if (!content || content === annotation.content) return;
+    await saveUpdates("Edit text note", [{ annotation, after: { content } }]);
+  };
+
+  const handleEraserClick = async (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const clickedAnnotation = annotationAt(toViewer(getCanvasCoordinates(e)));
+
+    // Delete the annotation immediately; undo brings it back
     if (clickedAnnotation) {
       try {
-        await annotationService.deleteAnnotation(clickedAnnotation.id);
+        const command = await deleteForHistory(clickedAnnotation.id, "Erase");
+        if (command) history.record(command);
         // Reload annotations to reflect deletion
         await loadAnnotations();
       } catch (error) {
@@ -374,21 +802,49 @@ export function AnnotationCanvas({
     }
   };
 
+  // Actions for the selection float above it
+  const selectionBox = currentTool === "select" && selected.length > 0 && !drag ? boundingBox(selected.map(boundsOf)) : null;
+
   return (
-    <canvas
-      ref={canvasRef}
-      width={width}
-      height={height}
-      onMouseDown={handleMouseDown}
-      onMouseMove={handleMouseMove}
-      onMouseUp={handleMouseUp}
-      className="absolute top-0 left-0 cursor-crosshair"
-      style={{ 
-        pointerEvents: currentTool === "select" || currentTool === "eraser" ? "auto" : "all",
-        zIndex: 10,
-        touchAction: "none",
-        cursor: currentTool === "eraser" ? "not-allowed" : currentTool === "select" ? "pointer" : "crosshair"
-      }}
-    />
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={() => drag && finishDrag(drag)}
+        onDoubleClick={handleDoubleClick}
+        className="absolute top-0 left-0 cursor-crosshair"
+        style={{ 
+          pointerEvents: currentTool === "textHighlight" ? "none" : currentTool === "select" || currentTool === "eraser" ? "auto" : "all",
+          zIndex: 10,
+          touchAction: "none",
+          cursor: currentTool === "eraser" ? "not-allowed" : drag?.mode === "move" ? "move" : currentTool === "select" ? "pointer" : "crosshair"
+        }}
+      />
+      {selectionBox && (
+        <div
+          className="absolute flex items-center gap-1 rounded-md border bg-background p-1 shadow-md"
+          style={{
+            left: Math.max(0, Math.min(selectionBox.x * scale, width - 180)),
+            top: Math.max(0, selectionBox.y * scale - 44),
+            zIndex: 20,
+          }}
+        >
+          <span className="px-1 text-xs text-muted-foreground">{selected.length} selected</span>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={recolourSelection} title="Apply current color">
+            <div className="w-4 h-4 rounded border" style={{ backgroundColor: currentColor }} />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={copySelection} title="Copy to page">
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={deleteSelection} title="Delete (Del)">
+            <Trash2 className="h-4 w-4 text-destructive" />
+          </Button>
+        </div>
+      )}
+    </>
   );
 }
\ No newline at end of file
@@ -11,6 +11,11 @@ import {
   Unlink,
   Trash2,
   Eraser,
+  TextSelect,
+  Undo2,
+  Redo2,
+  MessageSquare,
+  Timer,
 } from "lucide-react";
 import {
   Popover,
@@ -18,10 +23,11 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Badge } from "@/components/ui/badge";
+import { useMediaPlayback, usePlaybackState } from "@/contexts/MediaPlaybackContext";
 
 interface AnnotationToolbarProps {
-  currentTool: "highlight" | "drawing" | "text" | "shape" | "select" | "eraser";
-  onToolChange: (tool: "highlight" | "drawing" | "text" | "shape" | "select" | "eraser") => void;
+  currentTool: "highlight" | "textHighlight" | "drawing" | "text" | "shape" | "select" | "eraser";
+  onToolChange: (tool: "highlight" | "textHighlight" | "drawing" | "text" | "shape" | "select" | "eraser") => void;
   currentColor: string;
   onColorChange: (color: string) => void;
   selectedAnnotation?: any;
@@ -31,6 +37,16 @@ interface AnnotationToolbarProps {
   hasLinkedTimestamp?: boolean;
   hasSelectedAnnotation?: boolean;
   isLinked?: boolean;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  onShowComments?: () => void;
+  // Whether new annotations are linked to the playhead as they are created
+  linkNewToPlayhead?: boolean;
+  onLinkNewToPlayheadChange?: (enabled: boolean) => void;
 }
 
 const PRESET_COLORS = [
@@ -54,9 +70,46 @@ export function AnnotationToolbar({
   onDeleteAnnotation,
   hasSelectedAnnotation = false,
   isLinked = false,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  undoLabel,
+  redoLabel,
+  onShowComments,
+  linkNewToPlayhead = false,
+  onLinkNewToPlayheadChange,
 }: AnnotationToolbarProps) {
+  const { media } = useMediaPlayback();
+  const { currentTime } = usePlaybackState();
+  const playhead = `${Math.floor(currentTime / 60)}:${Math.floor(currentTime % 60).toString().padStart(2, "0")}`;
+
   return (
     <div className="flex items-center gap-2 p-2 bg-background border-b">
+      {/* History */}
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onUndo}
+          title={undoLabel ? `Undo ${undoLabel.toLowerCase()} (Ctrl+Z)` : "Undo (Ctrl+Z)"}
+          disabled={!onUndo || !canUndo}
+        >
+          <Undo2 className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onRedo}
+          title={redoLabel ? `Redo ${redoLabel.toLowerCase()} (Ctrl+Shift+Z)` : "Redo (Ctrl+Shift+Z)"}
+          disabled={!onRedo || !canRedo}
+        >
+          <Redo2 className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Separator orientation="vertical" className="h-8" />
+
       {/* Drawing Tools */}
       <div className="flex items-center gap-1">
         <Button
@@ -88,6 +141,15 @@ export function AnnotationToolbar({
           <Highlighter className="h-4 w-4" />
         </Button>
         
+        <Button
+          variant={currentTool === "textHighlight" ? "default" : "ghost"}
+          size="icon"
+          onClick={() => onToolChange("textHighlight")}
+          title="Highlight Text - Select text to highlight it"
+        >
+          <TextSelect className="h-4 w-4" />
+        </Button>
+        
         <Button
           variant={currentTool === "drawing" ? "default" : "ghost"}
           size="icon"
@@ -156,6 +218,24 @@ export function AnnotationToolbar({
       <Separator orientation="vertical" className="h-8" />
 
       {/* Timestamp Linking */}
+      {onLinkNewToPlayheadChange && (
+        <Button
+          variant={linkNewToPlayhead ? "default" : "outline"}
+          size="icon"
+          onClick={() => onLinkNewToPlayheadChange(!linkNewToPlayhead)}
+          title={
+            !media
+              ? "Select a media file to link new annotations to its playhead"
+              : linkNewToPlayhead
+                ? "Stop linking new annotations to the playhead"
+                : `Link new annotations to the playhead (${playhead})`
+          }
+          disabled={!media}
+        >
+          <Timer className="h-4 w-4" />
+        </Button>
+      )}
+
       {hasSelectedAnnotation && (
         <>
           {!isLinked ? (
@@ -163,8 +243,8 @@ export function AnnotationToolbar({
               variant="ghost"
               size="icon"
               onClick={onLinkTimestamp}
-              title="Link to Current Timestamp"
-              disabled={!onLinkTimestamp}
+              title={media ? `Link to Current Timestamp (${playhead})` : "Select a media file to link a timestamp"}
+              disabled={!onLinkTimestamp || !media}
             >
               <Link className="h-4 w-4" />
             </Button>
@@ -180,6 +260,16 @@ export function AnnotationToolbar({
             </Button>
           )}
 
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onShowComments}
+            title="Comments"
+            disabled={!onShowComments}
+          >
+            <MessageSquare className="h-4 w-4" />
+          </Button>
+
           <Button
             variant="ghost"
             size="icon"
@@ -0,0 +1,326 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle2, Loader2, MessageSquare, Pencil, Reply, RotateCcw, Trash2 } from "lucide-react";
+import { ANNOTATION_NOUNS } from "@/lib/documents/annotationHistory";
+import { authService } from "@/services/authService";
+import { commentService, type AnnotationComment } from "@/services/commentService";
+import type { Annotation, AnnotationCoordinates } from "@/services/annotationService";
+import { useRowChanges } from "@/hooks/use-realtime";
+import { useToast } from "@/hooks/use-toast";
+import { removeRow, upsertRow } from "@/integrations/supabase/realtime";
+import { cn } from "@/lib/utils";
+
+interface CommentsPanelProps {
+  annotation: Annotation | null;
+}
+
+// Replies are indented up to this depth; deeper replies line up with the last level
+const MAX_INDENT = 3;
+
+const byCreatedAt = (a: AnnotationComment, b: AnnotationComment) => (a.created_at ?? "").localeCompare(b.created_at ?? "");
+
+function CommentForm({
+  initialBody = "",
+  placeholder,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialBody?: string;
+  placeholder: string;
+  submitLabel: string;
+  // Resolves to whether the comment was saved; the text is kept if not
+  onSubmit: (body: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [body, setBody] = useState(initialBody);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const submit = async () => {
+    if (!body.trim()) return;
+    setIsSaving(true);
+    if (await onSubmit(body)) setBody("");
+    setIsSaving(false);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder={placeholder}
+        className="min-h-[4rem] text-sm"
+        autoFocus={!!onCancel}
+        onKeyDown={(e) => {
+          // Ctrl/Cmd+Enter posts, Escape cancels
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault();
+            submit();
+          } else if (e.key === "Escape" && onCancel) {
+            onCancel();
+          }
+        }}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" onClick={submit} disabled={!body.trim() || isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Discussion on the selected annotation: threads of comments with nested
+ * replies. Threads can be resolved and reopened; authors can edit and
+ * delete their own comments. Changes from other sessions arrive over
+ * Realtime. Projects have a single owner, so every comment is currently
+ * the owner's own and no author is shown.
+ */
+export function CommentsPanel({ annotation }: CommentsPanelProps) {
+  const [comments, setComments] = useState<AnnotationComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showResolved, setShowResolved] = useState(false);
+  const { toast } = useToast();
+
+  const annotationId = annotation?.id ?? null;
+
+  useEffect(() => {
+    authService.getCurrentUser().then((user) => setCurrentUserId(user?.id ?? null));
+  }, []);
+
+  const loadComments = async () => {
+    if (!annotationId) return;
+    try {
+      setComments(await commentService.getComments(annotationId));
+    } catch (error) {
+      console.error("Error loading comments:", error);
+    }
+  };
+
+  useEffect(() => {
+    setComments([]);
+    setReplyingTo(null);
+    setEditingId(null);
+    if (!annotationId) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    commentService
+      .getComments(annotationId)
+      .then((data) => {
+        if (!cancelled) setComments(data);
+      })
+      .catch((error) => console.error("Error loading comments:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [annotationId]);
+
+  useRowChanges("annotation_comments", annotationId ? { column: "annotation_id", value: annotationId } : null, {
+    onInsert: (row) => setComments((prev) => upsertRow(prev, row)),
+    onUpdate: (row) => setComments((prev) => upsertRow(prev, row)),
+    onDelete: ({ id }) => setComments((prev) => removeRow(prev, id)),
+    onSubscribed: loadComments,
+  });
+
+  const showError = (description: string) => {
+    toast({ variant: "destructive", title: "Error", description });
+  };
+
+  const handleAdd = async (body: string, parentId?: string) => {
+    if (!annotationId) return false;
+    try {
+      const comment = await commentService.addComment(annotationId, body, parentId);
+      setComments((prev) => upsertRow(prev, comment));
+      setReplyingTo(null);
+      return true;
+    } catch (error) {
+      console.error("Error posting comment:", error);
+      showError(parentId ? "Failed to post reply." : "Failed to post comment.");
+      return false;
+    }
+  };
+
+  const handleEdit = async (commentId: string, body: string) => {
+    try {
+      const comment = await commentService.updateComment(commentId, body);
+      setComments((prev) => upsertRow(prev, comment));
+      setEditingId(null);
+      return true;
+    } catch (error) {
+      console.error("Error saving comment:", error);
+      showError("Failed to save comment.");
+      return false;
+    }
+  };
+
+  const handleResolve = async (comment: AnnotationComment) => {
+    try {
+      const updated = await commentService.setResolved(comment.id, !comment.resolved_at);
+      setComments((prev) => upsertRow(prev, updated));
+    } catch (error) {
+      console.error("Error resolving thread:", error);
+      showError(comment.resolved_at ? "Failed to reopen thread." : "Failed to resolve thread.");
+    }
+  };
+
+  const handleDelete = async (comment: AnnotationComment) => {
+    const hasReplies = comments.some((other) => other.parent_id === comment.id);
+    if (!confirm(hasReplies ? "Delete this comment and its replies?" : "Delete this comment?")) return;
+    try {
+      await commentService.deleteComment(comment.id);
+      // Its replies go with it, so reload rather than dropping one row
+      await loadComments();
+    } catch (error) {
+      console.error("Error deleting comment:", error);
+      showError("Failed to delete comment.");
+    }
+  };
+
+  if (!annotation) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center p-6 text-center text-muted-foreground">
+        <MessageSquare className="w-10 h-10 mb-3 opacity-50" />
+        <p className="text-sm font-medium">No annotation selected</p>
+        <p className="text-xs mt-1">Select an annotation with the select tool to see its discussion</p>
+      </div>
+    );
+  }
+
+  const sorted = [...comments].sort(byCreatedAt);
+  const repliesTo = (parentId: string) => sorted.filter((comment) => comment.parent_id === parentId);
+  const threads = sorted.filter((comment) => !comment.parent_id);
+  const resolvedCount = threads.filter((thread) => thread.resolved_at).length;
+  const visibleThreads = showResolved ? threads : threads.filter((thread) => !thread.resolved_at);
+
+  const coords = annotation.coordinates as unknown as AnnotationCoordinates | null;
+  const excerpt = coords?.quote || annotation.content;
+
+  const renderComment = (comment: AnnotationComment, depth: number) => {
+    const isThread = !comment.parent_id;
+    const isOwn = comment.user_id === currentUserId;
+
+    return (
+      <div key={comment.id} className={cn(depth > 0 && depth <= MAX_INDENT && "ml-4 border-l pl-3")}>
+        <div className={cn("rounded-md p-2", isThread && comment.resolved_at && "opacity-70")}>
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            {comment.created_at && <span>{new Date(comment.created_at).toLocaleString()}</span>}
+            {comment.edited_at && <span>(edited)</span>}
+            {isThread && comment.resolved_at && (
+              <Badge variant="secondary" className="ml-auto text-[10px]">Resolved</Badge>
+            )}
+          </div>
+
+          {editingId === comment.id ? (
+            <div className="mt-2">
+              <CommentForm
+                initialBody={comment.body}
+                placeholder="Edit comment"
+                submitLabel="Save"
+                onSubmit={(body) => handleEdit(comment.id, body)}
+                onCancel={() => setEditingId(null)}
+              />
+            </div>
+          ) : (
+            <p className="mt-1 text-sm whitespace-pre-wrap break-words">{comment.body}</p>
+          )}
+
+          {editingId !== comment.id && (
+            <div className="mt-1 flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setReplyingTo(comment.id)}>
+                <Reply className="mr-1 h-3 w-3" />
+                Reply
+              </Button>
+              {isThread && (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => handleResolve(comment)}>
+                  {comment.resolved_at ? <RotateCcw className="mr-1 h-3 w-3" /> : <CheckCircle2 className="mr-1 h-3 w-3" />}
+                  {comment.resolved_at ? "Reopen" : "Resolve"}
+                </Button>
+              )}
+              {isOwn && (
+                <>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setEditingId(comment.id)} title="Edit">
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleDelete(comment)} title="Delete">
+                    <Trash2 className="h-3 w-3 text-destructive" />
+                  </Button>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {replyingTo === comment.id && (
+          <div className="ml-4 mb-2 border-l pl-3">
+            <CommentForm
+              placeholder="Write a reply"
+              submitLabel="Reply"
+              onSubmit={(body) => handleAdd(body, comment.id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </div>
+        )}
+
+        {repliesTo(comment.id).map((reply) => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="border-b p-3">
+        <p className="text-sm font-medium capitalize">
+          {ANNOTATION_NOUNS[annotation.annotation_type] ?? "Annotation"} on page {annotation.page_number}
+        </p>
+        {excerpt && <p className="mt-1 line-clamp-2 text-xs text-muted-foreground">&ldquo;{excerpt}&rdquo;</p>}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="space-y-3 p-3">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : threads.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No comments yet. Start the discussion below.</p>
+          ) : (
+            <>
+              {visibleThreads.map((thread) => (
+                <div key={thread.id} className="rounded-lg border bg-background">
+                  {renderComment(thread, 0)}
+                </div>
+              ))}
+              {resolvedCount > 0 && (
+                <Button variant="ghost" size="sm" className="w-full text-xs" onClick={() => setShowResolved((prev) => !prev)}>
+                  {showResolved ? "Hide resolved threads" : `Show resolved threads (${resolvedCount})`}
+                </Button>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+
+      <div className="border-t p-3">
+        <CommentForm placeholder="Add a comment (Ctrl+Enter to post)" submitLabel="Comment" onSubmit={(body) => handleAdd(body)} />
+      </div>
+    </div>
+  );
+}
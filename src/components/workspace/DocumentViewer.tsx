@@ -1,21 +1,36 @@
 import { useState, useRef, useEffect } from "react";
 import { Document as PDFDocument, Page as PDFPage, pdfjs } from "react-pdf";
-import { Document, type Document as DocumentType } from "@/services/documentService";
+import { documentService, type Document as DocumentType } from "@/services/documentService";
 import { Annotation } from "@/services/annotationService";
 import { AnnotationCanvas } from "@/components/workspace/AnnotationCanvas";
-import { FileText, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { DocxPage } from "@/components/workspace/DocxPage";
+import type { AnnotationAnchoring } from "@/lib/documents/docxAnchors";
+import { useMediaPlayback } from "@/contexts/MediaPlaybackContext";
+import { FileText, ZoomIn, ZoomOut, ChevronLeft, ChevronRight, Loader2, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
 
 // Configure PDF.js worker
 pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
 
+// Page a DOCX paragraph was laid out on
+const paragraphPage = (anchoring: AnnotationAnchoring, paragraph: number) =>
+  anchoring.resolveAnchor({ paragraph, offset: 0, dx: 0, dy: 0 })?.pageNumber ?? null;
+
 interface DocumentViewerProps {
   document: DocumentType | null;
   documentUrl?: string;
   onAnnotationCreate?: (annotation: any) => void;
-  currentTool: "highlight" | "drawing" | "text" | "shape" | "select" | "eraser";
+  currentTool: "highlight" | "textHighlight" | "drawing" | "text" | "shape" | "select" | "eraser";
   currentColor: string;
   onAnnotationSelect?: (annotation: Annotation) => void;
+  // Jump to a page, e.g. from a search result. DOCX results name a paragraph
+  // instead, whose page is known once the document is laid out. A new
+  // object re-triggers the jump.
+  targetPage?: { pageNumber: number; paragraph?: number } | null;
+  // Link new annotations to the selected media's playhead
+  linkNewToPlayhead?: boolean;
 }
 
 export function DocumentViewer({ 
@@ -24,7 +39,9 @@ export function DocumentViewer({
   onAnnotationCreate,
   currentTool,
   currentColor,
-  onAnnotationSelect
+  onAnnotationSelect,
+  targetPage,
+  linkNewToPlayhead = false
 }: DocumentViewerProps) {
   const [numPages, setNumPages] = useState<number>(0);
   const [pageNumber, setPageNumber] = useState<number>(1);
@@ -33,8 +50,20 @@ export function DocumentViewer({
   const [error, setError] = useState<string | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [pageDimensions, setPageDimensions] = useState<{ width: number; height: number } | null>(null);
+  // DOCX pages are laid out in the browser, so annotations are anchored to text
+  const [anchoring, setAnchoring] = useState<AnnotationAnchoring | null>(null);
+  // Rendered page text, used for text-selection highlights, with the page
+  // and zoom it was rendered for
+  const [textLayer, setTextLayer] = useState<{ root: HTMLElement; pageNumber: number; scale: number } | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
   
   const containerRef = useRef<HTMLDivElement>(null);
+  // The current document's anchoring, and a paragraph to show once it is laid out
+  const anchoringRef = useRef<AnnotationAnchoring | null>(null);
+  const pendingParagraphRef = useRef<number | null>(null);
+  const isPDF = document?.file_type === "pdf";
+  const playback = useMediaPlayback();
+  const { toast } = useToast();
 
   // Load PDF URL when document changes
   useEffect(() => {
@@ -43,11 +72,30 @@ export function DocumentViewer({
       setError(null);
       setPdfUrl(documentUrl);
       setPageNumber(1);
+      setPageDimensions(null);
+      setAnchoring(null);
+      anchoringRef.current = null;
+      setTextLayer(null);
     } else {
       setPdfUrl(null);
     }
   }, [document, documentUrl]);
 
+  useEffect(() => {
+    if (!targetPage) return;
+
+    const paragraph = targetPage.paragraph ?? null;
+    const page = paragraph !== null && anchoringRef.current ? paragraphPage(anchoringRef.current, paragraph) : null;
+    pendingParagraphRef.current = paragraph !== null && !anchoringRef.current ? paragraph : null;
+    setPageNumber(Math.max(1, page ?? targetPage.pageNumber));
+  }, [targetPage]);
+
+  // The PDF text layer re-renders for each page and zoom level; until it
+  // reports success, the previous page's text must not be used
+  useEffect(() => {
+    if (isPDF) setTextLayer(null);
+  }, [isPDF, pageNumber, scale]);
+
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
     setLoading(false);
@@ -55,8 +103,8 @@ export function DocumentViewer({
   };
 
   const onDocumentLoadError = (error: Error) => {
-    console.error("Error loading PDF:", error);
-    setError("Failed to load PDF. Please try again.");
+    console.error("Error loading document:", error);
+    setError(`Failed to load ${isPDF ? "PDF" : "document"}. Please try again.`);
     setLoading(false);
   };
 
@@ -70,6 +118,30 @@ export function DocumentViewer({
     console.log("PDF page loaded, dimensions:", { width: viewport.width, height: viewport.height, scale });
   };
 
+  const onTextLayerRender = () => {
+    const root = containerRef.current?.querySelector<HTMLElement>(".react-pdf__Page__textContent");
+    setTextLayer(root ? { root, pageNumber, scale } : null);
+  };
+
+  const onDocxPageRender = ({ width, height, anchoring, textRoot }: {
+    width: number;
+    height: number;
+    anchoring: AnnotationAnchoring;
+    textRoot: HTMLElement;
+  }) => {
+    setPageDimensions({ width, height });
+    setAnchoring(anchoring);
+    anchoringRef.current = anchoring;
+
+    const paragraph = pendingParagraphRef.current;
+    if (paragraph !== null) {
+      pendingParagraphRef.current = null;
+      const page = paragraphPage(anchoring, paragraph);
+      if (page) setPageNumber(page);
+    }
+    setTextLayer({ root: textRoot, pageNumber, scale });
+  };
+
   const changePage = (offset: number) => {
     setPageNumber(prevPageNumber => {
       const newPageNumber = prevPageNumber + offset;
@@ -84,6 +156,23 @@ export function DocumentViewer({
     });
   };
 
+  const handleExport = async (flatten: boolean) => {
+    if (!document) return;
+    try {
+      setIsExporting(true);
+      await documentService.downloadAnnotatedPdf(document, { flatten });
+    } catch (error) {
+      console.error("Error exporting PDF:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to export the annotated PDF.",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   if (!document) {
     return (
       <div className="h-full flex flex-col items-center justify-center bg-slate-50 text-slate-400">
@@ -94,24 +183,55 @@ export function DocumentViewer({
     );
   }
 
-  // Check if file is PDF
-  const isPDF = document.file_type === "pdf";
+  // When enabled, new annotations link to the playhead of the selected media
+  const getCurrentTimestamp = () => {
+    const element = playback.element;
+    if (!linkNewToPlayhead || !playback.media || !element) return undefined;
+    return Math.floor(element.currentTime);
+  };
 
-  if (!isPDF) {
-    return (
-      <div className="h-full flex flex-col items-center justify-center bg-slate-50 text-slate-600">
-        <FileText className="w-16 h-16 mb-4 opacity-50" />
-        <p className="text-lg font-medium">{document.name}</p>
-        <p className="text-sm mt-2">DOCX preview coming soon</p>
-        <div className="mt-4 text-xs text-slate-500 max-w-md text-center">
-          <p>To implement DOCX rendering, install:</p>
-          <code className="bg-slate-200 px-2 py-1 rounded mt-2 inline-block">
-            npm install mammoth docx-preview
-          </code>
+  const handleAnnotationCreated = (annotation: Annotation) => {
+    onAnnotationCreate?.(annotation);
+    if (annotation.media_file_id) playback.refreshLinkedAnnotations();
+  };
+
+  // Clicking a linked annotation plays its media from the linked moment
+  const handleAnnotationClick = (annotation: Annotation) => {
+    onAnnotationSelect?.(annotation);
+    if (annotation.media_file_id && annotation.media_timestamp !== null) {
+      playback.seekTo(annotation.media_file_id, annotation.media_timestamp, { play: true });
+    }
+  };
+
+  const annotationOverlay = (
+    <>
+      {/* Annotation Canvas Overlay */}
+      {pageDimensions && (
+        <AnnotationCanvas
+          documentId={document.id}
+          pageNumber={pageNumber}
+          width={pageDimensions.width}
+          height={pageDimensions.height}
+          scale={scale}
+          currentTool={currentTool}
+          currentColor={currentColor}
+          onAnnotationClick={handleAnnotationClick}
+          onAnnotationCreated={handleAnnotationCreated}
+          selectedMediaFileId={playback.media?.id}
+          getCurrentTimestamp={getCurrentTimestamp}
+          anchoring={isPDF ? null : anchoring}
+          // Never hand the canvas the previous page's text while the new one renders
+          textLayer={textLayer?.pageNumber === pageNumber && textLayer.scale === scale ? textLayer.root : null}
+          numPages={numPages}
+        />
+      )}
+      {!pageDimensions && (
+        <div className="absolute inset-0 flex items-center justify-center bg-white/50 z-20">
+          <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
         </div>
-      </div>
-    );
-  }
+      )}
+    </>
+  );
 
   return (
     <div className="h-full flex flex-col bg-slate-100" ref={containerRef}>
@@ -159,6 +279,23 @@ export function DocumentViewer({
           >
             <ZoomIn className="w-4 h-4" />
           </Button>
+          {isPDF && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" title="Export with annotations" disabled={isExporting}>
+                  {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleExport(false)}>
+                  Annotated PDF
+                </DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleExport(true)}>
+                  Flattened PDF (for printing)
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
         </div>
       </div>
 
@@ -175,51 +312,48 @@ export function DocumentViewer({
           {loading && !error && (
             <div className="flex items-center justify-center py-12">
               <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
-              <span className="ml-3 text-slate-600">Loading PDF...</span>
+              <span className="ml-3 text-slate-600">Loading {isPDF ? "PDF" : "document"}...</span>
             </div>
           )}
 
           <div className="relative shadow-lg rounded-lg overflow-hidden bg-white">
-            <PDFDocument
-              file={pdfUrl}
-              onLoadSuccess={onDocumentLoadSuccess}
-              onLoadError={onDocumentLoadError}
-              loading={
-                <div className="flex items-center justify-center py-12 w-[600px] h-[800px]">
-                  <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+            {isPDF ? (
+              <PDFDocument
+                file={pdfUrl}
+                onLoadSuccess={onDocumentLoadSuccess}
+                onLoadError={onDocumentLoadError}
+                loading={
+                  <div className="flex items-center justify-center py-12 w-[600px] h-[800px]">
+                    <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
+                  </div>
+                }
+              >
+                <div className="relative">
+                  <PDFPage
+                    pageNumber={pageNumber}
+                    scale={scale}
+                    className="block"
+                    renderTextLayer={true}
+                    renderAnnotationLayer={true}
+                    onLoadSuccess={onPageLoadSuccess}
+                    onRenderTextLayerSuccess={onTextLayerRender}
+                  />
+                  {annotationOverlay}
                 </div>
-              }
-            >
+              </PDFDocument>
+            ) : pdfUrl && (
               <div className="relative">
-                <PDFPage
+                <DocxPage
+                  url={pdfUrl}
                   pageNumber={pageNumber}
                   scale={scale}
-                  className="block"
-                  renderTextLayer={true}
-                  renderAnnotationLayer={true}
-                  onLoadSuccess={onPageLoadSuccess}
+                  onLoadSuccess={onDocumentLoadSuccess}
+                  onLoadError={onDocumentLoadError}
+                  onRenderSuccess={onDocxPageRender}
                 />
-                
-                {/* Annotation Canvas Overlay */}
-                {pageDimensions && (
-                  <AnnotationCanvas
-                    documentId={document.id}
-                    pageNumber={pageNumber}
-                    width={pageDimensions.width}
-                    height={pageDimensions.height}
-                    scale={scale}
-                    currentTool={currentTool}
-                    currentColor={currentColor}
-                    onAnnotationClick={onAnnotationSelect}
-                  />
-                )}
-                {!pageDimensions && (
-                  <div className="absolute inset-0 flex items-center justify-center bg-white/50 z-20">
-                    <Loader2 className="w-8 h-8 animate-spin text-blue-600" />
-                  </div>
-                )}
+                {!loading && annotationOverlay}
               </div>
-            </PDFDocument>
+            )}
           </div>
         </div>
       </div>
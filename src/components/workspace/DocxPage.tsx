@@ -0,0 +1,162 @@
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import mammoth from "mammoth";
+import {
+  createPageAnchoring,
+  DOCX_PAGE_HEIGHT,
+  DOCX_PAGE_MARGIN,
+  DOCX_PAGE_WIDTH,
+  type AnnotationAnchoring,
+} from "@/lib/documents/docxAnchors";
+import { docxParagraphs } from "@/lib/documents/docxHtml";
+
+interface DocxPageProps {
+  url: string;
+  pageNumber: number;
+  scale: number;
+  onLoadSuccess: (info: { numPages: number }) => void;
+  onLoadError: (error: Error) => void;
+  // Called after each render with the scaled page size, its anchoring and
+  // the element holding the page text
+  onRenderSuccess: (page: { width: number; height: number; anchoring: AnnotationAnchoring; textRoot: HTMLElement }) => void;
+}
+
+// Typography for mammoth's HTML output; used for measuring and rendering
+const CONTENT_CLASSES =
+  "text-[15px] leading-relaxed text-slate-900 [&_p]:mb-3 [&_h1]:text-2xl [&_h1]:font-bold [&_h1]:mb-4 " +
+  "[&_h2]:text-xl [&_h2]:font-semibold [&_h2]:mb-3 [&_h3]:text-lg [&_h3]:font-semibold [&_h3]:mb-2 " +
+  "[&_ul]:list-disc [&_ul]:pl-6 [&_ul]:mb-3 [&_ol]:list-decimal [&_ol]:pl-6 [&_ol]:mb-3 " +
+  "[&_table]:border-collapse [&_table]:mb-3 [&_td]:border [&_td]:border-slate-300 [&_td]:px-2 [&_td]:py-1 " +
+  "[&_img]:max-w-full";
+
+const CONTENT_HEIGHT = DOCX_PAGE_HEIGHT - DOCX_PAGE_MARGIN * 2;
+
+/**
+ * Greedily pack paragraphs into pages by measured height. A paragraph
+ * taller than a page gets a page of its own.
+ */
+function paginate(heights: number[]): number[][] {
+  const pages: number[][] = [[]];
+  let used = 0;
+
+  heights.forEach((height, index) => {
+    const current = pages[pages.length - 1];
+    if (current.length > 0 && used + height > CONTENT_HEIGHT) {
+      pages.push([index]);
+      used = height;
+    } else {
+      current.push(index);
+      used += height;
+    }
+  });
+
+  return pages;
+}
+
+/**
+ * Renders one page of a DOCX file. The document is converted to HTML with
+ * mammoth and sanitized; each top-level block is a paragraph for anchoring
+ * purposes.
+ */
+export function DocxPage({ url, pageNumber, scale, onLoadSuccess, onLoadError, onRenderSuccess }: DocxPageProps) {
+  const [paragraphs, setParagraphs] = useState<string[] | null>(null);
+  const [pages, setPages] = useState<number[][] | null>(null);
+  const measureRef = useRef<HTMLDivElement>(null);
+  const pageRef = useRef<HTMLDivElement>(null);
+  // Latest callbacks, so the effects below only rerun when the document or
+  // page changes rather than on every parent render
+  const callbacksRef = useRef({ onLoadSuccess, onLoadError, onRenderSuccess });
+  callbacksRef.current = { onLoadSuccess, onLoadError, onRenderSuccess };
+
+  // Convert the document whenever the file changes
+  useEffect(() => {
+    let cancelled = false;
+    setParagraphs(null);
+    setPages(null);
+
+    (async () => {
+      try {
+        const response = await fetch(url);
+        if (!response.ok) throw new Error(`Failed to fetch document (${response.status})`);
+        const { value } = await mammoth.convertToHtml({ arrayBuffer: await response.arrayBuffer() });
+        if (!cancelled) setParagraphs(docxParagraphs(value));
+      } catch (error) {
+        console.error("Error converting DOCX:", error);
+        if (!cancelled) callbacksRef.current.onLoadError(error instanceof Error ? error : new Error("Failed to convert document"));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url]);
+
+  // Measure the converted paragraphs once and split them into pages
+  useLayoutEffect(() => {
+    const container = measureRef.current;
+    if (!paragraphs || pages || !container) return;
+
+    // Offsets rather than heights so collapsed margins are counted once
+    const elements = Array.from(container.children) as HTMLElement[];
+    const heights = elements.map((element, i) =>
+      (i + 1 < elements.length ? elements[i + 1].offsetTop : container.scrollHeight) - element.offsetTop
+    );
+
+    const result = paginate(heights);
+    setPages(result);
+    callbacksRef.current.onLoadSuccess({ numPages: result.length });
+  }, [paragraphs, pages]);
+
+  useLayoutEffect(() => {
+    const page = pageRef.current;
+    if (!pages || !page) return;
+
+    const paragraphPages: number[] = [];
+    pages.forEach((indices, i) => indices.forEach((index) => { paragraphPages[index] = i + 1; }));
+
+    callbacksRef.current.onRenderSuccess({
+      width: DOCX_PAGE_WIDTH * scale,
+      height: DOCX_PAGE_HEIGHT * scale,
+      anchoring: createPageAnchoring(page, pageNumber, paragraphPages, scale),
+      textRoot: page,
+    });
+  }, [pages, pageNumber, scale]);
+
+  if (!paragraphs) return null;
+
+  if (!pages) {
+    return (
+      <div
+        ref={measureRef}
+        className={`absolute invisible ${CONTENT_CLASSES}`}
+        style={{ width: DOCX_PAGE_WIDTH - DOCX_PAGE_MARGIN * 2 }}
+        aria-hidden
+      >
+        {paragraphs.map((html, index) => (
+          <div key={index} dangerouslySetInnerHTML={{ __html: html }} />
+        ))}
+      </div>
+    );
+  }
+
+  const indices = pages[Math.min(pageNumber, pages.length) - 1] || [];
+
+  return (
+    <div style={{ width: DOCX_PAGE_WIDTH * scale, height: DOCX_PAGE_HEIGHT * scale }}>
+      <div
+        ref={pageRef}
+        className={`bg-white overflow-hidden ${CONTENT_CLASSES}`}
+        style={{
+          width: DOCX_PAGE_WIDTH,
+          height: DOCX_PAGE_HEIGHT,
+          padding: DOCX_PAGE_MARGIN,
+          transform: `scale(${scale})`,
+          transformOrigin: "top left",
+        }}
+      >
+        {indices.map((index) => (
+          <div key={index} data-paragraph={index} dangerouslySetInnerHTML={{ __html: paragraphs[index] }} />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { TextMatch } from "@/lib/ai/types";
+
+interface HighlightedTextProps {
+  text: string;
+  matches?: TextMatch[];
+  className?: string;
+}
+
+/**
+ * Render text with the given character ranges marked
+ */
+export function HighlightedText({ text, matches = [], className }: HighlightedTextProps) {
+  if (matches.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+
+  [...matches]
+    .sort((a, b) => a.start - b.start)
+    .forEach((match, i) => {
+      if (match.start < cursor) return;
+      if (match.start > cursor) {
+        parts.push(<span key={`t${i}`}>{text.slice(cursor, match.start)}</span>);
+      }
+      parts.push(
+        <mark key={`m${i}`} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+          {text.slice(match.start, match.end)}
+        </mark>
+      );
+      cursor = match.end;
+    });
+
+  if (cursor < text.length) {
+    parts.push(<span key="rest">{text.slice(cursor)}</span>);
+  }
+
+  return <span className={className}>{parts}</span>;
+}
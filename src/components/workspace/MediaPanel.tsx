@@ -1,127 +1,166 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { mediaService, type MediaFile } from "@/services/mediaService";
+import { transcriptService, type Transcript, type TranscriptSegment } from "@/services/transcriptService";
 import { Play, Pause, Volume2, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { TranscriptView } from "@/components/workspace/TranscriptView";
+import { useMediaPlayback, usePlaybackState } from "@/contexts/MediaPlaybackContext";
+import { useRowChanges } from "@/hooks/use-realtime";
+import { toVtt } from "@/lib/media/subtitles";
+import type { SpeakerNames } from "@/lib/media/speakers";
+import type { Annotation, AnnotationCoordinates } from "@/services/annotationService";
 
 interface MediaPanelProps {
   media: MediaFile | null;
   projectId: string;
 }
 
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+function describeAnnotation(annotation: Annotation): string {
+  const coords = annotation.coordinates as unknown as AnnotationCoordinates | null;
+  return annotation.content || coords?.quote || `${annotation.annotation_type} on page ${annotation.page_number}`;
+}
+
+/**
+ * Markers for timestamp-linked annotations, positioned along the timeline
+ */
+function AnnotationMarkers({ annotations, duration, onSelect }: {
+  annotations: Annotation[];
+  duration: number;
+  onSelect: (annotation: Annotation) => void;
+}) {
+  if (!duration) return null;
+
+  return (
+    <div className="relative h-3">
+      {annotations.map((annotation) => (
+        <button
+          key={annotation.id}
+          type="button"
+          className="absolute top-0 h-3 w-1.5 -translate-x-1/2 rounded-sm hover:scale-125 transition-transform"
+          style={{
+            left: `${Math.min(100, ((annotation.media_timestamp ?? 0) / duration) * 100)}%`,
+            backgroundColor: annotation.color || "#FFFF00",
+          }}
+          title={`${formatTime(annotation.media_timestamp ?? 0)} - ${describeAnnotation(annotation)}`}
+          onClick={() => onSelect(annotation)}
+        />
+      ))}
+    </div>
+  );
+}
+
+/**
+ * The media file's completed transcript as a WebVTT object URL, for the
+ * video's captions track. Follows transcript edits over Realtime.
+ */
+function useCaptions(mediaFileId: string | null): string | null {
+  const [transcript, setTranscript] = useState<Transcript | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+
+  const loadTranscript = async () => {
+    if (!mediaFileId) return;
+    try {
+      setTranscript(await transcriptService.getTranscriptByMediaFile(mediaFileId));
+    } catch (error) {
+      console.error("Failed to load captions", error);
+    }
+  };
+
+  useEffect(() => {
+    setTranscript(null);
+    loadTranscript();
+  }, [mediaFileId]);
+
+  useRowChanges("transcripts", mediaFileId ? { column: "media_file_id", value: mediaFileId } : null, {
+    onInsert: () => loadTranscript(),
+    onUpdate: () => loadTranscript(),
+    onDelete: ({ id }) => setTranscript(prev => (prev?.id === id ? null : prev)),
+  });
+
+  useEffect(() => {
+    const segments = (transcript?.segments as unknown as TranscriptSegment[]) || [];
+    if (transcript?.status !== "completed" || segments.length === 0) {
+      setUrl(null);
+      return;
+    }
+
+    const vtt = toVtt(segments, transcript.speakers as SpeakerNames);
+    const objectUrl = URL.createObjectURL(new Blob([vtt], { type: "text/vtt" }));
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [transcript?.id, transcript?.updated_at, transcript?.status]);
+
+  return url;
+}
+
+// Stream URLs are signed with an expiry (unix seconds) in the query string
+const streamUrlExpired = (url: string) =>
+  Number(new URL(url, window.location.origin).searchParams.get("expires")) * 1000 <= Date.now();
+
 export function MediaPanel({ media, projectId }: MediaPanelProps) {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
-  const [transcriptText, setTranscriptText] = useState<string | null>(null);
+  const playback = useMediaPlayback();
+  const { currentTime, duration, isPlaying } = usePlaybackState();
+  const captionsUrl = useCaptions(media?.id ?? null);
   const [mediaUrl, setMediaUrl] = useState<string | null>(null);
   const [isLoadingMedia, setIsLoadingMedia] = useState(false);
-  const [loadingProgress, setLoadingProgress] = useState(0);
-  const mediaRef = useRef<HTMLVideoElement | HTMLAudioElement>(null);
-  const blobUrlRef = useRef<string | null>(null);
+  // Where to pick up again after swapping in a fresh stream URL
+  const resumeAt = useRef<number | null>(null);
 
   useEffect(() => {
     if (media) {
       loadMedia(media);
     } else {
-      cleanupBlobUrl();
       setMediaUrl(null);
-      setTranscriptText(null);
-    }
-
-    return () => {
-      cleanupBlobUrl();
-    };
-  }, [media]);
-
-  // Load transcript when media file changes
-  useEffect(() => {
-    if (media) {
-      // Transcript is now handled by TranscriptView component
     }
-  }, [media]);
-
-  function cleanupBlobUrl() {
-    if (blobUrlRef.current) {
-      URL.revokeObjectURL(blobUrlRef.current);
-      blobUrlRef.current = null;
-    }
-  }
+  }, [media?.id]);
 
+  // The player fetches byte ranges from the stream endpoint as it plays and
+  // seeks, so nothing is downloaded up front, chunked or not
   async function loadMedia(mediaFile: MediaFile) {
     setIsLoadingMedia(true);
-    setLoadingProgress(0);
-    cleanupBlobUrl();
 
     try {
-      if (mediaFile.is_chunked && mediaFile.total_chunks) {
-        // Chunked file - fetch and concatenate chunks
-        const chunkUrls = await mediaService.getChunkedMediaUrls(mediaFile);
-        const chunks: Blob[] = [];
-
-        for (let i = 0; i < chunkUrls.length; i++) {
-          const response = await fetch(chunkUrls[i]);
-          if (!response.ok) {
-            throw new Error(`Failed to fetch chunk ${i}`);
-          }
-          const blob = await response.blob();
-          chunks.push(blob);
-          setLoadingProgress(Math.round(((i + 1) / chunkUrls.length) * 100));
-        }
-
-        // Concatenate all chunks into a single Blob
-        const mergedBlob = new Blob(chunks, { type: mediaFile.file_type });
-        const blobUrl = URL.createObjectURL(mergedBlob);
-        blobUrlRef.current = blobUrl;
-        setMediaUrl(blobUrl);
-      } else {
-        // Regular file - use direct URL
-        const url = mediaService.getMediaUrl(mediaFile.storage_path);
-        setMediaUrl(url);
-      }
+      setMediaUrl(await mediaService.getStreamUrl(mediaFile.id));
     } catch (error) {
       console.error("Failed to load media", error);
       setMediaUrl(null);
     } finally {
       setIsLoadingMedia(false);
-      setLoadingProgress(0);
     }
   }
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = Math.floor(seconds % 60);
-    return `${mins}:${secs.toString().padStart(2, "0")}`;
-  };
-
-  const handlePlayPause = () => {
-    if (!mediaRef.current) return;
-    if (isPlaying) {
-      mediaRef.current.pause();
-    } else {
-      mediaRef.current.play();
-    }
-    setIsPlaying(!isPlaying);
-  };
+  // A range request made after the URL expired fails; sign a new one and
+  // carry on from the same spot
+  const handleMediaError = async (event: React.SyntheticEvent<HTMLMediaElement>) => {
+    if (!media || !mediaUrl || !streamUrlExpired(mediaUrl)) return;
 
-  const handleTimeUpdate = () => {
-    if (mediaRef.current) {
-      setCurrentTime(mediaRef.current.currentTime);
+    resumeAt.current = event.currentTarget.currentTime;
+    try {
+      setMediaUrl(await mediaService.getStreamUrl(media.id));
+    } catch (error) {
+      console.error("Failed to refresh media URL", error);
+      resumeAt.current = null;
     }
   };
 
   const handleLoadedMetadata = () => {
-    if (mediaRef.current) {
-      setDuration(mediaRef.current.duration);
-    }
+    if (resumeAt.current === null) return;
+    playback.seek(resumeAt.current);
+    resumeAt.current = null;
   };
 
-  const jumpToTime = (seconds: number) => {
-    if (mediaRef.current) {
-      mediaRef.current.currentTime = seconds;
-      setCurrentTime(seconds);
+  // Linked annotations start playback from the moment they were linked to
+  const playAnnotation = (annotation: Annotation) => {
+    if (annotation.media_timestamp !== null) {
+      playback.seek(annotation.media_timestamp, { play: true });
     }
   };
 
@@ -136,27 +175,31 @@ export function MediaPanel({ media, projectId }: MediaPanelProps) {
         {isLoadingMedia ? (
           <div className="aspect-video bg-slate-800 rounded-lg flex flex-col items-center justify-center gap-3">
             <Loader2 className="w-12 h-12 text-indigo-400 animate-spin" />
-            <div className="text-white text-sm">
-              Loading chunks... {loadingProgress}%
-            </div>
-            <div className="w-48 h-1 bg-slate-700 rounded-full overflow-hidden">
-              <div
-                className="h-full bg-indigo-500 transition-all duration-300"
-                style={{ width: `${loadingProgress}%` }}
-              />
-            </div>
           </div>
         ) : mediaUrl ? (
           <>
             {isVideo ? (
-              <video
-                ref={mediaRef as React.RefObject<HTMLVideoElement>}
-                src={mediaUrl}
-                className="w-full rounded-lg"
-                onTimeUpdate={handleTimeUpdate}
-                onLoadedMetadata={handleLoadedMetadata}
-                controls
-              />
+              <>
+                <video
+                  ref={playback.registerElement}
+                  src={mediaUrl}
+                  onError={handleMediaError}
+                  onLoadedMetadata={handleLoadedMetadata}
+                  className="w-full rounded-lg"
+                  controls
+                >
+                  {captionsUrl && (
+                    <track key={captionsUrl} kind="captions" label="Transcript" src={captionsUrl} default />
+                  )}
+                </video>
+                <div className="mt-2">
+                  <AnnotationMarkers
+                    annotations={playback.linkedAnnotations}
+                    duration={duration}
+                    onSelect={playAnnotation}
+                  />
+                </div>
+              </>
             ) : (
               <div className="aspect-video bg-gradient-to-br from-indigo-500 to-purple-600 rounded-lg flex items-center justify-center">
                 <Volume2 className="w-16 h-16 text-white opacity-50" />
@@ -165,9 +208,9 @@ export function MediaPanel({ media, projectId }: MediaPanelProps) {
 
             {!isVideo && (
               <audio
-                ref={mediaRef as React.RefObject<HTMLAudioElement>}
+                ref={playback.registerElement}
                 src={mediaUrl}
-                onTimeUpdate={handleTimeUpdate}
+                onError={handleMediaError}
                 onLoadedMetadata={handleLoadedMetadata}
                 className="hidden"
               />
@@ -180,7 +223,7 @@ export function MediaPanel({ media, projectId }: MediaPanelProps) {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={handlePlayPause}
+                    onClick={playback.togglePlay}
                     className="text-white hover:bg-white/10"
                   >
                     {isPlaying ? (
@@ -190,12 +233,17 @@ export function MediaPanel({ media, projectId }: MediaPanelProps) {
                     )}
                   </Button>
                   <div className="flex-1">
+                    <AnnotationMarkers
+                      annotations={playback.linkedAnnotations}
+                      duration={duration}
+                      onSelect={playAnnotation}
+                    />
                     <input
                       type="range"
                       min={0}
                       max={duration || 100}
                       value={currentTime}
-                      onChange={(e) => jumpToTime(Number(e.target.value))}
+                      onChange={(e) => playback.seek(Number(e.target.value))}
                       className="w-full h-1 bg-white/20 rounded-lg appearance-none cursor-pointer"
                     />
                   </div>
@@ -234,9 +282,8 @@ export function MediaPanel({ media, projectId }: MediaPanelProps) {
           {media ? (
             <TranscriptView 
               mediaFileId={media.id}
+              mediaName={media.name}
               projectId={projectId}
-              currentTime={currentTime}
-              onSeek={jumpToTime}
             />
           ) : (
             <div className="flex items-center justify-center h-full text-muted-foreground p-8 text-center">
@@ -247,10 +294,28 @@ export function MediaPanel({ media, projectId }: MediaPanelProps) {
 
         <TabsContent value="notes" className="flex-1 mt-0">
           <ScrollArea className="h-full">
-            <div className="p-4">
-              <p className="text-sm text-slate-400 text-center py-8">
-                Linked annotations will appear here
-              </p>
+            <div className="p-4 space-y-2">
+              {playback.linkedAnnotations.length === 0 ? (
+                <p className="text-sm text-slate-400 text-center py-8">
+                  Linked annotations will appear here
+                </p>
+              ) : (
+                playback.linkedAnnotations.map((annotation) => (
+                  <button
+                    key={annotation.id}
+                    type="button"
+                    className="w-full flex items-start gap-3 p-2 rounded-lg border border-slate-200 text-left hover:bg-slate-50"
+                    onClick={() => playAnnotation(annotation)}
+                  >
+                    <span className="text-xs font-mono text-primary mt-0.5">
+                      {formatTime(annotation.media_timestamp ?? 0)}
+                    </span>
+                    <span className="flex-1 text-sm text-slate-700 line-clamp-2">
+                      {describeAnnotation(annotation)}
+                    </span>
+                  </button>
+                ))
+              )}
             </div>
           </ScrollArea>
         </TabsContent>
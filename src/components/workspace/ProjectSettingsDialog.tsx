@@ -0,0 +1,267 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Plus, Sparkles } from "lucide-react";
+import { normalizeGlossary } from "@/lib/media/glossary";
+import { TRANSLATION_LANGUAGES } from "@/lib/media/languages";
+import type { ProjectTranscriptionProvider } from "@/lib/media/transcriber";
+import { projectService } from "@/services/projectService";
+import { useToast } from "@/hooks/use-toast";
+
+const DEFAULT = "default";
+
+const PROVIDER_OPTIONS: { value: ProjectTranscriptionProvider; label: string }[] = [
+  { value: "openai", label: "OpenAI" },
+  { value: "local", label: "Local (whisper.cpp)" },
+];
+
+// Same rule as the project_settings.transcription_model check
+const MODEL_PATTERN = /^[A-Za-z0-9._-]*$/;
+
+interface ProjectSettingsDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Transcription settings of a project: engine, model, spoken language and
+ * the glossary of terms the engine is prompted with. They apply to media
+ * transcribed from then on.
+ */
+export function ProjectSettingsDialog({ projectId, open, onOpenChange }: ProjectSettingsDialogProps) {
+  const [provider, setProvider] = useState(DEFAULT);
+  const [model, setModel] = useState("");
+  const [language, setLanguage] = useState(DEFAULT);
+  const [glossaryText, setGlossaryText] = useState("");
+  const [suggestions, setSuggestions] = useState<string[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  // Saving is blocked after a failed load, as it would overwrite the
+  // settings with the blank form
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Bumped to try loading again
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadFailed(false);
+    setSuggestions(null);
+    projectService
+      .getSettings(projectId)
+      .then((settings) => {
+        if (cancelled) return;
+        setProvider(settings?.transcription_provider ?? DEFAULT);
+        setModel(settings?.transcription_model ?? "");
+        setLanguage(settings?.transcription_language ?? DEFAULT);
+        setGlossaryText((settings?.glossary ?? []).join("\n"));
+      })
+      .catch((error) => {
+        console.error("Error loading project settings:", error);
+        if (!cancelled) setLoadFailed(true);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, projectId, loadAttempt]);
+
+  const glossary = normalizeGlossary(glossaryText.split("\n"));
+  const isModelValid = MODEL_PATTERN.test(model.trim());
+  const pending = (suggestions || []).filter(
+    (term) => !glossary.some((existing) => existing.toLowerCase() === term.toLowerCase())
+  );
+
+  const addTerms = (terms: string[]) => {
+    setGlossaryText([...glossary, ...terms].join("\n"));
+  };
+
+  const handleSuggest = async () => {
+    try {
+      setIsSuggesting(true);
+      setSuggestions(await projectService.suggestGlossaryTerms(projectId));
+    } catch (error) {
+      console.error("Error suggesting glossary terms:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to suggest terms from your documents.",
+      });
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await projectService.updateSettings(projectId, {
+        transcription_provider: provider === DEFAULT ? null : provider,
+        transcription_model: model.trim() || null,
+        transcription_language: language === DEFAULT ? null : language,
+        glossary,
+      });
+      toast({
+        title: "Settings saved",
+        description: "New transcriptions in this project will use them.",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving project settings:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to save project settings.",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Transcription settings</DialogTitle>
+          <DialogDescription>
+            Applied to every recording transcribed in this project. Existing transcripts keep their text until they are transcribed again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : loadFailed ? (
+          <div className="flex flex-col items-center gap-3 py-12 text-center">
+            <p className="text-sm text-destructive">Failed to load this project's settings.</p>
+            <Button variant="outline" size="sm" onClick={() => setLoadAttempt((attempt) => attempt + 1)}>
+              Try again
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Engine</Label>
+                <Select value={provider} onValueChange={setProvider}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT}>Server default</SelectItem>
+                    {PROVIDER_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transcription-model">Model</Label>
+                <Input
+                  id="transcription-model"
+                  value={model}
+                  placeholder="Engine default"
+                  onChange={(e) => setModel(e.target.value)}
+                />
+                {!isModelValid && (
+                  <p className="text-xs text-destructive">Use letters, digits, dots, dashes and underscores only.</p>
+                )}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={language} onValueChange={setLanguage}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-80">
+                  <SelectItem value={DEFAULT}>Detect automatically</SelectItem>
+                  {TRANSLATION_LANGUAGES.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="glossary">Glossary</Label>
+                <Button variant="ghost" size="sm" onClick={handleSuggest} disabled={isSuggesting}>
+                  {isSuggesting ? <Loader2 className="mr-1 h-3 w-3 animate-spin" /> : <Sparkles className="mr-1 h-3 w-3" />}
+                  Suggest from documents
+                </Button>
+              </div>
+              <Textarea
+                id="glossary"
+                rows={6}
+                value={glossaryText}
+                placeholder={"One term per line, e.g.\nacetylcholinesterase\nMichaelis-Menten"}
+                onChange={(e) => setGlossaryText(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Names and terms the engine should spell as written. {glossary.length} term{glossary.length === 1 ? "" : "s"}.
+              </p>
+
+              {suggestions && (
+                pending.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No new terms found in this project's documents.</p>
+                ) : (
+                  <div className="space-y-2 rounded-md border p-2">
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">Click a term to add it</span>
+                      <Button variant="ghost" size="sm" onClick={() => addTerms(pending)}>
+                        Add all
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {pending.map((term) => (
+                        <Badge
+                          key={term}
+                          variant="secondary"
+                          className="cursor-pointer"
+                          onClick={() => addTerms([term])}
+                        >
+                          <Plus className="mr-1 h-3 w-3" />
+                          {term}
+                        </Badge>
+                      ))}
+                    </div>
+                  </div>
+                )
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || loadFailed || isSaving || !isModelValid}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,254 @@
+import { useEffect, useState } from "react";
+import { FileText, Loader2, MessageSquare, Video } from "lucide-react";
+import { aiService, type SearchFilters, type SearchHit } from "@/services/aiService";
+import { HighlightedText } from "@/components/workspace/HighlightedText";
+import type { Folder } from "@/services/projectService";
+import { transcriptService } from "@/services/transcriptService";
+import type { EmbeddingContentType } from "@/lib/ai/types";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+  folders?: Folder[];
+  onSelect: (hit: SearchHit) => void;
+}
+
+const CONTENT_TYPE_LABELS: Record<EmbeddingContentType, string> = {
+  document: "Documents",
+  transcript: "Transcripts",
+  annotation: "Notes",
+};
+
+const DATE_RANGES: Record<string, number | null> = {
+  any: null,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, "0")}`;
+};
+
+function HitIcon({ type }: { type: EmbeddingContentType }) {
+  if (type === "transcript") return <Video />;
+  if (type === "annotation") return <MessageSquare />;
+  return <FileText />;
+}
+
+export function SearchPalette({ open, onOpenChange, projectId, folders = [], onSelect }: SearchPaletteProps) {
+  const [query, setQuery] = useState("");
+  const [contentTypes, setContentTypes] = useState<EmbeddingContentType[]>([]);
+  const [folderId, setFolderId] = useState<string>("all");
+  const [dateRange, setDateRange] = useState<string>("any");
+  const [speaker, setSpeaker] = useState<string>("any");
+  const [speakers, setSpeakers] = useState<string[]>([]);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Ctrl/Cmd+K toggles the palette
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [open, onOpenChange]);
+
+  // Speakers named across the project's transcripts, for the speaker filter
+  useEffect(() => {
+    if (!open) return;
+    transcriptService
+      .getProjectSpeakers(projectId)
+      .then(setSpeakers)
+      .catch((error) => console.error("Failed to load speakers:", error));
+  }, [open, projectId]);
+
+  // Debounced search whenever the query or filters change
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      return;
+    }
+
+    const days = DATE_RANGES[dateRange];
+    const filters: SearchFilters = {
+      contentTypes: contentTypes.length > 0 ? contentTypes : undefined,
+      folderId: folderId !== "all" ? folderId : undefined,
+      createdAfter: days ? new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString() : undefined,
+      speaker: speaker !== "any" ? speaker : undefined,
+    };
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const results = await aiService.hybridSearch(projectId, query, filters);
+        if (!cancelled) setHits(results);
+      } catch (error) {
+        console.error("Search failed:", error);
+        if (!cancelled) setHits([]);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, contentTypes, folderId, dateRange, speaker, projectId]);
+
+  const handleSelect = (hit: SearchHit) => {
+    onOpenChange(false);
+    onSelect(hit);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="overflow-hidden p-0 max-w-2xl">
+        <DialogTitle className="sr-only">Search project</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+        >
+          <CommandInput
+            placeholder="Search documents, transcripts and notes..."
+            value={query}
+            onValueChange={setQuery}
+          />
+
+          <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              value={contentTypes}
+              onValueChange={(value) => setContentTypes(value as EmbeddingContentType[])}
+            >
+              {(Object.keys(CONTENT_TYPE_LABELS) as EmbeddingContentType[]).map((type) => (
+                <ToggleGroupItem key={type} value={type} className="text-xs">
+                  {CONTENT_TYPE_LABELS[type]}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+
+            {folders.length > 0 && (
+              <Select value={folderId} onValueChange={setFolderId}>
+                <SelectTrigger className="h-8 w-40 text-xs">
+                  <SelectValue placeholder="All folders" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All folders</SelectItem>
+                  {folders.map((folder) => (
+                    <SelectItem key={folder.id} value={folder.id}>
+                      {folder.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <Select value={dateRange} onValueChange={setDateRange}>
+              <SelectTrigger className="h-8 w-36 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any time</SelectItem>
+                <SelectItem value="week">Past week</SelectItem>
+                <SelectItem value="month">Past month</SelectItem>
+                <SelectItem value="year">Past year</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {speakers.length > 0 && (
+              <Select value={speaker} onValueChange={setSpeaker}>
+                <SelectTrigger className="h-8 w-40 text-xs">
+                  <SelectValue placeholder="Any speaker" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any speaker</SelectItem>
+                  {speakers.map((name) => (
+                    <SelectItem key={name} value={name}>
+                      {name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <CommandList className="max-h-[400px]">
+            {isSearching && (
+              <div className="flex items-center justify-center py-6 text-sm text-muted-foreground">
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Searching...
+              </div>
+            )}
+
+            {!isSearching && query.trim() && (
+              <CommandEmpty>No results found.</CommandEmpty>
+            )}
+
+            {!isSearching && hits.length > 0 && (
+              <CommandGroup heading="Results">
+                {hits.map((hit) => (
+                  <CommandItem
+                    key={hit.id}
+                    value={hit.id}
+                    onSelect={() => handleSelect(hit)}
+                    className="items-start"
+                  >
+                    <HitIcon type={hit.content_type} />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-medium text-foreground truncate">
+                          {hit.name || CONTENT_TYPE_LABELS[hit.content_type]}
+                        </span>
+                        {hit.page_number && <span>Page {hit.page_number}</span>}
+                        {hit.paragraph_index !== undefined && <span>Paragraph {hit.paragraph_index + 1}</span>}
+                        {hit.media_timestamp !== undefined && (
+                          <span>{formatTime(hit.media_timestamp)}</span>
+                        )}
+                        {hit.speakers && hit.speakers.length > 0 && (
+                          <span className="truncate">{hit.speakers.join(", ")}</span>
+                        )}
+                      </div>
+                      <HighlightedText
+                        text={hit.snippet}
+                        matches={hit.matches}
+                        className="block text-sm mt-1 line-clamp-2"
+                      />
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { aiService, type SummaryResult } from "@/services/aiService";
+import type { Document } from "@/services/documentService";
+import type { MediaFile } from "@/services/mediaService";
+import { useToast } from "@/hooks/use-toast";
+
+interface SummaryPanelProps {
+  project: { id: string; name: string; ai_summary: string | null };
+  document: Document | null;
+  media: MediaFile | null;
+}
+
+interface SummarySectionProps {
+  title: string;
+  // Cached summary from the loaded row, if any
+  initialSummary: string | null;
+  emptyMessage: string;
+  generate: (force: boolean) => Promise<SummaryResult>;
+}
+
+function SummarySection({ title, initialSummary, emptyMessage, generate }: SummarySectionProps) {
+  const [summary, setSummary] = useState<string | null>(initialSummary);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [unavailable, setUnavailable] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setSummary(initialSummary);
+    setUnavailable(false);
+  }, [initialSummary]);
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      const result = await generate(!!summary);
+      setSummary(result.summary);
+      setUnavailable(result.summary === null);
+    } catch (error) {
+      console.error("Error generating summary:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to generate summary. Please try again.",
+      });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-slate-200 bg-white p-3">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-slate-900 truncate">{title}</h3>
+        <Button variant="ghost" size="sm" onClick={handleGenerate} disabled={isGenerating}>
+          {isGenerating ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : summary ? (
+            <RefreshCw className="w-4 h-4" />
+          ) : (
+            <Sparkles className="w-4 h-4" />
+          )}
+          <span className="ml-1 text-xs">{summary ? "Regenerate" : "Summarize"}</span>
+        </Button>
+      </div>
+
+      {summary ? (
+        <p className="mt-2 text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">{summary}</p>
+      ) : (
+        <p className="mt-2 text-xs text-slate-500">
+          {unavailable ? emptyMessage : "No summary yet."}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function SummaryPanel({ project, document, media }: SummaryPanelProps) {
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-3 space-y-3">
+        <SummarySection
+          title={`Project: ${project.name}`}
+          initialSummary={project.ai_summary}
+          emptyMessage="Upload documents or transcribe media to build a project overview."
+          generate={(force) => aiService.summarizeProject(project.id, force)}
+        />
+
+        {document && (
+          <SummarySection
+            key={document.id}
+            title={document.name}
+            initialSummary={document.ai_summary}
+            emptyMessage="This document has no extracted text yet."
+            generate={(force) => aiService.summarizeDocument(document.id, force)}
+          />
+        )}
+
+        {media && (
+          <SummarySection
+            key={media.id}
+            title={media.name}
+            initialSummary={media.ai_summary}
+            emptyMessage="Transcribe this recording to summarise it."
+            generate={(force) => aiService.summarizeMedia(media.id, force)}
+          />
+        )}
+      </div>
+    </ScrollArea>
+  );
+}
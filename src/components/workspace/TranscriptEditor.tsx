@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Merge, PlayCircle, Replace, Scissors } from "lucide-react";
+import { speakerName, type SpeakerNames } from "@/lib/media/speakers";
+import { diffSegments } from "@/lib/media/transcriptDiff";
+import {
+  countOccurrences,
+  mergeWithNext,
+  replaceAll,
+  setSegmentBounds,
+  setSegmentText,
+  splitSegment,
+} from "@/lib/media/transcriptEdits";
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+interface TranscriptEditorProps {
+  segments: TranscriptSegment[];
+  speakerNames: SpeakerNames;
+  onSeek: (time: number) => void;
+  onSave: (segments: TranscriptSegment[], summary: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Describes a set of edits for the revision history
+const describeChanges = (before: TranscriptSegment[], after: TranscriptSegment[]): string => {
+  const changes = diffSegments(before, after).filter(diff => diff.type !== "same").length;
+  return changes === 1 ? "Edited 1 segment" : `Edited ${changes} segments`;
+};
+
+interface TimeInputProps {
+  label: string;
+  value: number;
+  onCommit: (time: number) => void;
+}
+
+// Seconds field that applies its value on blur or Enter, so partly typed
+// numbers aren't reformatted mid-edit
+function TimeInput({ label, value, onCommit }: TimeInputProps) {
+  const [text, setText] = useState(String(value));
+
+  useEffect(() => setText(String(value)), [value]);
+
+  const commit = () => {
+    const time = Number(text);
+    if (text.trim() && Number.isFinite(time) && time >= 0) {
+      onCommit(Math.round(time * 100) / 100);
+    } else {
+      setText(String(value));
+    }
+  };
+
+  return (
+    <Input
+      type="number"
+      step="0.1"
+      min={0}
+      className="h-8 w-24 font-mono text-xs"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") commit();
+      }}
+      aria-label={label}
+    />
+  );
+}
+
+/**
+ * Edit mode for a transcript: segment text and boundaries, split and
+ * merge, and find and replace. Nothing is stored until the draft is saved.
+ */
+export function TranscriptEditor({ segments, speakerNames, onSeek, onSave, onCancel }: TranscriptEditorProps) {
+  const [draft, setDraft] = useState<TranscriptSegment[]>(segments);
+  const [find, setFind] = useState("");
+  const [replacement, setReplacement] = useState("");
+  const [matchCase, setMatchCase] = useState(false);
+  const [wholeWord, setWholeWord] = useState(false);
+  const [summary, setSummary] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  // Caret position in each segment's textarea, for splitting
+  const carets = useRef<Record<number, number>>({});
+
+  const isDirty = diffSegments(segments, draft).some(diff => diff.type !== "same");
+  const occurrences = countOccurrences(draft, find, { matchCase, wholeWord });
+
+  const updateSegment = (index: number, update: (segment: TranscriptSegment) => TranscriptSegment) => {
+    setDraft(prev => prev.map((segment, i) => (i === index ? update(segment) : segment)));
+  };
+
+  const handleBoundsChange = (index: number, field: "start" | "end", time: number) => {
+    updateSegment(index, segment =>
+      field === "start"
+        ? setSegmentBounds(segment, time, Math.max(time, segment.end))
+        : setSegmentBounds(segment, Math.min(segment.start, time), time)
+    );
+  };
+
+  const handleSplit = (index: number) => {
+    const offset = carets.current[index] ?? 0;
+    setDraft(prev => splitSegment(prev, index, offset));
+    carets.current = {};
+  };
+
+  const handleMerge = (index: number) => {
+    setDraft(prev => mergeWithNext(prev, index));
+    carets.current = {};
+  };
+
+  const handleReplaceAll = () => {
+    setDraft(prev => replaceAll(prev, find, replacement, { matchCase, wholeWord }).segments);
+  };
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      await onSave(draft, summary.trim() || describeChanges(segments, draft));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-background">
+      <div className="p-4 border-b space-y-3">
+        <div className="flex gap-2">
+          <Input placeholder="Find" value={find} onChange={(e) => setFind(e.target.value)} />
+          <Input placeholder="Replace with" value={replacement} onChange={(e) => setReplacement(e.target.value)} />
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <div className="flex items-center gap-2">
+            <Checkbox id="match-case" checked={matchCase} onCheckedChange={(checked) => setMatchCase(checked === true)} />
+            <Label htmlFor="match-case">Match case</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="whole-word" checked={wholeWord} onCheckedChange={(checked) => setWholeWord(checked === true)} />
+            <Label htmlFor="whole-word">Whole word</Label>
+          </div>
+          <span className="ml-auto text-xs text-muted-foreground">
+            {find ? `${occurrences} ${occurrences === 1 ? "match" : "matches"}` : ""}
+          </span>
+          <Button variant="outline" size="sm" onClick={handleReplaceAll} disabled={occurrences === 0}>
+            <Replace className="mr-2 h-4 w-4" />
+            Replace all
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 p-4">
+        <div className="space-y-4">
+          {draft.map((segment, index) => (
+            <div key={index} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <TimeInput label="Start (seconds)" value={segment.start} onCommit={(time) => handleBoundsChange(index, "start", time)} />
+                <span className="text-muted-foreground">-</span>
+                <TimeInput label="End (seconds)" value={segment.end} onCommit={(time) => handleBoundsChange(index, "end", time)} />
+                {segment.speaker && (
+                  <span className="text-xs font-semibold text-muted-foreground">
+                    {speakerName(speakerNames, segment.speaker)}
+                  </span>
+                )}
+                <div className="ml-auto flex gap-1">
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Play from here" onClick={() => onSeek(segment.start)}>
+                    <PlayCircle className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" title="Split at cursor" onClick={() => handleSplit(index)}>
+                    <Scissors className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    title="Merge with next segment"
+                    onClick={() => handleMerge(index)}
+                    disabled={index === draft.length - 1}
+                  >
+                    <Merge className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <Textarea
+                value={segment.text}
+                rows={2}
+                className="text-sm"
+                onChange={(e) => updateSegment(index, current => setSegmentText(current, e.target.value))}
+                onSelect={(e) => {
+                  carets.current[index] = e.currentTarget.selectionStart;
+                }}
+              />
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+
+      <div className="p-4 border-t flex items-center gap-2">
+        <Input
+          placeholder={isDirty ? describeChanges(segments, draft) : "Describe your changes"}
+          value={summary}
+          onChange={(e) => setSummary(e.target.value)}
+        />
+        <Button variant="outline" onClick={onCancel} disabled={isSaving}>
+          Discard
+        </Button>
+        <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, RotateCcw } from "lucide-react";
+import { diffSegments, type SegmentDiff } from "@/lib/media/transcriptDiff";
+import { formatTimestamp } from "@/lib/media/words";
+import { transcriptService, type Transcript, type TranscriptRevision, type TranscriptSegment } from "@/services/transcriptService";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+
+interface TranscriptRevisionsProps {
+  transcript: Transcript;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onRestored: (transcript: Transcript) => void;
+}
+
+function DiffRow({ diff }: { diff: SegmentDiff }) {
+  const segment = diff.type === "removed" ? diff.before : diff.after;
+  return (
+    <div
+      className={cn(
+        "flex gap-3 rounded-md p-2 text-sm",
+        diff.type === "added" && "bg-green-500/10",
+        diff.type === "removed" && "bg-red-500/10"
+      )}
+    >
+      <span className="shrink-0 font-mono text-xs text-muted-foreground mt-0.5">
+        {formatTimestamp(segment.start)}
+      </span>
+      <p className="leading-relaxed">
+        {diff.type === "changed"
+          ? diff.parts.map((part, i) => (
+              <span
+                key={i}
+                className={cn(
+                  part.type === "added" && "bg-green-500/20",
+                  part.type === "removed" && "bg-red-500/20 line-through"
+                )}
+              >
+                {part.text}
+              </span>
+            ))
+          : <span className={cn(diff.type === "removed" && "line-through")}>{segment.text}</span>}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Revision history of a transcript. Each revision is shown as a diff
+ * against the current transcript and can be restored.
+ */
+export function TranscriptRevisions({ transcript, open, onOpenChange, onRestored }: TranscriptRevisionsProps) {
+  const [revisions, setRevisions] = useState<TranscriptRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    transcriptService
+      .getRevisions(transcript.id)
+      .then((data) => {
+        if (cancelled) return;
+        setRevisions(data);
+        setSelectedId(data[0]?.id ?? null);
+      })
+      .catch((error) => console.error("Error loading revisions:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, transcript.id, transcript.updated_at]);
+
+  const selected = revisions.find((revision) => revision.id === selectedId);
+  const current = (transcript.segments as unknown as TranscriptSegment[]) || [];
+  // What restoring the revision would change, read as current -> revision
+  const changes = selected
+    ? diffSegments(current, (selected.segments as unknown as TranscriptSegment[]) || []).filter((diff) => diff.type !== "same")
+    : [];
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      setIsRestoring(true);
+      const { transcript: restored } = await transcriptService.restoreRevision(transcript.id, selected.id);
+      onRestored(restored);
+      toast({
+        title: "Revision restored",
+        description: `The transcript is back to revision ${selected.revision_number}.`,
+      });
+    } catch (error) {
+      console.error("Error restoring revision:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to restore revision.",
+      });
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>Transcript history</DialogTitle>
+          <DialogDescription>Compare earlier revisions with the current transcript and restore them.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">No revisions yet. Saving an edit starts the history.</p>
+        ) : (
+          <div className="grid grid-cols-[14rem_1fr] gap-4">
+            <ScrollArea className="h-[60vh] pr-2">
+              <div className="space-y-1">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    type="button"
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm hover:bg-muted",
+                      revision.id === selectedId && "bg-muted"
+                    )}
+                    onClick={() => setSelectedId(revision.id)}
+                  >
+                    <p className="font-medium">Revision {revision.revision_number}</p>
+                    <p className="truncate text-xs text-muted-foreground">{revision.summary || "No description"}</p>
+                    {revision.created_at && (
+                      <p className="text-xs text-muted-foreground">{new Date(revision.created_at).toLocaleString()}</p>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+
+            <div className="flex flex-col gap-3 min-w-0">
+              <ScrollArea className="h-[calc(60vh-3rem)]">
+                {changes.length > 0 ? (
+                  <div className="space-y-1">
+                    {changes.map((diff, i) => <DiffRow key={i} diff={diff} />)}
+                  </div>
+                ) : (
+                  <p className="py-12 text-center text-sm text-muted-foreground">Same as the current transcript.</p>
+                )}
+              </ScrollArea>
+              <div className="flex justify-end">
+                <Button onClick={handleRestore} disabled={!selected || changes.length === 0 || isRestoring}>
+                  {isRestoring ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+                  Restore revision {selected?.revision_number}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { HighlightedText } from "@/components/workspace/HighlightedText";
+import { usePlaybackState } from "@/contexts/MediaPlaybackContext";
+import { sliceMatches } from "@/lib/ai/textMatch";
+import type { TextMatch } from "@/lib/ai/types";
+import { locateWords, wordAt } from "@/lib/media/words";
+import type { TranscriptSegment } from "@/services/transcriptService";
+import { cn } from "@/lib/utils";
+
+interface TranscriptSegmentTextProps {
+  segment: TranscriptSegment;
+  segmentIndex: number;
+  matches?: TextMatch[];
+  // Follow the playhead word by word; only the active segment should
+  live?: boolean;
+  onSeek: (time: number) => void;
+}
+
+interface WordsProps extends Omit<TranscriptSegmentTextProps, "live"> {
+  currentWord: number;
+}
+
+// Clicks that end a text selection shouldn't seek
+const isSelecting = () => window.getSelection()?.isCollapsed === false;
+
+function Words({ segment, segmentIndex, matches = [], currentWord, onSeek }: WordsProps) {
+  const words = segment.words || [];
+  const ranges = locateWords(segment.text, words);
+  const parts: JSX.Element[] = [];
+  let cursor = 0;
+
+  // Text between words (spaces, punctuation) is rendered as-is
+  const gap = (end: number) => {
+    if (end > cursor) {
+      parts.push(
+        <HighlightedText key={`g${cursor}`} text={segment.text.slice(cursor, end)} matches={sliceMatches(matches, cursor, end)} />
+      );
+    }
+  };
+
+  ranges.forEach((range, i) => {
+    if (!range) return;
+    gap(range.start);
+    parts.push(
+      <span
+        key={`w${i}`}
+        data-segment={segmentIndex}
+        data-word={i}
+        className={cn(
+          "rounded-sm transition-colors hover:bg-muted",
+          i === currentWord && "bg-primary/20 text-primary"
+        )}
+        onClick={(e) => {
+          if (isSelecting()) return;
+          e.stopPropagation();
+          onSeek(words[i].start);
+        }}
+      >
+        <HighlightedText text={segment.text.slice(range.start, range.end)} matches={sliceMatches(matches, range.start, range.end)} />
+      </span>
+    );
+    cursor = range.end;
+  });
+  gap(segment.text.length);
+
+  return <>{parts}</>;
+}
+
+function LiveWords(props: Omit<WordsProps, "currentWord">) {
+  const { currentTime } = usePlaybackState({ precise: true });
+  return <Words {...props} currentWord={wordAt(props.segment.words || [], currentTime)} />;
+}
+
+/**
+ * A transcript segment's text. Segments with word timings render each word
+ * clickable, and the live segment highlights the word being spoken.
+ */
+export function TranscriptSegmentText({ live = false, ...props }: TranscriptSegmentTextProps) {
+  if (!props.segment.words?.length) {
+    return <HighlightedText text={props.segment.text} matches={props.matches} />;
+  }
+  return live ? <LiveWords {...props} /> : <Words {...props} currentWord={-1} />;
+}
+
+export interface SelectedQuote {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * The quote and time range covered by the current text selection, if it
+ * spans timed words inside `container`
+ */
+export function selectedQuote(container: HTMLElement, segments: TranscriptSegment[]): SelectedQuote | null {
+  const selection = window.getSelection();
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!container.contains(range.commonAncestorContainer)) return null;
+
+  const selected = Array.from(container.querySelectorAll<HTMLElement>("[data-word]"))
+    .filter((el) => range.intersectsNode(el))
+    .map((el) => ({ segment: Number(el.dataset.segment), word: Number(el.dataset.word) }));
+  if (selected.length === 0) return null;
+
+  const first = selected[0];
+  const last = selected[selected.length - 1];
+  const startWord = segments[first.segment]?.words?.[first.word];
+  const endWord = segments[last.segment]?.words?.[last.word];
+  if (!startWord || !endWord) return null;
+
+  // Quote the segment text (which keeps punctuation) from the first
+  // selected word to the last
+  const text = selected
+    .map(({ segment }) => segment)
+    .filter((index, i, all) => all.indexOf(index) === i)
+    .map((index) => {
+      const segment = segments[index];
+      const ranges = locateWords(segment.text, segment.words || []);
+      const from = index === first.segment ? ranges[first.word]?.start ?? 0 : 0;
+      const to = index === last.segment ? ranges[last.word]?.end ?? segment.text.length : segment.text.length;
+      return segment.text.slice(from, to).trim();
+    })
+    .join(" ");
+
+  return {
+    text,
+    start: startWord.start,
+    end: endWord.end,
+  };
+}
@@ -1,45 +1,262 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, PlayCircle, Search, FileText } from "lucide-react";
+import { Loader2, PlayCircle, Search, FileText, Pencil, Quote, History, PenLine, Download, Upload } from "lucide-react";
 import { Input } from "@/components/ui/input";
-import { transcriptService, type Transcript, type TranscriptSegment } from "@/services/transcriptService";
+import { Progress } from "@/components/ui/progress";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { transcriptService, type Transcript, type TranscriptSegment, type TranscriptTranslation } from "@/services/transcriptService";
+import { aiService, type SegmentMatch } from "@/services/aiService";
+import { isJobFinished, jobService, type Job } from "@/services/jobService";
+import { selectedQuote, TranscriptSegmentText, type SelectedQuote } from "@/components/workspace/TranscriptSegmentText";
+import { TranscriptEditor } from "@/components/workspace/TranscriptEditor";
+import { TranscriptRevisions } from "@/components/workspace/TranscriptRevisions";
+import { TranslationControls } from "@/components/workspace/TranslationControls";
+import { findMatches } from "@/lib/ai/textMatch";
+import { listSpeakers, speakerName, type SpeakerNames } from "@/lib/media/speakers";
+import { TRANSCRIPT_EXPORT_FORMATS, type TranscriptExportFormat } from "@/lib/media/subtitles";
+import { formatQuote, formatTimestamp } from "@/lib/media/words";
+import { useMediaPlayback, usePlaybackState } from "@/contexts/MediaPlaybackContext";
+import { useRowChanges } from "@/hooks/use-realtime";
 import { useToast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
 
 interface TranscriptViewProps {
   mediaFileId: string;
+  mediaName: string;
   projectId: string;
-  currentTime: number;
-  onSeek: (time: number) => void;
 }
 
-export function TranscriptView({ mediaFileId, projectId, currentTime, onSeek }: TranscriptViewProps) {
+// Keep the first (best ranked) entry per segment
+const mergeSegmentMatches = (matches: SegmentMatch[]): SegmentMatch[] => {
+  const seen = new Set<number>();
+  return matches.filter(match => {
+    if (seen.has(match.segment_index)) return false;
+    seen.add(match.segment_index);
+    return true;
+  });
+};
+
+// Every segment containing the query, in transcript order
+const localSegmentMatches = (segments: TranscriptSegment[], query: string): SegmentMatch[] =>
+  segments
+    .map((seg, index) => ({ segment_index: index, matches: findMatches(seg.text, query) }))
+    .filter(match => match.matches.length > 0);
+
+// Shorter queries only get local matching; each ranked search embeds the query
+const MIN_RANKED_QUERY_LENGTH = 3;
+
+// Speaker colours, assigned in order of first appearance
+const SPEAKER_COLORS = ["#2563eb", "#db2777", "#16a34a", "#ea580c", "#7c3aed", "#0891b2", "#ca8a04", "#dc2626"];
+
+const speakerColor = (speakerIds: string[], id?: string) =>
+  id ? SPEAKER_COLORS[Math.max(0, speakerIds.indexOf(id)) % SPEAKER_COLORS.length] : undefined;
+
+interface SpeakerBarProps {
+  speakerIds: string[];
+  names: SpeakerNames;
+  selected: string | null;
+  onSelect: (id: string | null) => void;
+  onRename: (id: string, name: string) => Promise<void>;
+}
+
+// Speaker legend: click a speaker to show only their turns, or rename them
+function SpeakerBar({ speakerIds, names, selected, onSelect, onRename }: SpeakerBarProps) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+
+  const saveName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    await onRename(editing, draft);
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {speakerIds.map((id) => {
+        const color = speakerColor(speakerIds, id);
+        return (
+          <div
+            key={id}
+            className={cn(
+              "flex items-center rounded-full border text-xs transition-opacity",
+              selected && selected !== id && "opacity-50"
+            )}
+            style={{ borderColor: color }}
+          >
+            <button
+              type="button"
+              className="flex items-center gap-1.5 py-1 pl-2.5 pr-1"
+              onClick={() => onSelect(selected === id ? null : id)}
+              title={selected === id ? "Show all speakers" : "Show only this speaker"}
+            >
+              <span className="h-2 w-2 rounded-full" style={{ backgroundColor: color }} />
+              {speakerName(names, id)}
+            </button>
+            <Popover
+              open={editing === id}
+              onOpenChange={(open) => {
+                setEditing(open ? id : null);
+                setDraft(names[id] || "");
+              }}
+            >
+              <PopoverTrigger asChild>
+                <button type="button" className="py-1 pl-1 pr-2.5 text-muted-foreground hover:text-foreground" title="Rename speaker">
+                  <Pencil className="h-3 w-3" />
+                </button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64" align="start">
+                <form onSubmit={saveName} className="space-y-2">
+                  <Input
+                    autoFocus
+                    value={draft}
+                    placeholder={speakerName({}, id)}
+                    onChange={(e) => setDraft(e.target.value)}
+                  />
+                  <div className="flex justify-end">
+                    <Button type="submit" size="sm">Save</Button>
+                  </div>
+                </form>
+              </PopoverContent>
+            </Popover>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function TranscriptView({ mediaFileId, mediaName, projectId }: TranscriptViewProps) {
+  const { seek } = useMediaPlayback();
+  const { currentTime } = usePlaybackState();
   const [transcript, setTranscript] = useState<Transcript | null>(null);
+  // Latest transcription job for the transcript, for progress and retries
+  const [job, setJob] = useState<Job | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+  // Segments the hybrid search ranked for the current query, best first
+  const [rankedMatches, setRankedMatches] = useState<SegmentMatch[]>([]);
+  // Ranked results by query, so retyping a query doesn't search again
+  const rankedCache = useRef(new Map<string, SegmentMatch[]>());
+  // Speaker id to show turns for, null for everyone
+  const [speakerFilter, setSpeakerFilter] = useState<string | null>(null);
+  // Timed words currently selected in the transcript
+  const [quote, setQuote] = useState<SelectedQuote | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  // Latest revision when editing started; the save is checked against it
+  const [editBaseRevision, setEditBaseRevision] = useState(0);
+  const [showHistory, setShowHistory] = useState(false);
+  const [translations, setTranslations] = useState<TranscriptTranslation[]>([]);
+  const [translationJobs, setTranslationJobs] = useState<Record<string, Job>>({});
+  // Language of the translation being shown, null for the original
+  const [translationLanguage, setTranslationLanguage] = useState<string | null>(null);
+  const [sideBySide, setSideBySide] = useState(false);
+  const segmentsRef = useRef<HTMLDivElement>(null);
+  const captionsInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
+  const jobActive = !!job && !isJobFinished(job);
+
   useEffect(() => {
+    setSpeakerFilter(null);
+    setIsEditing(false);
+    setTranslationLanguage(null);
     loadTranscript();
-    
-    // Poll for status updates if processing
-    let pollInterval: NodeJS.Timeout;
-    
-    if (transcript?.status === "processing" || transcript?.status === "pending") {
-      pollInterval = setInterval(loadTranscript, 5000);
+  }, [mediaFileId]);
+
+  useEffect(() => {
+    setTranslations([]);
+    setTranslationJobs({});
+    loadTranslations();
+  }, [transcript?.id]);
+
+  // Status changes arrive over Realtime. Segments may be left out of large
+  // payloads, so the transcript is reloaded rather than taken from the event.
+  useRowChanges("transcripts", { column: "media_file_id", value: mediaFileId }, {
+    onInsert: () => loadTranscript(),
+    onUpdate: () => loadTranscript(),
+    onDelete: ({ id }) => setTranscript(prev => (prev?.id === id ? null : prev)),
+    onSubscribed: () => loadTranscript(),
+  });
+
+  // Job progress for the transcript, including retries queued elsewhere
+  useRowChanges("jobs", transcript ? { column: "target_id", value: transcript.id } : null, {
+    onInsert: (row) => {
+      if (row.type === "transcribe") setJob(row);
+      if (row.type === "translate") trackTranslationJob(row);
+    },
+    onUpdate: (row) => {
+      if (row.type === "translate") trackTranslationJob(row);
+      if (row.type !== "transcribe") return;
+      setJob(prev => (!prev || prev.id === row.id || isJobFinished(prev) ? row : prev));
+    },
+  });
+
+  // Translations are reloaded on change, like transcripts, as their
+  // segments may be left out of the event
+  useRowChanges("transcript_translations", transcript ? { column: "transcript_id", value: transcript.id } : null, {
+    onInsert: () => loadTranslations(),
+    onUpdate: () => loadTranslations(),
+    onDelete: ({ id }) => setTranslations(prev => prev.filter(translation => translation.id !== id)),
+    onSubscribed: () => loadTranslations(),
+  });
+
+  // Rank matches with hybrid search scoped to this transcript once typing
+  // pauses. Local matching covers every segment meanwhile, and on its own
+  // if the search fails.
+  useEffect(() => {
+    const query = searchQuery.trim();
+    setRankedMatches([]);
+    if (query.length < MIN_RANKED_QUERY_LENGTH || transcript?.status !== "completed") return;
+
+    const key = [transcript.id, transcript.updated_at, speakerFilter, query].join("|");
+    const cached = rankedCache.current.get(key);
+    if (cached) {
+      setRankedMatches(cached);
+      return;
     }
-    
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const hits = await aiService.hybridSearch(projectId, query, {
+          contentTypes: ["transcript"],
+          contentId: transcript.id,
+          speaker: speakerFilter ? speakerName(transcript.speakers as SpeakerNames, speakerFilter) : undefined,
+        });
+        const ranked = mergeSegmentMatches(hits.flatMap(hit => hit.segment_matches || []));
+        rankedCache.current.set(key, ranked);
+        if (!cancelled) setRankedMatches(ranked);
+      } catch (error) {
+        console.error("Ranked transcript search failed, showing local matches only:", error);
+      }
+    }, 500);
+
     return () => {
-      if (pollInterval) clearInterval(pollInterval);
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery, transcript?.id, transcript?.updated_at, transcript?.status, speakerFilter]);
+
+  useEffect(() => {
+    const onSelectionChange = () => {
+      const container = segmentsRef.current;
+      const segments = (transcript?.segments as unknown as TranscriptSegment[]) || [];
+      setQuote(container ? selectedQuote(container, segments) : null);
     };
-  }, [mediaFileId, transcript?.status]);
+    document.addEventListener("selectionchange", onSelectionChange);
+    return () => document.removeEventListener("selectionchange", onSelectionChange);
+  }, [transcript?.segments]);
 
   const loadTranscript = async () => {
     try {
       const data = await transcriptService.getTranscriptByMediaFile(mediaFileId);
       setTranscript(data);
+      setJob(data ? await jobService.getLatestJob(data.id, "transcribe") : null);
     } catch (error) {
       console.error("Error loading transcript:", error);
     } finally {
@@ -47,27 +264,30 @@ export function TranscriptView({ mediaFileId, projectId, currentTime, onSeek }:
     }
   };
 
+  const loadTranslations = async () => {
+    if (!transcript) return;
+    try {
+      setTranslations(await transcriptService.getTranslations(transcript.id));
+    } catch (error) {
+      console.error("Error loading translations:", error);
+    }
+  };
+
+  const trackTranslationJob = (row: Job) => {
+    const { language } = row.payload as { language?: string };
+    if (language) setTranslationJobs(prev => ({ ...prev, [language]: row }));
+  };
+
   const handleTranscribe = async () => {
     try {
       setIsTranscribing(true);
       
-      // Create initial transcript record
-      const newTranscript = await transcriptService.createTranscript(mediaFileId, projectId);
-      setTranscript(newTranscript);
-
-      // Call API to start transcription
-      const response = await fetch("/api/transcribe", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          mediaFileId,
-          transcriptId: newTranscript.id,
-        }),
-      });
+      // Create initial transcript record, or reuse the one that failed
+      const target = transcript ?? await transcriptService.createTranscript(mediaFileId, projectId);
+      setTranscript(target);
 
-      if (!response.ok) {
-        throw new Error("Failed to start transcription");
-      }
+      // The worker runs the job; progress arrives over Realtime
+      setJob(await aiService.transcribeMedia(target.id));
 
       toast({
         title: "Transcription started",
@@ -86,6 +306,136 @@ export function TranscriptView({ mediaFileId, projectId, currentTime, onSeek }:
     }
   };
 
+  // Existing captions stand in for transcription; a current transcript is
+  // replaced, and stays in the revision history
+  const handleImportCaptions = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setIsImporting(true);
+      const { transcript: imported, segmentCount } = await transcriptService.importSubtitles(mediaFileId, file);
+      setTranscript(imported);
+      setIsEditing(false);
+      toast({
+        title: "Captions imported",
+        description: `${segmentCount} captions from ${file.name}.`,
+      });
+    } catch (error) {
+      console.error("Error importing captions:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to import captions.",
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = (format: TranscriptExportFormat) => {
+    if (transcript) transcriptService.downloadTranscript(transcript, format, mediaName);
+  };
+
+  const handleTranslate = async (language: string) => {
+    if (!transcript) return;
+    try {
+      trackTranslationJob(await transcriptService.translate(transcript.id, language));
+      setTranslationLanguage(language);
+    } catch (error) {
+      console.error("Error starting translation:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to start translation.",
+      });
+    }
+  };
+
+  const handleRenameSpeaker = async (speakerId: string, name: string) => {
+    if (!transcript) return;
+    try {
+      setTranscript(await transcriptService.renameSpeaker(transcript.id, speakerId, name));
+    } catch (error) {
+      console.error("Error renaming speaker:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to rename speaker.",
+      });
+    }
+  };
+
+  const handleStartEditing = async () => {
+    if (!transcript) return;
+    try {
+      setEditBaseRevision(await transcriptService.getLatestRevisionNumber(transcript.id));
+      setIsEditing(true);
+    } catch (error) {
+      console.error("Error starting transcript edit:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to open the transcript for editing.",
+      });
+    }
+  };
+
+  const handleSaveEdits = async (edited: TranscriptSegment[], summary: string) => {
+    if (!transcript) return;
+    try {
+      const { transcript: saved } = await transcriptService.saveEdits(transcript.id, edited, editBaseRevision, summary);
+      setTranscript(saved);
+      setIsEditing(false);
+      toast({
+        title: "Transcript saved",
+        description: "Search will pick up the changes in a moment.",
+      });
+    } catch (error) {
+      console.error("Error saving transcript:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save transcript.",
+      });
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!job) return;
+    try {
+      setJob(await jobService.cancel(job.id));
+    } catch (error) {
+      console.error("Error cancelling transcription:", error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Failed to cancel transcription.",
+      });
+    }
+  };
+
+  // Copying selected words gives the quote with the time range it was said in
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (!quote) return;
+    e.preventDefault();
+    e.clipboardData.setData("text/plain", formatQuote(quote.text, quote.start, quote.end));
+  };
+
+  const handleCopyQuote = async () => {
+    if (!quote) return;
+    try {
+      await navigator.clipboard.writeText(formatQuote(quote.text, quote.start, quote.end));
+      toast({
+        title: "Quote copied",
+        description: `${formatTimestamp(quote.start)} - ${formatTimestamp(quote.end)}`,
+      });
+    } catch (error) {
+      console.error("Error copying quote:", error);
+    }
+  };
+
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
     const remainingSeconds = Math.floor(seconds % 60);
@@ -94,17 +444,41 @@ export function TranscriptView({ mediaFileId, projectId, currentTime, onSeek }:
 
   // Safe cast for segments
   const segments = (transcript?.segments as unknown as TranscriptSegment[]) || [];
-  
-  // Filter segments based on search
-  const filteredSegments = segments.filter(seg => 
-    seg.text.toLowerCase().includes(searchQuery.toLowerCase())
+  const speakerIds = listSpeakers(segments);
+  const speakerNames = (transcript?.speakers as SpeakerNames) || {};
+
+  // The selected translation's text for each segment, matched on timings
+  const translation = translations.find(item => item.language === translationLanguage && item.status === "completed");
+  const translatedText = new Map(
+    ((translation?.segments as unknown as TranscriptSegment[]) || []).map(item => [`${item.start}|${item.end}`, item.text])
   );
 
+  // While searching, show ranked matches first, then every other segment
+  // containing the query; otherwise all segments
+  const query = searchQuery.trim();
+  const searchMatches = query ? mergeSegmentMatches([...rankedMatches, ...localSegmentMatches(segments, query)]) : null;
+  const visibleSegments = (searchMatches
+    ? searchMatches
+        .filter(match => segments[match.segment_index])
+        .map(match => ({ index: match.segment_index, matches: match.matches }))
+    : segments.map((_, index) => ({ index, matches: [] as SegmentMatch["matches"] }))
+  ).filter(({ index }) => !speakerFilter || segments[index].speaker === speakerFilter);
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" && visibleSegments.length > 0 && searchMatches) {
+      seek(segments[visibleSegments[0].index].start);
+    }
+  };
+
   // Find active segment
   const activeSegmentIndex = segments.findIndex(
     (seg) => currentTime >= seg.start && currentTime <= seg.end
   );
 
+  const captionsInput = (
+    <input ref={captionsInputRef} type="file" accept=".srt,.vtt" className="hidden" onChange={handleImportCaptions} />
+  );
+
   if (isLoading) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-muted-foreground p-8">
@@ -125,86 +499,226 @@ export function TranscriptView({ mediaFileId, projectId, currentTime, onSeek }:
           <p className="text-sm text-muted-foreground mt-1 mb-4 max-w-xs">
             Generate a transcript to search content and navigate the video by text.
           </p>
-          <Button onClick={handleTranscribe} disabled={isTranscribing}>
-            {isTranscribing ? (
-              <>
-                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Starting...
-              </>
-            ) : (
-              <>
-                <PlayCircle className="mr-2 h-4 w-4" />
-                Generate Transcript
-              </>
-            )}
-          </Button>
+          <div className="flex flex-col items-center gap-2">
+            <Button onClick={handleTranscribe} disabled={isTranscribing || isImporting}>
+              {isTranscribing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Starting...
+                </>
+              ) : (
+                <>
+                  <PlayCircle className="mr-2 h-4 w-4" />
+                  Generate Transcript
+                </>
+              )}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => captionsInputRef.current?.click()} disabled={isTranscribing || isImporting}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import captions (SRT, VTT)
+            </Button>
+          </div>
         </div>
+        {captionsInput}
       </div>
     );
   }
 
-  if (transcript.status === "processing" || transcript.status === "pending") {
+  // A job that is retrying leaves the transcript "failed" between attempts
+  const isProcessing = jobActive || (!job && (transcript.status === "processing" || transcript.status === "pending"));
+  const isCancelled = job?.status === "cancelled";
+
+  if (isProcessing) {
+    const isRetrying = !!job && job.status === "queued" && !!job.last_error;
     return (
       <div className="flex flex-col items-center justify-center h-full text-center p-8 space-y-4">
         <Loader2 className="h-12 w-12 text-primary animate-spin" />
         <div>
-          <h3 className="font-semibold">Transcribing Media...</h3>
+          <h3 className="font-semibold">{isRetrying ? "Retrying Transcription..." : "Transcribing Media..."}</h3>
           <p className="text-sm text-muted-foreground mt-2">
-            This usually takes about 15-20% of the video duration.
+            {isRetrying
+              ? `Attempt ${job.attempts} of ${job.max_attempts} failed: ${job.last_error}`
+              : "This usually takes about 15-20% of the video duration."}
             <br />
             You can continue working while this processes.
           </p>
         </div>
+        {job && (
+          <div className="w-full max-w-xs space-y-3">
+            <Progress value={job.progress} />
+            <Button variant="outline" size="sm" onClick={handleCancel} disabled={job.cancel_requested}>
+              {job.cancel_requested ? "Cancelling..." : "Cancel"}
+            </Button>
+          </div>
+        )}
       </div>
     );
   }
 
-  if (transcript.status === "failed") {
+  if (transcript.status === "failed" || (isCancelled && transcript.status !== "completed")) {
     return (
       <div className="flex flex-col items-center justify-center h-full text-center p-8 space-y-4">
         <div className="bg-destructive/10 p-4 rounded-full">
           <FileText className="h-8 w-8 text-destructive" />
         </div>
         <div>
-          <h3 className="font-semibold text-destructive">Transcription Failed</h3>
+          <h3 className="font-semibold text-destructive">
+            {isCancelled ? "Transcription Cancelled" : "Transcription Failed"}
+          </h3>
           <p className="text-sm text-muted-foreground mt-1 mb-4">
-            {transcript.error_message || "An unknown error occurred."}
+            {isCancelled
+              ? "Start it again whenever you're ready."
+              : transcript.error_message || job?.last_error || "An unknown error occurred."}
           </p>
-          <Button variant="outline" onClick={handleTranscribe}>
-            Try Again
-          </Button>
+          <div className="flex flex-col items-center gap-2">
+            <Button variant="outline" onClick={handleTranscribe} disabled={isImporting}>
+              Try Again
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => captionsInputRef.current?.click()} disabled={isImporting}>
+              {isImporting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Import captions (SRT, VTT)
+            </Button>
+          </div>
         </div>
+        {captionsInput}
       </div>
     );
   }
 
+  const history = (
+    <TranscriptRevisions
+      transcript={transcript}
+      open={showHistory}
+      onOpenChange={setShowHistory}
+      onRestored={(restored) => {
+        setTranscript(restored);
+        setShowHistory(false);
+      }}
+    />
+  );
+
+  if (isEditing) {
+    return (
+      <>
+        <TranscriptEditor
+          segments={segments}
+          speakerNames={speakerNames}
+          onSeek={seek}
+          onSave={handleSaveEdits}
+          onCancel={() => setIsEditing(false)}
+        />
+        {history}
+      </>
+    );
+  }
+
   return (
     <div className="flex flex-col h-full bg-background">
       <div className="p-4 border-b space-y-4">
-        <div className="relative">
-          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search transcript..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-8"
-          />
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search transcript..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              onKeyDown={handleSearchKeyDown}
+              className="pl-8"
+            />
+          </div>
+          <Button variant="outline" size="icon" title="Edit transcript" onClick={handleStartEditing} disabled={transcript.status !== "completed"}>
+            <PenLine className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="icon" title="History" onClick={() => setShowHistory(true)}>
+            <History className="h-4 w-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="icon" title="Import or export">
+                {isImporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              {(Object.keys(TRANSCRIPT_EXPORT_FORMATS) as TranscriptExportFormat[]).map((format) => (
+                <DropdownMenuItem key={format} onClick={() => handleExport(format)} disabled={segments.length === 0}>
+                  Export {TRANSCRIPT_EXPORT_FORMATS[format].label}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuItem onClick={() => captionsInputRef.current?.click()} disabled={isImporting}>
+                Import captions (SRT, VTT)...
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {captionsInput}
         </div>
+        {quote && (
+          <Button variant="secondary" size="sm" className="w-full" onMouseDown={(e) => e.preventDefault()} onClick={handleCopyQuote}>
+            <Quote className="mr-2 h-4 w-4" />
+            Copy quote ({formatTimestamp(quote.start)} - {formatTimestamp(quote.end)})
+          </Button>
+        )}
+        {transcript.status === "completed" && (
+          <TranslationControls
+            translations={translations}
+            jobs={translationJobs}
+            selected={translationLanguage}
+            onSelect={setTranslationLanguage}
+            sideBySide={sideBySide}
+            onSideBySideChange={setSideBySide}
+            isStale={!!translation && translation.source_updated_at !== transcript.updated_at}
+            onTranslate={handleTranslate}
+          />
+        )}
+        {speakerIds.length > 0 && (
+          <SpeakerBar
+            speakerIds={speakerIds}
+            names={speakerNames}
+            selected={speakerFilter}
+            onSelect={setSpeakerFilter}
+            onRename={handleRenameSpeaker}
+          />
+        )}
       </div>
 
       <ScrollArea className="flex-1 p-4">
-        <div className="space-y-4">
-          {filteredSegments.length > 0 ? (
-            filteredSegments.map((segment, index) => {
-              const isActive = segments.indexOf(segment) === activeSegmentIndex;
+        <div ref={segmentsRef} className="space-y-4" onCopy={handleCopy}>
+          {visibleSegments.length > 0 ? (
+            visibleSegments.map(({ index, matches }, position) => {
+              const segment = segments[index];
+              const isActive = index === activeSegmentIndex;
+              const color = speakerColor(speakerIds, segment.speaker);
+              // Label each speaker turn once, at its first visible segment
+              const previous = position > 0 ? segments[visibleSegments[position - 1].index] : null;
+              const turnStart = !!segment.speaker && segment.speaker !== previous?.speaker;
+              const translated = translation ? translatedText.get(`${segment.start}|${segment.end}`) : undefined;
+              const translatedLanguage = translation?.language;
+              const original = (
+                <p className={cn(
+                  "text-sm leading-relaxed",
+                  isActive && "text-foreground font-medium"
+                )}>
+                  <TranscriptSegmentText
+                    segment={segment}
+                    segmentIndex={index}
+                    matches={matches}
+                    live={isActive}
+                    onSeek={seek}
+                  />
+                </p>
+              );
               return (
                 <div
                   key={index}
                   className={cn(
                     "group flex gap-3 p-3 rounded-lg cursor-pointer transition-colors hover:bg-muted/50",
+                    segment.speaker && "border-l-4",
                     isActive && "bg-primary/10 hover:bg-primary/20"
                   )}
-                  onClick={() => onSeek(segment.start)}
+                  style={color ? { borderLeftColor: color } : undefined}
+                  onClick={() => {
+                    // Clicks that end a text selection shouldn't seek
+                    if (window.getSelection()?.isCollapsed !== false) seek(segment.start);
+                  }}
                 >
                   <span className={cn(
                     "text-xs font-mono mt-1 text-muted-foreground shrink-0",
@@ -212,22 +726,41 @@ export function TranscriptView({ mediaFileId, projectId, currentTime, onSeek }:
                   )}>
                     {formatTime(segment.start)}
                   </span>
-                  <p className={cn(
-                    "text-sm leading-relaxed",
-                    isActive && "text-foreground font-medium"
-                  )}>
-                    {segment.text}
-                  </p>
+                  <div className="min-w-0 flex-1">
+                    {turnStart && segment.speaker && (
+                      <p className="text-xs font-semibold mb-1" style={{ color }}>
+                        {speakerName(speakerNames, segment.speaker)}
+                      </p>
+                    )}
+                    {translated === undefined ? (
+                      original
+                    ) : sideBySide ? (
+                      <div className="grid grid-cols-2 gap-4">
+                        {original}
+                        <p lang={translatedLanguage} className="text-sm leading-relaxed text-muted-foreground">
+                          {translated}
+                        </p>
+                      </div>
+                    ) : (
+                      <p lang={translatedLanguage} className={cn(
+                        "text-sm leading-relaxed",
+                        isActive && "text-foreground font-medium"
+                      )}>
+                        {translated}
+                      </p>
+                    )}
+                  </div>
                 </div>
               );
             })
           ) : (
             <div className="text-center text-muted-foreground py-8">
-              No results found for "{searchQuery}"
+              {searchQuery ? `No results found for "${searchQuery}"` : "Nothing said by this speaker"}
             </div>
           )}
         </div>
       </ScrollArea>
+      {history}
     </div>
   );
 }
\ No newline at end of file
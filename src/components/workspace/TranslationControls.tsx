@@ -0,0 +1,131 @@
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Columns2, Languages, Loader2, RefreshCw } from "lucide-react";
+import { languageName, TRANSLATION_LANGUAGES } from "@/lib/media/languages";
+import { isJobFinished, type Job } from "@/services/jobService";
+import type { TranscriptTranslation } from "@/services/transcriptService";
+import { cn } from "@/lib/utils";
+
+const ORIGINAL = "original";
+
+interface TranslationControlsProps {
+  translations: TranscriptTranslation[];
+  // Latest translation job per language, for progress
+  jobs: Record<string, Job>;
+  selected: string | null;
+  onSelect: (language: string | null) => void;
+  sideBySide: boolean;
+  onSideBySideChange: (sideBySide: boolean) => void;
+  // The selected translation was made before the transcript's last edit
+  isStale: boolean;
+  onTranslate: (language: string) => void;
+}
+
+/**
+ * Language picker for a transcript: view the original or a translation,
+ * optionally side by side, and start new translations
+ */
+export function TranslationControls({
+  translations,
+  jobs,
+  selected,
+  onSelect,
+  sideBySide,
+  onSideBySideChange,
+  isStale,
+  onTranslate,
+}: TranslationControlsProps) {
+  // Queued translations have no row until the worker starts them
+  const languages = Array.from(new Set([
+    ...translations.map((translation) => translation.language),
+    ...Object.values(jobs).filter((job) => !isJobFinished(job)).map((job) => (job.payload as { language: string }).language),
+  ])).sort((a, b) => languageName(a).localeCompare(languageName(b)));
+  const available = TRANSLATION_LANGUAGES.filter((language) => !languages.includes(language.code));
+
+  const isRunning = (language: string) => {
+    const job = jobs[language];
+    if (job) return !isJobFinished(job);
+    const status = translations.find((translation) => translation.language === language)?.status;
+    return status === "pending" || status === "processing";
+  };
+
+  const statusLabel = (language: string) => {
+    if (isRunning(language)) {
+      return jobs[language] ? ` (translating ${jobs[language].progress}%)` : " (translating...)";
+    }
+    return translations.find((translation) => translation.language === language)?.status === "failed" ? " (failed)" : "";
+  };
+
+  const current = translations.find((translation) => translation.language === selected);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select value={selected ?? ORIGINAL} onValueChange={(value) => onSelect(value === ORIGINAL ? null : value)}>
+          <SelectTrigger className="flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ORIGINAL}>Original</SelectItem>
+            {languages.map((language) => (
+              <SelectItem key={language} value={language}>
+                {languageName(language)}
+                {statusLabel(language)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {selected && (
+          <Button
+            variant="outline"
+            size="icon"
+            title={sideBySide ? "Show translation only" : "Show side by side"}
+            className={cn(sideBySide && "bg-muted")}
+            onClick={() => onSideBySideChange(!sideBySide)}
+          >
+            <Columns2 className="h-4 w-4" />
+          </Button>
+        )}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="icon" title="Translate" disabled={available.length === 0}>
+              <Languages className="h-4 w-4" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+            {available.map((language) => (
+              <DropdownMenuItem key={language.code} onClick={() => onTranslate(language.code)}>
+                Translate to {language.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {selected && isRunning(selected) && (
+        <p className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Translating into {languageName(selected)}...
+        </p>
+      )}
+      {current?.status === "failed" && !isRunning(current.language) && (
+        <div className="flex items-center justify-between gap-2 text-xs text-destructive">
+          <span>Translation failed: {current.error_message || "unknown error"}</span>
+          <Button variant="ghost" size="sm" onClick={() => onTranslate(current.language)}>
+            Try again
+          </Button>
+        </div>
+      )}
+      {current?.status === "completed" && isStale && !isRunning(current.language) && (
+        <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>The transcript has changed since this translation.</span>
+          <Button variant="ghost" size="sm" onClick={() => onTranslate(current.language)}>
+            <RefreshCw className="mr-1 h-3 w-3" />
+            Update
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
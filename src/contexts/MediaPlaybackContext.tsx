@@ -0,0 +1,213 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import { annotationService, type Annotation } from "@/services/annotationService";
+import type { MediaFile } from "@/services/mediaService";
+import { useRowChanges } from "@/hooks/use-realtime";
+import { removeRow } from "@/integrations/supabase/realtime";
+
+/**
+ * Media playback shared across the project workspace. The page owns the
+ * controller; MediaPanel registers its <audio>/<video> element, and the
+ * transcript, document viewer and toolbar read or drive the playhead.
+ *
+ * The controller deliberately holds no playhead state, so seeking and
+ * playing don't re-render the whole workspace. Components that display
+ * the time subscribe to the element with usePlaybackState().
+ */
+
+export interface SeekOptions {
+  play?: boolean;
+}
+
+export interface MediaPlayback {
+  media: MediaFile | null;
+  element: HTMLMediaElement | null;
+  registerElement: (element: HTMLMediaElement | null) => void;
+  // Live playhead in seconds, 0 when nothing is loaded
+  getCurrentTime: () => number;
+  seek: (time: number, options?: SeekOptions) => void;
+  // Seek in any media file, selecting it first if needed
+  seekTo: (mediaFileId: string, time: number, options?: SeekOptions) => void;
+  togglePlay: () => void;
+  // Annotations linked to a timestamp in the current media
+  linkedAnnotations: Annotation[];
+  refreshLinkedAnnotations: () => Promise<void>;
+}
+
+export interface PlaybackState {
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+}
+
+const MediaPlaybackContext = createContext<MediaPlayback | null>(null);
+
+interface MediaPlaybackControllerOptions {
+  media: MediaFile | null;
+  onSelectMedia: (mediaFileId: string) => void;
+}
+
+export function useMediaPlaybackController({ media, onSelectMedia }: MediaPlaybackControllerOptions): MediaPlayback {
+  const [element, setElement] = useState<HTMLMediaElement | null>(null);
+  const [linkedAnnotations, setLinkedAnnotations] = useState<Annotation[]>([]);
+  const elementRef = useRef<HTMLMediaElement | null>(null);
+  const mediaRef = useRef<MediaFile | null>(media);
+  const pendingSeekRef = useRef<{ mediaFileId: string; time: number; play: boolean } | null>(null);
+  const onSelectMediaRef = useRef(onSelectMedia);
+
+  mediaRef.current = media;
+  onSelectMediaRef.current = onSelectMedia;
+
+  const registerElement = useCallback((next: HTMLMediaElement | null) => {
+    elementRef.current = next;
+    setElement(next);
+  }, []);
+
+  const applySeek = useCallback((target: HTMLMediaElement, time: number, play: boolean) => {
+    target.currentTime = time;
+    if (play) {
+      target.play().catch((error) => console.error("Failed to start playback:", error));
+    }
+  }, []);
+
+  // Apply a seek queued for media that was still loading
+  useEffect(() => {
+    const pending = pendingSeekRef.current;
+    if (!element || !pending || pending.mediaFileId !== media?.id) return;
+
+    const apply = () => {
+      pendingSeekRef.current = null;
+      applySeek(element, pending.time, pending.play);
+    };
+
+    if (element.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      apply();
+      return;
+    }
+
+    element.addEventListener("loadedmetadata", apply, { once: true });
+    return () => element.removeEventListener("loadedmetadata", apply);
+  }, [element, media?.id, applySeek]);
+
+  const seek = useCallback((time: number, options: SeekOptions = {}) => {
+    if (elementRef.current) applySeek(elementRef.current, time, !!options.play);
+  }, [applySeek]);
+
+  const seekTo = useCallback((mediaFileId: string, time: number, options: SeekOptions = {}) => {
+    const target = elementRef.current;
+    if (mediaRef.current?.id === mediaFileId && target && target.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      applySeek(target, time, !!options.play);
+      return;
+    }
+
+    pendingSeekRef.current = { mediaFileId, time, play: !!options.play };
+    if (mediaRef.current?.id !== mediaFileId) onSelectMediaRef.current(mediaFileId);
+  }, [applySeek]);
+
+  const togglePlay = useCallback(() => {
+    const target = elementRef.current;
+    if (!target) return;
+    if (target.paused) {
+      target.play().catch((error) => console.error("Failed to start playback:", error));
+    } else {
+      target.pause();
+    }
+  }, []);
+
+  const getCurrentTime = useCallback(() => elementRef.current?.currentTime ?? 0, []);
+
+  const refreshLinkedAnnotations = useCallback(async () => {
+    const current = mediaRef.current;
+    if (!current) {
+      setLinkedAnnotations([]);
+      return;
+    }
+    try {
+      const data = await annotationService.getAnnotationsByMedia(current.id);
+      if (mediaRef.current?.id === current.id) setLinkedAnnotations(data);
+    } catch (error) {
+      console.error("Failed to load linked annotations:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    setLinkedAnnotations([]);
+    refreshLinkedAnnotations();
+  }, [media?.id, refreshLinkedAnnotations]);
+
+  // Reload (to keep timestamp order) when annotations are linked to this
+  // media elsewhere. Realtime filters on the new row, so unlinking isn't
+  // seen here; callers that unlink refresh explicitly.
+  useRowChanges("annotations", media ? { column: "media_file_id", value: media.id } : null, {
+    onInsert: () => refreshLinkedAnnotations(),
+    onUpdate: () => refreshLinkedAnnotations(),
+    onDelete: ({ id }) => setLinkedAnnotations((prev) => removeRow(prev, id)),
+  });
+
+  return useMemo(() => ({
+    media,
+    element,
+    registerElement,
+    getCurrentTime,
+    seek,
+    seekTo,
+    togglePlay,
+    linkedAnnotations,
+    refreshLinkedAnnotations,
+  }), [media, element, registerElement, getCurrentTime, seek, seekTo, togglePlay, linkedAnnotations, refreshLinkedAnnotations]);
+}
+
+export function MediaPlaybackProvider({ value, children }: { value: MediaPlayback; children: React.ReactNode }) {
+  return <MediaPlaybackContext.Provider value={value}>{children}</MediaPlaybackContext.Provider>;
+}
+
+export function useMediaPlayback(): MediaPlayback {
+  const context = useContext(MediaPlaybackContext);
+  if (!context) {
+    throw new Error("useMediaPlayback must be used within a MediaPlaybackProvider");
+  }
+  return context;
+}
+
+/**
+ * Playhead, duration and play state of the registered element. Re-renders
+ * the calling component on every time update; with `precise`, on every
+ * animation frame while playing (timeupdate only fires a few times a
+ * second), so keep precise callers small.
+ */
+export function usePlaybackState({ precise = false }: { precise?: boolean } = {}): PlaybackState {
+  const { element } = useMediaPlayback();
+  const [state, setState] = useState<PlaybackState>({ currentTime: 0, duration: 0, isPlaying: false });
+
+  useEffect(() => {
+    if (!element) {
+      setState({ currentTime: 0, duration: 0, isPlaying: false });
+      return;
+    }
+
+    let frame: number | null = null;
+    const update = () => {
+      setState({
+        currentTime: element.currentTime,
+        duration: Number.isFinite(element.duration) ? element.duration : 0,
+        isPlaying: !element.paused,
+      });
+
+      if (precise && !element.paused && frame === null) {
+        frame = requestAnimationFrame(() => {
+          frame = null;
+          update();
+        });
+      }
+    };
+
+    const events = ["timeupdate", "durationchange", "loadedmetadata", "play", "pause", "seeked", "ended"];
+    update();
+    events.forEach((event) => element.addEventListener(event, update));
+    return () => {
+      events.forEach((event) => element.removeEventListener(event, update));
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [element, precise]);
+
+  return state;
+}
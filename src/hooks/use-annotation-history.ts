@@ -0,0 +1,42 @@
+import { useCallback, useSyncExternalStore } from "react"
+import {
+  getHistory,
+  recordCommand,
+  redo,
+  subscribeToHistory,
+  undo,
+  type AnnotationCommand,
+  type AnnotationHistory,
+} from "@/lib/documents/annotationHistory"
+
+const NO_HISTORY: AnnotationHistory = { past: [], future: [], replays: 0, isReplaying: false }
+
+/**
+ * A document's annotation undo/redo history. Every component using it for
+ * the same document shares one history; pass null when no document is open.
+ */
+export function useAnnotationHistory(documentId: string | null) {
+  const history = useSyncExternalStore(
+    (listener) => (documentId ? subscribeToHistory(documentId, listener) : () => {}),
+    () => (documentId ? getHistory(documentId) : NO_HISTORY),
+    () => NO_HISTORY
+  )
+
+  const record = useCallback(
+    (command: AnnotationCommand) => {
+      if (documentId) recordCommand(documentId, command)
+    },
+    [documentId]
+  )
+
+  return {
+    canUndo: history.past.length > 0 && !history.isReplaying,
+    canRedo: history.future.length > 0 && !history.isReplaying,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[history.future.length - 1]?.label,
+    replays: history.replays,
+    record,
+    undo: useCallback(() => (documentId ? undo(documentId) : Promise.resolve(null)), [documentId]),
+    redo: useCallback(() => (documentId ? redo(documentId) : Promise.resolve(null)), [documentId]),
+  }
+}
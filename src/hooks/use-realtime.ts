@@ -0,0 +1,36 @@
+import { useEffect, useRef } from "react"
+import {
+  subscribeToRows,
+  type RealtimeTable,
+  type RowChangeHandlers,
+  type RowFilter,
+} from "@/integrations/supabase/realtime"
+
+/**
+ * Subscribe to row changes for as long as the component is mounted. Pass a
+ * null filter to pause the subscription (e.g. before an id is known).
+ * Handlers can change between renders without resubscribing.
+ */
+export function useRowChanges<T extends RealtimeTable>(
+  table: T,
+  filter: RowFilter<T> | null,
+  handlers: RowChangeHandlers<T>
+) {
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+
+  const column = filter?.column
+  const value = filter?.value
+
+  useEffect(() => {
+    if (!column || !value) return
+
+    return subscribeToRows(table, { column, value }, {
+      onInsert: (row) => handlersRef.current.onInsert?.(row),
+      onUpdate: (row) => handlersRef.current.onUpdate?.(row),
+      onDelete: (old) => handlersRef.current.onDelete?.(old),
+      onSubscribed: () => handlersRef.current.onSubscribed?.(),
+      onError: (error) => handlersRef.current.onError?.(error),
+    })
+  }, [table, column, value])
+}
@@ -15,6 +15,60 @@ export type Database = {
   }
   public: {
     Tables: {
+      annotation_comments: {
+        Row: {
+          annotation_id: string
+          body: string
+          created_at: string | null
+          edited_at: string | null
+          id: string
+          parent_id: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          annotation_id: string
+          body: string
+          created_at?: string | null
+          edited_at?: string | null
+          id?: string
+          parent_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          annotation_id?: string
+          body?: string
+          created_at?: string | null
+          edited_at?: string | null
+          id?: string
+          parent_id?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "annotation_comments_annotation_id_fkey"
+            columns: ["annotation_id"]
+            isOneToOne: false
+            referencedRelation: "annotations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "annotation_comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "annotation_comments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       annotations: {
         Row: {
           annotation_type: string
@@ -80,6 +134,8 @@ export type Database = {
           ai_summary: string | null
           created_at: string | null
           extracted_text: string | null
+          extraction_error: string | null
+          extraction_status: string
           file_type: string
           folder_id: string | null
           id: string
@@ -94,6 +150,8 @@ export type Database = {
           ai_summary?: string | null
           created_at?: string | null
           extracted_text?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           file_type: string
           folder_id?: string | null
           id?: string
@@ -108,6 +166,8 @@ export type Database = {
           ai_summary?: string | null
           created_at?: string | null
           extracted_text?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
           file_type?: string
           folder_id?: string | null
           id?: string
@@ -139,6 +199,7 @@ export type Database = {
         Row: {
           content_id: string
           content_text: string
+          content_tsv: unknown | null
           content_type: string
           created_at: string | null
           embedding: string | null
@@ -149,6 +210,7 @@ export type Database = {
         Insert: {
           content_id: string
           content_text: string
+          content_tsv?: unknown | null
           content_type: string
           created_at?: string | null
           embedding?: string | null
@@ -159,6 +221,7 @@ export type Database = {
         Update: {
           content_id?: string
           content_text?: string
+          content_tsv?: unknown | null
           content_type?: string
           created_at?: string | null
           embedding?: string | null
@@ -215,10 +278,85 @@ export type Database = {
           },
         ]
       }
+      jobs: {
+        Row: {
+          attempts: number
+          cancel_requested: boolean
+          created_at: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          max_attempts: number
+          payload: Json
+          progress: number
+          project_id: string
+          result: Json | null
+          run_at: string
+          status: string
+          target_id: string | null
+          type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          cancel_requested?: boolean
+          created_at?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          progress?: number
+          project_id: string
+          result?: Json | null
+          run_at?: string
+          status?: string
+          target_id?: string | null
+          type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          cancel_requested?: boolean
+          created_at?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          max_attempts?: number
+          payload?: Json
+          progress?: number
+          project_id?: string
+          result?: Json | null
+          run_at?: string
+          status?: string
+          target_id?: string | null
+          type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       media_files: {
         Row: {
           ai_summary: string | null
           chunk_pattern: string | null
+          chunk_size: number | null
           created_at: string | null
           duration_seconds: number | null
           file_size: number | null
@@ -226,6 +364,11 @@ export type Database = {
           folder_id: string | null
           id: string
           is_chunked: boolean | null
+          merge_attempts: number
+          merge_error: string | null
+          merge_started_at: string | null
+          merge_status: string
+          mime_type: string | null
           name: string
           project_id: string
           storage_path: string
@@ -235,6 +378,7 @@ export type Database = {
         Insert: {
           ai_summary?: string | null
           chunk_pattern?: string | null
+          chunk_size?: number | null
           created_at?: string | null
           duration_seconds?: number | null
           file_size?: number | null
@@ -242,6 +386,11 @@ export type Database = {
           folder_id?: string | null
           id?: string
           is_chunked?: boolean | null
+          merge_attempts?: number
+          merge_error?: string | null
+          merge_started_at?: string | null
+          merge_status?: string
+          mime_type?: string | null
           name: string
           project_id: string
           storage_path: string
@@ -251,6 +400,7 @@ export type Database = {
         Update: {
           ai_summary?: string | null
           chunk_pattern?: string | null
+          chunk_size?: number | null
           created_at?: string | null
           duration_seconds?: number | null
           file_size?: number | null
@@ -258,6 +408,11 @@ export type Database = {
           folder_id?: string | null
           id?: string
           is_chunked?: boolean | null
+          merge_attempts?: number
+          merge_error?: string | null
+          merge_started_at?: string | null
+          merge_status?: string
+          mime_type?: string | null
           name?: string
           project_id?: string
           storage_path?: string
@@ -308,8 +463,47 @@ export type Database = {
         }
         Relationships: []
       }
+      project_settings: {
+        Row: {
+          created_at: string | null
+          glossary: string[]
+          project_id: string
+          transcription_language: string | null
+          transcription_model: string | null
+          transcription_provider: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          glossary?: string[]
+          project_id: string
+          transcription_language?: string | null
+          transcription_model?: string | null
+          transcription_provider?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          glossary?: string[]
+          project_id?: string
+          transcription_language?: string | null
+          transcription_model?: string | null
+          transcription_provider?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_settings_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: true
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       projects: {
         Row: {
+          ai_summary: string | null
           created_at: string | null
           description: string | null
           id: string
@@ -318,6 +512,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          ai_summary?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
@@ -326,6 +521,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          ai_summary?: string | null
           created_at?: string | null
           description?: string | null
           id?: string
@@ -335,6 +531,94 @@ export type Database = {
         }
         Relationships: []
       }
+      transcript_revisions: {
+        Row: {
+          created_at: string | null
+          full_text: string
+          id: string
+          revision_number: number
+          segments: Json
+          summary: string | null
+          transcript_id: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          full_text?: string
+          id?: string
+          revision_number: number
+          segments?: Json
+          summary?: string | null
+          transcript_id: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          full_text?: string
+          id?: string
+          revision_number?: number
+          segments?: Json
+          summary?: string | null
+          transcript_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_revisions_transcript_id_fkey"
+            columns: ["transcript_id"]
+            isOneToOne: false
+            referencedRelation: "transcripts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      transcript_translations: {
+        Row: {
+          created_at: string | null
+          error_message: string | null
+          full_text: string
+          id: string
+          language: string
+          segments: Json
+          source_updated_at: string | null
+          status: string
+          transcript_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          error_message?: string | null
+          full_text?: string
+          id?: string
+          language: string
+          segments?: Json
+          source_updated_at?: string | null
+          status?: string
+          transcript_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          error_message?: string | null
+          full_text?: string
+          id?: string
+          language?: string
+          segments?: Json
+          source_updated_at?: string | null
+          status?: string
+          transcript_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_translations_transcript_id_fkey"
+            columns: ["transcript_id"]
+            isOneToOne: false
+            referencedRelation: "transcripts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transcripts: {
         Row: {
           created_at: string | null
@@ -344,7 +628,9 @@ export type Database = {
           language: string | null
           media_file_id: string
           project_id: string | null
+          search_vector: unknown | null
           segments: Json | null
+          speakers: Json
           status: string | null
           updated_at: string | null
           user_id: string | null
@@ -357,7 +643,9 @@ export type Database = {
           language?: string | null
           media_file_id: string
           project_id?: string | null
+          search_vector?: unknown | null
           segments?: Json | null
+          speakers?: Json
           status?: string | null
           updated_at?: string | null
           user_id?: string | null
@@ -370,7 +658,9 @@ export type Database = {
           language?: string | null
           media_file_id?: string
           project_id?: string | null
+          search_vector?: unknown | null
           segments?: Json | null
+          speakers?: Json
           status?: string | null
           updated_at?: string | null
           user_id?: string | null
@@ -397,7 +687,55 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_job: {
+        Args: {
+          stale_after?: unknown
+          worker_id: string
+        }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+      }
+      keyword_search_embeddings: {
+        Args: {
+          filter_content_id?: string
+          filter_content_types?: string[]
+          filter_created_after?: string
+          filter_created_before?: string
+          filter_folder_id?: string
+          filter_speaker?: string
+          match_count?: number
+          match_project_id: string
+          search_query: string
+        }
+        Returns: {
+          content_id: string
+          content_text: string
+          content_type: string
+          id: string
+          metadata: Json
+          rank: number
+        }[]
+      }
+      match_embeddings: {
+        Args: {
+          filter_content_id?: string
+          filter_content_types?: string[]
+          filter_created_after?: string
+          filter_created_before?: string
+          filter_folder_id?: string
+          filter_speaker?: string
+          match_count?: number
+          match_project_id: string
+          query_embedding: string
+        }
+        Returns: {
+          content_id: string
+          content_text: string
+          content_type: string
+          id: string
+          metadata: Json
+          similarity: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
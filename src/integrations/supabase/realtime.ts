@@ -0,0 +1,91 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { supabase } from "./client";
+import type { Tables } from "./types";
+
+// Tables published to Realtime (see the supabase_realtime publication in
+// supabase/migrations). Row-level security applies, so clients only hear
+// about rows they can select.
+export type RealtimeTable = "annotation_comments" | "annotations" | "documents" | "jobs" | "media_files" | "transcript_translations" | "transcripts";
+
+// Realtime filters on a single column equality
+export interface RowFilter<T extends RealtimeTable> {
+  column: keyof Tables<T> & string;
+  value: string;
+}
+
+export interface RowChangeHandlers<T extends RealtimeTable> {
+  onInsert?: (row: Tables<T>) => void;
+  onUpdate?: (row: Tables<T>) => void;
+  // Deletes only carry the primary key and aren't filtered, so handlers see
+  // deletes from the whole table and should match on id
+  onDelete?: (old: Pick<Tables<T>, "id">) => void;
+  // Fires when the subscription goes live, and again after reconnecting.
+  // Reload here to catch changes made while not subscribed.
+  onSubscribed?: () => void;
+  // Fires when the channel fails or times out. The client keeps retrying
+  // in the background, so onSubscribed may still follow.
+  onError?: (error: Error) => void;
+}
+
+let channelCount = 0;
+
+/**
+ * Subscribe to inserts, updates and deletes on a table, optionally limited
+ * to rows matching a filter. Returns a function that unsubscribes.
+ *
+ * Oversized rows can arrive with large columns (transcripts.segments,
+ * documents.extracted_text) left out, so refetch rows you need in full.
+ */
+export function subscribeToRows<T extends RealtimeTable>(
+  table: T,
+  filter: RowFilter<T> | null,
+  handlers: RowChangeHandlers<T>
+): () => void {
+  const filterKey = filter ? `${filter.column}=eq.${filter.value}` : undefined;
+  const channel = supabase.channel(`${table}:${filterKey ?? "*"}:${++channelCount}`);
+
+  channel
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table, filter: filterKey },
+      (payload: RealtimePostgresChangesPayload<Tables<T>>) => {
+        switch (payload.eventType) {
+          case "INSERT":
+            handlers.onInsert?.(payload.new);
+            break;
+          case "UPDATE":
+            handlers.onUpdate?.(payload.new);
+            break;
+          case "DELETE":
+            if (payload.old.id) handlers.onDelete?.({ id: payload.old.id });
+            break;
+        }
+      }
+    )
+    .subscribe((status, error) => {
+      if (status === "SUBSCRIBED") {
+        handlers.onSubscribed?.();
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        console.error(`Realtime subscription to ${table} failed:`, error ?? status);
+        handlers.onError?.(error ?? new Error(`Realtime subscription to ${table} failed: ${status}`));
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Apply an inserted or updated row to a list: replace the row with the same
+ * id, or append it
+ */
+export function upsertRow<R extends { id: string }>(rows: R[], row: R): R[] {
+  return rows.some((existing) => existing.id === row.id)
+    ? rows.map((existing) => (existing.id === row.id ? row : existing))
+    : [...rows, row];
+}
+
+export function removeRow<R extends { id: string }>(rows: R[], id: string): R[] {
+  return rows.some((row) => row.id === id) ? rows.filter((row) => row.id !== id) : rows;
+}
@@ -0,0 +1,58 @@
+import { createClient, type User } from "@supabase/supabase-js";
+import type { NextApiRequest } from "next";
+import type { Database } from "./types";
+
+// Server-only client. Uses the service role key, so it must never be
+// imported from components or client-side services.
+// Import it like this in API routes:
+// import { supabaseAdmin } from "@/integrations/supabase/server";
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  throw new Error("Missing Supabase environment variables. Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY.");
+}
+
+export const supabaseAdmin = createClient<Database>(
+  SUPABASE_URL,
+  SUPABASE_SERVICE_ROLE_KEY,
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  }
+);
+
+/**
+ * Resolve the user behind an API request from its Bearer token
+ */
+export async function getRequestUser(req: NextApiRequest): Promise<User | null> {
+  const header = req.headers.authorization;
+  if (!header?.startsWith("Bearer ")) return null;
+
+  const { data, error } = await supabaseAdmin.auth.getUser(header.slice(7));
+  if (error || !data.user) return null;
+
+  return data.user;
+}
+
+/**
+ * Check that a project belongs to the given user
+ */
+export async function userOwnsProject(userId: string, projectId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("projects")
+    .select("id")
+    .eq("id", projectId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error checking project access:", error);
+    return false;
+  }
+
+  return !!data;
+}
@@ -0,0 +1,143 @@
+/**
+ * Chunking helpers for the embeddings index. Pure functions only.
+ */
+
+// documents.extracted_text stores pages separated by a form feed,
+// the same convention pdftotext uses.
+export const PAGE_BREAK = "\f";
+
+// DOCX files have no fixed pages, so their extracted text is one line per
+// top-level block of the converted HTML, empty blocks included
+export const PARAGRAPH_BREAK = "\n";
+
+export interface ChunkOptions {
+  size?: number;
+  overlap?: number;
+}
+
+const DEFAULT_CHUNK_SIZE = 1000;
+const DEFAULT_CHUNK_OVERLAP = 200;
+
+/**
+ * Split text into overlapping windows of roughly `size` characters,
+ * preferring to break on whitespace.
+ */
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const size = options.size ?? DEFAULT_CHUNK_SIZE;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(size / 2));
+  const normalized = text.replace(/\s+/g, " ").trim();
+
+  if (!normalized) return [];
+  if (normalized.length <= size) return [normalized];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + size, normalized.length);
+
+    if (end < normalized.length) {
+      const lastSpace = normalized.lastIndexOf(" ", end);
+      if (lastSpace > start + size / 2) end = lastSpace;
+    }
+
+    chunks.push(normalized.slice(start, end).trim());
+    if (end >= normalized.length) break;
+
+    let next = end - overlap;
+    const nextSpace = normalized.indexOf(" ", next);
+    if (nextSpace !== -1 && nextSpace < end) next = nextSpace + 1;
+    start = Math.max(next, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Split extracted document text into pages (1-based page numbers)
+ */
+export function splitPages(text: string): { pageNumber: number; text: string }[] {
+  return text
+    .split(PAGE_BREAK)
+    .map((pageText, i) => ({ pageNumber: i + 1, text: pageText }))
+    .filter((page) => page.text.trim().length > 0);
+}
+
+/**
+ * Group a DOCX file's paragraphs into overlapping windows, each citing the
+ * index of the paragraph it starts in. Paragraphs longer than a window are
+ * split first.
+ */
+export function chunkParagraphs(text: string, options: ChunkOptions = {}): { paragraph: number; text: string }[] {
+  const pieces = text
+    .split(PARAGRAPH_BREAK)
+    .flatMap((paragraph, i) => chunkText(paragraph, options).map((piece) => ({ start: i, end: i, text: piece })));
+
+  return chunkSegments(pieces, options).map((chunk) => ({ paragraph: chunk.start, text: chunk.text }));
+}
+
+export interface TimedText {
+  start: number;
+  end: number;
+  text: string;
+  // Speaker name, written into the chunk text where their turn starts
+  speaker?: string;
+}
+
+export interface TimedChunk {
+  text: string;
+  start: number;
+  end: number;
+  // Speakers heard in the window, in order of first appearance
+  speakers: string[];
+}
+
+/**
+ * Group consecutive timed segments into overlapping windows. Each window
+ * keeps the time range it covers; the trailing segments of one window are
+ * repeated at the start of the next. Speaker turns are marked "Name: ..."
+ * so each window reads on its own.
+ */
+export function chunkSegments(segments: TimedText[], options: ChunkOptions = {}): TimedChunk[] {
+  const size = options.size ?? DEFAULT_CHUNK_SIZE;
+  const overlap = options.overlap ?? DEFAULT_CHUNK_OVERLAP;
+  const usable = segments.filter((seg) => seg.text?.trim());
+  const chunks: TimedChunk[] = [];
+
+  let startIndex = 0;
+  while (startIndex < usable.length) {
+    let endIndex = startIndex;
+    let length = 0;
+
+    while (endIndex < usable.length && (length === 0 || length + usable[endIndex].text.length <= size)) {
+      length += usable[endIndex].text.length + 1;
+      endIndex++;
+    }
+
+    const window = usable.slice(startIndex, endIndex);
+    chunks.push({
+      text: window
+        .map((seg, i) => {
+          const turnStart = seg.speaker && (i === 0 || seg.speaker !== window[i - 1].speaker);
+          return turnStart ? `${seg.speaker}: ${seg.text.trim()}` : seg.text.trim();
+        })
+        .join(" "),
+      start: window[0].start,
+      end: window[window.length - 1].end,
+      speakers: Array.from(new Set(window.flatMap((seg) => (seg.speaker ? [seg.speaker] : [])))),
+    });
+
+    if (endIndex >= usable.length) break;
+
+    // Step back over trailing segments until we've covered `overlap` characters
+    let nextStart = endIndex;
+    let overlapLength = 0;
+    while (nextStart - 1 > startIndex && overlapLength < overlap) {
+      nextStart--;
+      overlapLength += usable[nextStart].text.length + 1;
+    }
+    startIndex = nextStart;
+  }
+
+  return chunks;
+}
@@ -0,0 +1,126 @@
+import OpenAI from "openai";
+
+/**
+ * AI Client - the single entry point server code uses to reach a model.
+ * - "openai" (default): OpenAI embeddings + chat completions
+ * - "stub": deterministic local implementation, no network required
+ *
+ * Select with AI_PROVIDER, or swap programmatically with setAIClient().
+ */
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || "text-embedding-3-small";
+const CHAT_MODEL = process.env.OPENAI_CHAT_MODEL || "gpt-4o-mini";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface AIClient {
+  embed(texts: string[]): Promise<number[][]>;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+export function createOpenAIClient(
+  openai: OpenAI = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+): AIClient {
+  return {
+    async embed(texts) {
+      if (texts.length === 0) return [];
+
+      const response = await openai.embeddings.create({
+        model: EMBEDDING_MODEL,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS,
+      });
+
+      return response.data
+        .sort((a, b) => a.index - b.index)
+        .map((item) => item.embedding);
+    },
+
+    async complete(messages, options = {}) {
+      const response = await openai.chat.completions.create({
+        model: CHAT_MODEL,
+        messages,
+        temperature: options.temperature ?? 0.2,
+        max_completion_tokens: options.maxTokens,
+      });
+
+      return response.choices[0]?.message?.content?.trim() || "";
+    },
+  };
+}
+
+// FNV-1a, used to hash tokens into embedding dimensions
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function stubEmbedding(text: string): number[] {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  tokens.forEach((token) => {
+    vector[hashToken(token) % EMBEDDING_DIMENSIONS] += 1;
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map((value) => value / norm) : vector;
+}
+
+/**
+ * Deterministic client for tests and offline development.
+ * Embeddings are hashed bags of words, so texts sharing vocabulary
+ * land close together; completions echo the opening of the last prompt.
+ */
+export function createStubAIClient(): AIClient {
+  return {
+    async embed(texts) {
+      return texts.map(stubEmbedding);
+    },
+
+    async complete(messages) {
+      const lastUser = [...messages].reverse().find((m) => m.role === "user");
+      const text = (lastUser?.content || "").replace(/\s+/g, " ").trim();
+      return `[stub] ${text.slice(0, 400)}`;
+    },
+  };
+}
+
+let activeClient: AIClient | null = null;
+
+export function getAIClient(): AIClient {
+  if (!activeClient) {
+    activeClient = process.env.AI_PROVIDER === "stub"
+      ? createStubAIClient()
+      : createOpenAIClient();
+  }
+  return activeClient;
+}
+
+/**
+ * Override the client used by server code (pass null to reset)
+ */
+export function setAIClient(client: AIClient | null): void {
+  activeClient = client;
+}
+
+/**
+ * Serialize a vector into the text format pgvector accepts
+ */
+export function toPgVector(vector: number[]): string {
+  return `[${vector.join(",")}]`;
+}
@@ -0,0 +1,338 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import type { Json, TablesInsert } from "@/integrations/supabase/database.types";
+import { getAIClient, toPgVector } from "@/lib/ai/client";
+import { chunkParagraphs, chunkSegments, chunkText, splitPages, type TimedText } from "@/lib/ai/chunking";
+import type { EmbeddingContentType, EmbeddingMetadata } from "@/lib/ai/types";
+import { speakerName, type SpeakerNames } from "@/lib/media/speakers";
+import type { AnnotationCoordinates } from "@/services/annotationService";
+
+/**
+ * Indexer - keeps the embeddings table in sync with project content.
+ * Every index* function replaces all rows for its source, so it is safe
+ * to call again whenever that source changes.
+ */
+
+const EMBED_BATCH_SIZE = 64;
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+// Keeps `content_id=in.(...)` filters well under URL length limits
+const DELETE_BATCH_SIZE = 100;
+
+interface PendingChunk {
+  text: string;
+  metadata: EmbeddingMetadata;
+}
+
+export interface IndexResult {
+  contentType: EmbeddingContentType;
+  contentId: string;
+  chunks: number;
+}
+
+export interface IndexOptions {
+  // Reuse the stored vectors of chunks whose text hasn't changed, so only
+  // edited passages are embedded again. Leave off after changing the
+  // embedding model.
+  incremental?: boolean;
+}
+
+/**
+ * Delete all embeddings for the given sources
+ */
+export async function removeEmbeddings(
+  contentType: EmbeddingContentType,
+  contentIds: string[]
+): Promise<void> {
+  for (let i = 0; i < contentIds.length; i += DELETE_BATCH_SIZE) {
+    const { error } = await supabaseAdmin
+      .from("embeddings")
+      .delete()
+      .eq("content_type", contentType)
+      .in("content_id", contentIds.slice(i, i + DELETE_BATCH_SIZE));
+
+    if (error) {
+      console.error("Error removing embeddings:", error);
+      throw error;
+    }
+  }
+}
+
+/**
+ * Every row of a select, fetched a page at a time. `page` must order its
+ * rows so the pages don't overlap.
+ */
+async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/**
+ * Stored vectors for a source, by chunk text
+ */
+async function existingVectors(
+  contentType: EmbeddingContentType,
+  contentId: string
+): Promise<Map<string, string>> {
+  const { data, error } = await supabaseAdmin
+    .from("embeddings")
+    .select("content_text, embedding")
+    .eq("content_type", contentType)
+    .eq("content_id", contentId);
+
+  if (error) {
+    console.error("Error loading embeddings:", error);
+    throw error;
+  }
+
+  return new Map(
+    (data || []).flatMap((row) => (row.embedding ? [[row.content_text, row.embedding] as [string, string]] : []))
+  );
+}
+
+async function replaceEmbeddings(
+  projectId: string,
+  contentType: EmbeddingContentType,
+  contentId: string,
+  chunks: PendingChunk[],
+  { incremental = false }: IndexOptions = {}
+): Promise<IndexResult> {
+  const client = getAIClient();
+  const reusable = incremental ? await existingVectors(contentType, contentId) : new Map<string, string>();
+  const vectors = new Map<string, string>();
+
+  const pending = Array.from(new Set(chunks.map((chunk) => chunk.text))).filter((text) => {
+    const stored = reusable.get(text);
+    if (stored) vectors.set(text, stored);
+    return !stored;
+  });
+
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    const embedded = await client.embed(batch);
+    batch.forEach((text, j) => vectors.set(text, toPgVector(embedded[j])));
+  }
+
+  const rows: TablesInsert<"embeddings">[] = chunks.map((chunk, i) => ({
+    project_id: projectId,
+    content_type: contentType,
+    content_id: contentId,
+    content_text: chunk.text,
+    embedding: vectors.get(chunk.text),
+    metadata: { ...chunk.metadata, chunk_index: i } as Json,
+  }));
+
+  // Embed first so a failed API call leaves the previous index in place
+  await removeEmbeddings(contentType, [contentId]);
+
+  if (rows.length > 0) {
+    const { error } = await supabaseAdmin.from("embeddings").insert(rows);
+    if (error) {
+      console.error("Error inserting embeddings:", error);
+      throw error;
+    }
+  }
+
+  return { contentType, contentId, chunks: rows.length };
+}
+
+export async function indexDocument(documentId: string, options: IndexOptions = {}): Promise<IndexResult> {
+  const { data: doc, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, project_id, folder_id, name, file_type, extracted_text, created_at")
+    .eq("id", documentId)
+    .single();
+
+  if (error || !doc) throw new Error("Document not found");
+
+  const source = { document_id: doc.id, folder_id: doc.folder_id, name: doc.name, created_at: doc.created_at };
+  // DOCX pages only exist in the viewer, so their chunks cite a paragraph
+  const chunks: PendingChunk[] = doc.file_type === "pdf"
+    ? splitPages(doc.extracted_text || "").flatMap((page) =>
+        chunkText(page.text).map((text) => ({ text, metadata: { ...source, page_number: page.pageNumber } }))
+      )
+    : chunkParagraphs(doc.extracted_text || "").map(({ paragraph, text }) => ({
+        text,
+        metadata: { ...source, paragraph_index: paragraph },
+      }));
+
+  return replaceEmbeddings(doc.project_id, "document", doc.id, chunks, options);
+}
+
+export async function indexTranscript(transcriptId: string, options: IndexOptions = {}): Promise<IndexResult> {
+  const { data: transcript, error } = await supabaseAdmin
+    .from("transcripts")
+    .select("id, project_id, media_file_id, segments, speakers, status, media_files(name, folder_id, project_id, created_at)")
+    .eq("id", transcriptId)
+    .single();
+
+  if (error || !transcript) throw new Error("Transcript not found");
+
+  const media = transcript.media_files;
+  const projectId = transcript.project_id || media?.project_id;
+  const speakers = transcript.speakers as SpeakerNames;
+  // Index speakers by name, so renaming one re-indexes the transcript
+  const segments = transcript.status === "completed"
+    ? ((transcript.segments as unknown as TimedText[]) || []).map((seg) => ({
+        ...seg,
+        speaker: seg.speaker ? speakerName(speakers, seg.speaker) : undefined,
+      }))
+    : [];
+
+  const chunks: PendingChunk[] = chunkSegments(segments).map((chunk) => ({
+    text: chunk.text,
+    metadata: {
+      media_file_id: transcript.media_file_id,
+      folder_id: media?.folder_id ?? null,
+      name: media?.name,
+      start_time: chunk.start,
+      end_time: chunk.end,
+      ...(chunk.speakers.length > 0 && { speakers: chunk.speakers }),
+      created_at: media?.created_at,
+    },
+  }));
+
+  return replaceEmbeddings(projectId, "transcript", transcript.id, chunks, options);
+}
+
+export async function indexAnnotation(annotationId: string, options: IndexOptions = {}): Promise<IndexResult> {
+  const { data: annotation, error } = await supabaseAdmin
+    .from("annotations")
+    .select("id, document_id, page_number, content, coordinates, media_file_id, media_timestamp, created_at, documents(name, folder_id, project_id)")
+    .eq("id", annotationId)
+    .single();
+
+  if (error || !annotation) throw new Error("Annotation not found");
+
+  const doc = annotation.documents;
+  // Text highlights are searchable by the passage they quote
+  const quote = (annotation.coordinates as unknown as AnnotationCoordinates | null)?.quote;
+  const searchableText = [quote && `"${quote}"`, annotation.content].filter(Boolean).join("\n");
+  const chunks: PendingChunk[] = chunkText(searchableText).map((text) => ({
+    text,
+    metadata: {
+      document_id: annotation.document_id,
+      folder_id: doc?.folder_id ?? null,
+      name: doc?.name,
+      page_number: annotation.page_number,
+      created_at: annotation.created_at,
+      ...(annotation.media_file_id && annotation.media_timestamp !== null
+        ? { media_file_id: annotation.media_file_id, start_time: annotation.media_timestamp }
+        : {}),
+    },
+  }));
+
+  return replaceEmbeddings(doc.project_id, "annotation", annotation.id, chunks, options);
+}
+
+/**
+ * Find the project a source belongs to, or null if it doesn't exist
+ */
+export async function resolveProjectId(
+  contentType: EmbeddingContentType,
+  contentId: string
+): Promise<string | null> {
+  switch (contentType) {
+    case "document": {
+      const { data } = await supabaseAdmin
+        .from("documents")
+        .select("project_id")
+        .eq("id", contentId)
+        .maybeSingle();
+      return data?.project_id ?? null;
+    }
+    case "transcript": {
+      const { data } = await supabaseAdmin
+        .from("transcripts")
+        .select("project_id, media_files(project_id)")
+        .eq("id", contentId)
+        .maybeSingle();
+      return data?.project_id ?? data?.media_files?.project_id ?? null;
+    }
+    case "annotation": {
+      const { data } = await supabaseAdmin
+        .from("annotations")
+        .select("documents(project_id)")
+        .eq("id", contentId)
+        .maybeSingle();
+      return data?.documents?.project_id ?? null;
+    }
+  }
+}
+
+export async function indexContent(
+  contentType: EmbeddingContentType,
+  contentId: string,
+  options: IndexOptions = {}
+): Promise<IndexResult> {
+  switch (contentType) {
+    case "document":
+      return indexDocument(contentId, options);
+    case "transcript":
+      return indexTranscript(contentId, options);
+    case "annotation":
+      return indexAnnotation(contentId, options);
+  }
+}
+
+/**
+ * Rebuild the whole index for a project, including removing rows whose
+ * source no longer exists.
+ */
+export async function indexProject(projectId: string): Promise<IndexResult[]> {
+  // A truncated list would get live sources' embeddings deleted as stale
+  const [docs, transcripts, annotations, existing] = await Promise.all([
+    selectAll((from, to) =>
+      supabaseAdmin.from("documents").select("id").eq("project_id", projectId).order("id").range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabaseAdmin.from("transcripts").select("id").eq("project_id", projectId).order("id").range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabaseAdmin
+        .from("annotations")
+        .select("id, documents!inner(project_id)")
+        .eq("documents.project_id", projectId)
+        .order("id")
+        .range(from, to)
+    ),
+    selectAll((from, to) =>
+      supabaseAdmin
+        .from("embeddings")
+        .select("content_type, content_id")
+        .eq("project_id", projectId)
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+
+  const live: Record<EmbeddingContentType, Set<string>> = {
+    document: new Set(docs.map((row) => row.id)),
+    transcript: new Set(transcripts.map((row) => row.id)),
+    annotation: new Set(annotations.map((row) => row.id)),
+  };
+
+  // Clean up rows left behind by sources deleted outside the app
+  for (const contentType of Object.keys(live) as EmbeddingContentType[]) {
+    const stale = existing
+      .filter((row) => row.content_type === contentType && !live[contentType].has(row.content_id))
+      .map((row) => row.content_id);
+    await removeEmbeddings(contentType, Array.from(new Set(stale)));
+  }
+
+  const results: IndexResult[] = [];
+  for (const contentType of Object.keys(live) as EmbeddingContentType[]) {
+    for (const contentId of Array.from(live[contentType])) {
+      results.push(await indexContent(contentType, contentId));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,58 @@
+import { getAIClient } from "@/lib/ai/client";
+import { retrieveChunks, toSearchHit } from "@/lib/ai/search";
+import type { AskResponse, AskSource, SearchFilters } from "@/lib/ai/types";
+
+const DEFAULT_MATCH_COUNT = 8;
+// Every match goes into the prompt, so this bounds its size and cost
+export const MAX_MATCH_COUNT = 20;
+
+const SYSTEM_PROMPT = `You are a study assistant answering questions about a student's project.
+Answer ONLY from the numbered sources provided. Cite every claim with the
+source number in square brackets, e.g. [2]. If the sources do not contain
+the answer, say that you could not find it in the project.`;
+
+function describeSource(source: AskSource): string {
+  const location = source.page_number
+    ? `page ${source.page_number}`
+    : source.paragraph_index !== undefined
+      ? `paragraph ${source.paragraph_index + 1}`
+      : source.media_timestamp !== undefined
+        ? `at ${Math.floor(source.media_timestamp)}s`
+        : null;
+  return [source.content_type, source.name, location].filter(Boolean).join(", ");
+}
+
+/**
+ * Answer a question grounded in the project's indexed content, optionally
+ * limited by the same filters as search (e.g. what one speaker said)
+ */
+export async function answerQuestion(
+  projectId: string,
+  question: string,
+  matchCount = DEFAULT_MATCH_COUNT,
+  filters: SearchFilters = {}
+): Promise<AskResponse> {
+  const chunks = await retrieveChunks(projectId, question, matchCount, filters);
+
+  if (chunks.length === 0) {
+    return {
+      answer: "I couldn't find anything in this project to answer that yet. Try again once your documents and transcripts have been indexed.",
+      sources: [],
+    };
+  }
+
+  const sources: AskSource[] = chunks.map((chunk, i) => ({
+    ...toSearchHit(chunk, question),
+    index: i + 1,
+  }));
+  const context = chunks
+    .map((chunk, i) => `[${i + 1}] (${describeSource(sources[i])})\n${chunk.content_text}`)
+    .join("\n\n");
+
+  const answer = await getAIClient().complete([
+    { role: "system", content: SYSTEM_PROMPT },
+    { role: "user", content: `Sources:\n${context}\n\nQuestion: ${question}` },
+  ]);
+
+  return { answer, sources };
+}
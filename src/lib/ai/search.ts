@@ -0,0 +1,227 @@
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import { getAIClient, toPgVector } from "@/lib/ai/client";
+import type { TimedText } from "@/lib/ai/chunking";
+import { speakerName, type SpeakerNames } from "@/lib/media/speakers";
+import { buildSnippet, findMatches } from "@/lib/ai/textMatch";
+import type {
+  EmbeddingContentType,
+  EmbeddingMetadata,
+  SearchFilters,
+  SearchHit,
+  SegmentMatch,
+} from "@/lib/ai/types";
+
+const DEFAULT_MATCH_COUNT = 8;
+// Largest number of results a search may ask for
+export const MAX_SEARCH_LIMIT = 50;
+
+// Standard reciprocal-rank fusion constant; dampens the weight of top ranks
+const RRF_K = 60;
+
+export interface RetrievedChunk {
+  id: string;
+  content_type: EmbeddingContentType;
+  content_id: string;
+  content_text: string;
+  metadata: EmbeddingMetadata;
+  similarity: number;
+}
+
+function filterArgs(filters: SearchFilters) {
+  return {
+    filter_content_types: filters.contentTypes?.length ? filters.contentTypes : undefined,
+    filter_content_id: filters.contentId,
+    filter_folder_id: filters.folderId,
+    filter_created_after: filters.createdAfter,
+    filter_created_before: filters.createdBefore,
+    filter_speaker: filters.speaker?.trim() || undefined,
+  };
+}
+
+/**
+ * Embed a query and fetch the closest chunks in a project
+ */
+export async function retrieveChunks(
+  projectId: string,
+  query: string,
+  matchCount = DEFAULT_MATCH_COUNT,
+  filters: SearchFilters = {}
+): Promise<RetrievedChunk[]> {
+  const [queryEmbedding] = await getAIClient().embed([query]);
+
+  const { data, error } = await supabaseAdmin.rpc("match_embeddings", {
+    query_embedding: toPgVector(queryEmbedding),
+    match_project_id: projectId,
+    match_count: matchCount,
+    ...filterArgs(filters),
+  });
+
+  if (error) {
+    console.error("Error matching embeddings:", error);
+    throw error;
+  }
+
+  return (data || []).map((row) => ({
+    ...row,
+    content_type: row.content_type as EmbeddingContentType,
+    metadata: (row.metadata || {}) as EmbeddingMetadata,
+  }));
+}
+
+/**
+ * Full-text keyword search over the same chunks, best rank first
+ */
+export async function keywordChunks(
+  projectId: string,
+  query: string,
+  matchCount = DEFAULT_MATCH_COUNT,
+  filters: SearchFilters = {}
+): Promise<RetrievedChunk[]> {
+  const { data, error } = await supabaseAdmin.rpc("keyword_search_embeddings", {
+    search_query: query,
+    match_project_id: projectId,
+    match_count: matchCount,
+    ...filterArgs(filters),
+  });
+
+  if (error) {
+    console.error("Error running keyword search:", error);
+    throw error;
+  }
+
+  // Keyword hits carry no similarity; RRF only needs their order
+  return (data || []).map((row) => ({
+    id: row.id,
+    content_type: row.content_type as EmbeddingContentType,
+    content_id: row.content_id,
+    content_text: row.content_text,
+    metadata: (row.metadata || {}) as EmbeddingMetadata,
+    similarity: 0,
+  }));
+}
+
+export function toSearchHit(chunk: RetrievedChunk, query: string): SearchHit {
+  const { metadata } = chunk;
+  const snippet = buildSnippet(chunk.content_text, query);
+
+  return {
+    id: chunk.id,
+    content_type: chunk.content_type,
+    content_id: chunk.content_id,
+    snippet,
+    matches: findMatches(snippet, query),
+    similarity: chunk.similarity,
+    name: metadata.name,
+    document_id: metadata.document_id,
+    media_file_id: metadata.media_file_id,
+    page_number: metadata.page_number,
+    paragraph_index: metadata.paragraph_index,
+    media_timestamp: metadata.start_time,
+    media_end_time: metadata.end_time,
+    speakers: metadata.speakers,
+  };
+}
+
+/**
+ * Ranked semantic search across a project's indexed content
+ */
+export async function semanticSearch(
+  projectId: string,
+  query: string,
+  filters: SearchFilters = {},
+  limit = 20
+): Promise<SearchHit[]> {
+  const chunks = await retrieveChunks(projectId, query, limit, filters);
+  return chunks.map((chunk) => toSearchHit(chunk, query));
+}
+
+/**
+ * For transcript hits, find the segments inside each chunk's time range
+ * that contain the query, so the transcript view can jump straight to them.
+ * With a speaker filter, only that speaker's segments count.
+ */
+async function attachSegmentMatches(hits: SearchHit[], query: string, speaker?: string): Promise<void> {
+  const transcriptIds = Array.from(new Set(
+    hits.filter((hit) => hit.content_type === "transcript").map((hit) => hit.content_id)
+  ));
+  if (transcriptIds.length === 0) return;
+
+  const { data, error } = await supabaseAdmin
+    .from("transcripts")
+    .select("id, segments, speakers")
+    .in("id", transcriptIds);
+
+  if (error) {
+    console.error("Error loading transcript segments:", error);
+    return;
+  }
+
+  const wanted = speaker?.trim().toLowerCase();
+  const segmentsById = new Map(
+    (data || []).map((row) => {
+      const segments = (row.segments as unknown as TimedText[]) || [];
+      const speakers = row.speakers as SpeakerNames;
+      const spokenBy = (seg: TimedText) =>
+        !wanted || (!!seg.speaker && speakerName(speakers, seg.speaker).toLowerCase() === wanted);
+      // Keep indexes into the full segment list while skipping other speakers
+      return [row.id, segments.map((seg) => (spokenBy(seg) ? seg : null))];
+    })
+  );
+
+  hits.forEach((hit) => {
+    const segments = segmentsById.get(hit.content_id);
+    if (!segments || hit.content_type !== "transcript") return;
+
+    const start = hit.media_timestamp ?? 0;
+    const end = hit.media_end_time ?? Number.POSITIVE_INFINITY;
+    const segmentMatches: SegmentMatch[] = [];
+
+    segments.forEach((segment, index) => {
+      if (!segment || segment.end < start || segment.start > end) return;
+      const matches = findMatches(segment.text, query);
+      if (matches.length > 0) segmentMatches.push({ segment_index: index, matches });
+    });
+
+    hit.segment_matches = segmentMatches;
+  });
+}
+
+/**
+ * Keyword + vector search merged by reciprocal-rank fusion. A chunk's score
+ * is the sum of 1 / (RRF_K + rank) over the result lists it appears in.
+ */
+export async function hybridSearch(
+  projectId: string,
+  query: string,
+  filters: SearchFilters = {},
+  limit = 20
+): Promise<SearchHit[]> {
+  const candidates = Math.max(limit * 2, 20);
+  const [vectorResults, keywordResults] = await Promise.all([
+    retrieveChunks(projectId, query, candidates, filters),
+    keywordChunks(projectId, query, candidates, filters),
+  ]);
+
+  const fused = new Map<string, { chunk: RetrievedChunk; score: number }>();
+  [vectorResults, keywordResults].forEach((results) => {
+    results.forEach((chunk, rank) => {
+      const entry = fused.get(chunk.id);
+      const score = 1 / (RRF_K + rank + 1);
+      if (entry) {
+        entry.score += score;
+        entry.chunk.similarity = Math.max(entry.chunk.similarity, chunk.similarity);
+      } else {
+        fused.set(chunk.id, { chunk: { ...chunk }, score });
+      }
+    });
+  });
+
+  const hits = Array.from(fused.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ chunk, score }) => ({ ...toSearchHit(chunk, query), score }));
+
+  await attachSegmentMatches(hits, query, filters.speaker);
+
+  return hits;
+}
@@ -0,0 +1,230 @@
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import { getAIClient } from "@/lib/ai/client";
+import { chunkText, splitPages, type TimedText } from "@/lib/ai/chunking";
+import { resolveProjectId } from "@/lib/ai/indexer";
+import type { SummaryResult, SummaryTarget } from "@/lib/ai/types";
+
+/**
+ * Summaries - map-reduce summarisation of documents, media transcripts
+ * and whole projects. Results are cached in the ai_summary columns;
+ * database triggers clear them when the underlying source changes.
+ */
+
+// Characters of source text sent per map call
+const SECTION_SIZE = 8000;
+// Partial summaries combined per reduce call
+const REDUCE_BATCH_SIZE = 8;
+
+const MAP_PROMPT = `You summarise study material for a student. Summarise the excerpt
+you are given in concise bullet points. Keep key facts, definitions, names,
+dates and figures. Keep page or timestamp markers such as [Page 3] or [12:40]
+next to the points they belong to. Do not add information that is not in the excerpt.`;
+
+const REDUCE_PROMPT = `You are given partial summaries of consecutive parts of the same
+material. Merge them into one summary: a short overview paragraph followed by the
+key points as bullets. Remove repetition, keep page or timestamp markers, and do
+not add information that is not in the partial summaries.`;
+
+const PROJECT_PROMPT = `You are given summaries of every document and recording in a
+student's project. Write a project overview: a short paragraph on what the project
+covers, then the main themes as bullets, naming the sources each theme comes from.`;
+
+function formatTimestamp(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Greedily join parts into sections of at most `size` characters
+ */
+function packSections(parts: string[], size = SECTION_SIZE): string[] {
+  const sections: string[] = [];
+  let current = "";
+
+  parts.forEach((part) => {
+    if (current && current.length + part.length + 1 > size) {
+      sections.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n${part}` : part;
+  });
+
+  if (current) sections.push(current);
+  return sections;
+}
+
+async function summarizeSections(sections: string[], subject: string): Promise<string> {
+  const client = getAIClient();
+  const run = (prompt: string, content: string) =>
+    client.complete([
+      { role: "system", content: prompt },
+      { role: "user", content: `${subject}\n\n${content}` },
+    ]);
+
+  // A single section needs no map step
+  if (sections.length === 1) {
+    return run(REDUCE_PROMPT, sections[0]);
+  }
+
+  let summaries: string[] = [];
+  for (const section of sections) {
+    summaries.push(await run(MAP_PROMPT, section));
+  }
+
+  while (summaries.length > 1) {
+    const reduced: string[] = [];
+    for (let i = 0; i < summaries.length; i += REDUCE_BATCH_SIZE) {
+      const batch = summaries.slice(i, i + REDUCE_BATCH_SIZE);
+      reduced.push(batch.length === 1 ? batch[0] : await run(REDUCE_PROMPT, batch.join("\n\n---\n\n")));
+    }
+    summaries = reduced;
+  }
+
+  return summaries[0];
+}
+
+/**
+ * Summary of a document's extracted text, cached in documents.ai_summary
+ */
+export async function summarizeDocument(documentId: string, force = false): Promise<SummaryResult> {
+  const { data: doc, error } = await supabaseAdmin
+    .from("documents")
+    .select("id, name, extracted_text, ai_summary")
+    .eq("id", documentId)
+    .single();
+
+  if (error || !doc) throw new Error("Document not found");
+  if (doc.ai_summary && !force) return { summary: doc.ai_summary, cached: true };
+
+  const parts = splitPages(doc.extracted_text || "").flatMap((page) =>
+    chunkText(page.text, { size: SECTION_SIZE, overlap: 0 }).map((text) => `[Page ${page.pageNumber}] ${text}`)
+  );
+  if (parts.length === 0) return { summary: null, cached: false };
+
+  const summary = await summarizeSections(packSections(parts), `Document: ${doc.name}`);
+
+  const { error: updateError } = await supabaseAdmin
+    .from("documents")
+    .update({ ai_summary: summary })
+    .eq("id", documentId);
+
+  if (updateError) {
+    console.error("Error saving document summary:", updateError);
+    throw updateError;
+  }
+
+  return { summary, cached: false };
+}
+
+/**
+ * Summary of a media file's completed transcript, cached in media_files.ai_summary
+ */
+export async function summarizeMedia(mediaFileId: string, force = false): Promise<SummaryResult> {
+  const { data: media, error } = await supabaseAdmin
+    .from("media_files")
+    .select("id, name, ai_summary")
+    .eq("id", mediaFileId)
+    .single();
+
+  if (error || !media) throw new Error("Media file not found");
+  if (media.ai_summary && !force) return { summary: media.ai_summary, cached: true };
+
+  const { data: transcript } = await supabaseAdmin
+    .from("transcripts")
+    .select("segments, status")
+    .eq("media_file_id", mediaFileId)
+    .eq("status", "completed")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const segments = (transcript?.segments as unknown as TimedText[]) || [];
+  const parts = segments
+    .filter((segment) => segment.text.trim())
+    .map((segment) => `[${formatTimestamp(segment.start)}] ${segment.text.trim()}`);
+  if (parts.length === 0) return { summary: null, cached: false };
+
+  const summary = await summarizeSections(packSections(parts), `Recording transcript: ${media.name}`);
+
+  const { error: updateError } = await supabaseAdmin
+    .from("media_files")
+    .update({ ai_summary: summary })
+    .eq("id", mediaFileId);
+
+  if (updateError) {
+    console.error("Error saving media summary:", updateError);
+    throw updateError;
+  }
+
+  return { summary, cached: false };
+}
+
+/**
+ * Project overview rolled up from its document and media summaries,
+ * generating any that are missing. Cached in projects.ai_summary.
+ */
+export async function summarizeProject(projectId: string, force = false): Promise<SummaryResult> {
+  const { data: project, error } = await supabaseAdmin
+    .from("projects")
+    .select("id, name, ai_summary")
+    .eq("id", projectId)
+    .single();
+
+  if (error || !project) throw new Error("Project not found");
+  if (project.ai_summary && !force) return { summary: project.ai_summary, cached: true };
+
+  const [{ data: documents }, { data: mediaFiles }] = await Promise.all([
+    supabaseAdmin.from("documents").select("id, name").eq("project_id", projectId).order("created_at"),
+    supabaseAdmin.from("media_files").select("id, name").eq("project_id", projectId).order("created_at"),
+  ]);
+
+  const parts: string[] = [];
+  for (const doc of documents || []) {
+    const { summary } = await summarizeDocument(doc.id);
+    if (summary) parts.push(`Document "${doc.name}":\n${summary}`);
+  }
+  for (const media of mediaFiles || []) {
+    const { summary } = await summarizeMedia(media.id);
+    if (summary) parts.push(`Recording "${media.name}":\n${summary}`);
+  }
+  if (parts.length === 0) return { summary: null, cached: false };
+
+  // Roll up in batches if the child summaries don't fit in one call
+  const sections = packSections(parts);
+  const rollup = sections.length === 1
+    ? sections[0]
+    : await summarizeSections(sections, `Project: ${project.name}`);
+
+  const summary = await getAIClient().complete([
+    { role: "system", content: PROJECT_PROMPT },
+    { role: "user", content: `Project: ${project.name}\n\n${rollup}` },
+  ]);
+
+  const { error: updateError } = await supabaseAdmin
+    .from("projects")
+    .update({ ai_summary: summary })
+    .eq("id", projectId);
+
+  if (updateError) {
+    console.error("Error saving project summary:", updateError);
+    throw updateError;
+  }
+
+  return { summary, cached: false };
+}
+
+/**
+ * Project a summary target belongs to, for access checks
+ */
+export async function resolveSummaryProject(type: SummaryTarget, id: string): Promise<string | null> {
+  if (type === "project") return id;
+  if (type === "document") return resolveProjectId("document", id);
+
+  const { data } = await supabaseAdmin
+    .from("media_files")
+    .select("project_id")
+    .eq("id", id)
+    .maybeSingle();
+  return data?.project_id ?? null;
+}
@@ -0,0 +1,55 @@
+import type { TextMatch } from "@/lib/ai/types";
+
+/**
+ * Text matching helpers shared by search results and the transcript view.
+ * Pure functions only, safe to import on the client.
+ */
+
+const SNIPPET_RADIUS = 140;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Locate query terms in text. Terms match at word starts and may run on
+ * to the end of the word, so "learn" also highlights "learning".
+ */
+export function findMatches(text: string, query: string): TextMatch[] {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu)?.filter((term) => term.length > 1) || [];
+  if (terms.length === 0) return [];
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})[\\p{L}\\p{N}]*`, "giu");
+  const matches: TextMatch[] = [];
+
+  for (const match of Array.from(text.matchAll(pattern))) {
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return matches;
+}
+
+/**
+ * Cut a window of text around the first query term it contains,
+ * falling back to the start of the text.
+ */
+export function buildSnippet(text: string, query: string, radius = SNIPPET_RADIUS): string {
+  const lower = text.toLowerCase();
+  const terms = query.toLowerCase().split(/\s+/).filter((term) => term.length > 2);
+  const positions = terms.map((term) => lower.indexOf(term)).filter((pos) => pos !== -1);
+  const center = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, center - radius);
+  const end = Math.min(text.length, center + radius);
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * The parts of `matches` that fall inside [start, end), relative to start
+ */
+export function sliceMatches(matches: TextMatch[], start: number, end: number): TextMatch[] {
+  return matches
+    .filter((match) => match.end > start && match.start < end)
+    .map((match) => ({ start: Math.max(match.start, start) - start, end: Math.min(match.end, end) - start }));
+}
@@ -0,0 +1,108 @@
+import { getAIClient, type AIClient } from "@/lib/ai/client";
+import { languageName } from "@/lib/media/languages";
+
+/**
+ * Translation - turns transcript segments into another language, one
+ * output text per input text so timings carry over unchanged.
+ * - "ai" (default): the configured AI client's chat model
+ * - "stub": deterministic local implementation, no network required
+ *
+ * Select with TRANSLATION_PROVIDER, or swap programmatically with
+ * setTranslator().
+ */
+
+export interface TranslationRequest {
+  texts: string[];
+  // Target language code, e.g. "es"
+  target: string;
+  // Source language as reported by transcription, when known
+  source?: string | null;
+}
+
+export interface Translator {
+  translate(request: TranslationRequest): Promise<string[]>;
+}
+
+function parseTranslations(reply: string, expected: number): string[] | null {
+  const json = reply.slice(reply.indexOf("["), reply.lastIndexOf("]") + 1);
+  try {
+    const parsed = JSON.parse(json);
+    if (Array.isArray(parsed) && parsed.length === expected && parsed.every((item) => typeof item === "string")) {
+      return parsed;
+    }
+  } catch (error) {
+    console.error("Unreadable translation reply:", error);
+  }
+  return null;
+}
+
+/**
+ * Texts are sent as a JSON array and must come back as an array of the
+ * same length. A batch that doesn't is retried one text at a time.
+ */
+export function createAITranslator(client: AIClient = getAIClient()): Translator {
+  const request = async (texts: string[], target: string, source?: string | null) => {
+    const reply = await client.complete(
+      [
+        {
+          role: "system",
+          content:
+            `You translate lecture transcript segments${source ? ` from ${source}` : ""} into ${languageName(target)}. ` +
+            "You receive a JSON array of strings. Reply with only a JSON array of the translations, " +
+            "one string per input string and in the same order. Never merge, split or skip segments; " +
+            "keep names, numbers and technical terms accurate.",
+        },
+        { role: "user", content: JSON.stringify(texts) },
+      ],
+      { temperature: 0 }
+    );
+    return parseTranslations(reply, texts.length);
+  };
+
+  return {
+    async translate({ texts, target, source }) {
+      if (texts.length === 0) return [];
+
+      const batch = await request(texts, target, source);
+      if (batch) return batch;
+
+      const translated: string[] = [];
+      for (const text of texts) {
+        const single = await request([text], target, source);
+        if (!single) throw new Error("Translation reply did not match the segments sent");
+        translated.push(single[0]);
+      }
+      return translated;
+    },
+  };
+}
+
+/**
+ * Deterministic translator for tests and offline development: each text
+ * comes back tagged with the target language, e.g. "[es] Hello".
+ */
+export function createStubTranslator(): Translator {
+  return {
+    async translate({ texts, target }) {
+      return texts.map((text) => `[${target}] ${text}`);
+    },
+  };
+}
+
+let activeTranslator: Translator | null = null;
+
+export function getTranslator(): Translator {
+  if (!activeTranslator) {
+    // The stub AI client can't produce translations, so it implies the stub translator
+    const provider = process.env.TRANSLATION_PROVIDER || (process.env.AI_PROVIDER === "stub" ? "stub" : "ai");
+    activeTranslator = provider === "stub" ? createStubTranslator() : createAITranslator();
+  }
+  return activeTranslator;
+}
+
+/**
+ * Override the translator used by server code (pass null to reset)
+ */
+export function setTranslator(translator: Translator | null): void {
+  activeTranslator = translator;
+}
@@ -0,0 +1,89 @@
+// Shared between API routes and client services - keep this file free of
+// server-only imports.
+
+export type EmbeddingContentType = "document" | "transcript" | "annotation";
+
+/**
+ * Context stored in embeddings.metadata for each chunk
+ */
+export interface EmbeddingMetadata {
+  document_id?: string;
+  media_file_id?: string;
+  folder_id?: string | null;
+  name?: string;
+  page_number?: number;
+  // DOCX chunks: index of the paragraph the chunk starts in, counted like
+  // the viewer's paragraphs (docxParagraphs)
+  paragraph_index?: number;
+  start_time?: number;
+  end_time?: number;
+  // Transcript chunks: names of the speakers heard in the chunk
+  speakers?: string[];
+  chunk_index?: number;
+  // When the source was created, used for date filters
+  created_at?: string | null;
+}
+
+export interface SearchFilters {
+  contentTypes?: EmbeddingContentType[];
+  contentId?: string;
+  folderId?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  // Transcript chunks where this speaker (by name, case-insensitive) talks
+  speaker?: string;
+}
+
+export type SearchMode = "semantic" | "hybrid";
+
+export const SEARCH_MODES: SearchMode[] = ["semantic", "hybrid"];
+
+/**
+ * A matched range of characters, end exclusive
+ */
+export interface TextMatch {
+  start: number;
+  end: number;
+}
+
+export interface SegmentMatch {
+  segment_index: number;
+  matches: TextMatch[];
+}
+
+export interface SearchHit {
+  id: string;
+  content_type: EmbeddingContentType;
+  content_id: string;
+  snippet: string;
+  similarity: number;
+  name?: string;
+  document_id?: string;
+  media_file_id?: string;
+  page_number?: number;
+  paragraph_index?: number;
+  media_timestamp?: number;
+  media_end_time?: number;
+  speakers?: string[];
+  // Hybrid search only: fused reciprocal-rank score and keyword positions
+  score?: number;
+  matches?: TextMatch[];
+  segment_matches?: SegmentMatch[];
+}
+
+export interface AskSource extends SearchHit {
+  index: number;
+}
+
+export interface AskResponse {
+  answer: string;
+  sources: AskSource[];
+}
+
+export type SummaryTarget = "document" | "media" | "project";
+
+export interface SummaryResult {
+  // null when there is nothing to summarise yet (no extracted text or transcript)
+  summary: string | null;
+  cached: boolean;
+}
@@ -0,0 +1,112 @@
+import type { Annotation, AnnotationCoordinates, AnnotationRect } from "@/services/annotationService";
+import { boundingBox } from "@/lib/documents/textLayer";
+
+/**
+ * Annotation geometry for the canvas - hit testing, bounds, and moving or
+ * resizing stored coordinates. Everything is in unscaled viewer space.
+ */
+
+export type Point = { x: number; y: number };
+
+// Text notes are drawn at this size, with (x, y) on the baseline
+export const TEXT_SIZE = 16;
+
+const coordinatesOf = (annotation: Annotation) => annotation.coordinates as unknown as AnnotationCoordinates;
+
+export const shiftCoordinates = (coords: AnnotationCoordinates, dx: number, dy: number): AnnotationCoordinates => ({
+  ...coords,
+  x: coords.x + dx,
+  y: coords.y + dy,
+  points: coords.points?.map((point) => ({ x: point.x + dx, y: point.y + dy })),
+  rects: coords.rects?.map((rect) => ({ ...rect, x: rect.x + dx, y: rect.y + dy })),
+});
+
+/**
+ * Stretch coordinates so that `from` (their bounds) becomes `to`. Line rects
+ * and drawing points are stretched with them.
+ */
+export function scaleCoordinates(coords: AnnotationCoordinates, from: AnnotationRect, to: AnnotationRect): AnnotationCoordinates {
+  const fx = from.width ? to.width / from.width : 1;
+  const fy = from.height ? to.height / from.height : 1;
+  const mapX = (x: number) => to.x + (x - from.x) * fx;
+  const mapY = (y: number) => to.y + (y - from.y) * fy;
+
+  return {
+    ...coords,
+    x: mapX(coords.x),
+    y: mapY(coords.y),
+    width: coords.width === undefined ? undefined : coords.width * fx,
+    height: coords.height === undefined ? undefined : coords.height * fy,
+    points: coords.points?.map((point) => ({ x: mapX(point.x), y: mapY(point.y) })),
+    rects: coords.rects?.map((rect) => ({ x: mapX(rect.x), y: mapY(rect.y), width: rect.width * fx, height: rect.height * fy })),
+  };
+}
+
+export function rectBetween(a: Point, b: Point): AnnotationRect {
+  return { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(b.x - a.x), height: Math.abs(b.y - a.y) };
+}
+
+export const intersects = (a: AnnotationRect, b: AnnotationRect) =>
+  a.x <= b.x + b.width && b.x <= a.x + a.width && a.y <= b.y + b.height && b.y <= a.y + a.height;
+
+/**
+ * The box an annotation covers. Rectangles may have been drawn right to
+ * left, so width and height are made positive. `textWidth` measures a text
+ * note at TEXT_SIZE.
+ */
+export function annotationBounds(annotation: Annotation, textWidth: (text: string) => number): AnnotationRect {
+  const coords = coordinatesOf(annotation);
+
+  switch (annotation.annotation_type) {
+    case "drawing":
+      return coords.points?.length ? boundingBox(coords.points.map((point) => ({ ...point, width: 0, height: 0 }))) : { x: coords.x, y: coords.y, width: 0, height: 0 };
+    case "text":
+      return { x: coords.x, y: coords.y - TEXT_SIZE, width: textWidth(annotation.content || ""), height: TEXT_SIZE };
+    default:
+      return rectBetween(coords, { x: coords.x + (coords.width || 0), y: coords.y + (coords.height || 0) });
+  }
+}
+
+export function hitsAnnotation(annotation: Annotation, point: Point): boolean {
+  const c = coordinatesOf(annotation);
+
+  switch (annotation.annotation_type) {
+    case "highlight":
+    case "shape": {
+      const box = rectBetween(c, { x: c.x + (c.width || 0), y: c.y + (c.height || 0) });
+      return point.x >= box.x && point.x <= box.x + box.width && point.y >= box.y && point.y <= box.y + box.height;
+    }
+
+    case "text":
+      // 20px radius around text (unscaled)
+      return Math.hypot(point.x - c.x, point.y - c.y) < 20;
+
+    case "drawing":
+      // Check if click is near any point in the path
+      return !!c.points?.some((p) => Math.hypot(point.x - p.x, point.y - p.y) < 10);
+
+    default:
+      return false;
+  }
+}
+
+// Text highlights follow their quote, so they can't be moved or resized by hand
+export const isPinned = (annotation: Annotation) => !!coordinatesOf(annotation).quote;
+
+export const isResizable = (annotation: Annotation) =>
+  (annotation.annotation_type === "highlight" || annotation.annotation_type === "shape") && !isPinned(annotation);
+
+export type Corner = "nw" | "ne" | "sw" | "se";
+
+export const cornersOf = (box: AnnotationRect): Record<Corner, Point> => ({
+  nw: { x: box.x, y: box.y },
+  ne: { x: box.x + box.width, y: box.y },
+  sw: { x: box.x, y: box.y + box.height },
+  se: { x: box.x + box.width, y: box.y + box.height },
+});
+
+const OPPOSITE: Record<Corner, Corner> = { nw: "se", ne: "sw", sw: "ne", se: "nw" };
+
+// The box after dragging one corner to `point`, the opposite corner staying put
+export const resizeBox = (box: AnnotationRect, corner: Corner, point: Point) =>
+  rectBetween(cornersOf(box)[OPPOSITE[corner]], point);
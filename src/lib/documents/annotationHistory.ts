@@ -0,0 +1,201 @@
+import { annotationService, type Annotation, type UpdateAnnotationData } from "@/services/annotationService";
+import { commentService, type AnnotationComment } from "@/services/commentService";
+
+/**
+ * Annotation undo/redo - a command history per document, kept in
+ * sessionStorage so it survives switching documents and reloads for the
+ * rest of the browser session. Commands hold full rows or before/after
+ * field values, so replaying them writes exactly what was there: deleted
+ * annotations come back with their original ids, timestamps and media links.
+ *
+ * Browser only. Components follow a document's history with
+ * useAnnotationHistory().
+ */
+
+// Comments are deleted with their annotation, so whichever step deletes it
+// snapshots them into `comments` and the opposite step puts them back
+export type AnnotationCommand =
+  | { type: "create"; label: string; annotation: Annotation; comments?: AnnotationComment[] }
+  | { type: "update"; label: string; annotationId: string; before: UpdateAnnotationData; after: UpdateAnnotationData }
+  | { type: "delete"; label: string; annotation: Annotation; comments?: AnnotationComment[] }
+  // Several changes made at once (moving or recolouring a selection), undone as one step
+  | { type: "batch"; label: string; commands: AnnotationCommand[] };
+
+// How commands name an annotation: "Add drawing", "Erase text note"
+export const ANNOTATION_NOUNS: Record<string, string> = {
+  highlight: "highlight",
+  drawing: "drawing",
+  text: "text note",
+  shape: "rectangle",
+};
+
+export const describeCommand = (verb: string, annotation: Pick<Annotation, "annotation_type">) =>
+  `${verb} ${ANNOTATION_NOUNS[annotation.annotation_type] ?? "annotation"}`;
+
+// Delete an annotation, returning the row and the comments that went with it
+async function deleteWithComments(annotationId: string) {
+  const comments = await commentService.getComments(annotationId);
+  const annotation = await annotationService.deleteAnnotation(annotationId);
+  return { annotation, comments };
+}
+
+/**
+ * Delete an annotation and return the command that undoes it, or null if
+ * it was already gone. `verb` names the action, e.g. "Erase".
+ */
+export async function deleteForHistory(annotationId: string, verb: string): Promise<AnnotationCommand | null> {
+  const { annotation, comments } = await deleteWithComments(annotationId);
+  return annotation ? { type: "delete", label: describeCommand(verb, annotation), annotation, comments } : null;
+}
+
+export function commandAnnotationIds(command: AnnotationCommand): string[] {
+  switch (command.type) {
+    case "update":
+      return [command.annotationId];
+    case "batch":
+      return command.commands.flatMap(commandAnnotationIds);
+    default:
+      return [command.annotation.id];
+  }
+}
+
+export interface AnnotationHistory {
+  past: AnnotationCommand[];
+  future: AnnotationCommand[];
+  // Bumped whenever a command is replayed, so views can reload
+  replays: number;
+  isReplaying: boolean;
+}
+
+// Enough for a long session without growing sessionStorage without bound
+const MAX_COMMANDS = 100;
+
+const EMPTY: AnnotationHistory = { past: [], future: [], replays: 0, isReplaying: false };
+
+const histories = new Map<string, AnnotationHistory>();
+const listeners = new Map<string, Set<() => void>>();
+
+const storageKey = (documentId: string) => `annotation-history:${documentId}`;
+
+function load(documentId: string): AnnotationHistory {
+  if (typeof window === "undefined") return EMPTY;
+  try {
+    const stored = window.sessionStorage.getItem(storageKey(documentId));
+    if (stored) {
+      const { past, future } = JSON.parse(stored) as Pick<AnnotationHistory, "past" | "future">;
+      return { ...EMPTY, past, future };
+    }
+  } catch (error) {
+    console.error("Failed to read annotation history:", error);
+  }
+  return EMPTY;
+}
+
+export function getHistory(documentId: string): AnnotationHistory {
+  let history = histories.get(documentId);
+  if (!history) {
+    history = load(documentId);
+    histories.set(documentId, history);
+  }
+  return history;
+}
+
+function setHistory(documentId: string, history: AnnotationHistory) {
+  histories.set(documentId, history);
+  try {
+    window.sessionStorage.setItem(storageKey(documentId), JSON.stringify({ past: history.past, future: history.future }));
+  } catch (error) {
+    // Full or unavailable storage only costs persistence; the history still works
+    console.error("Failed to save annotation history:", error);
+  }
+  listeners.get(documentId)?.forEach((listener) => listener());
+}
+
+export function subscribeToHistory(documentId: string, listener: () => void): () => void {
+  let documentListeners = listeners.get(documentId);
+  if (!documentListeners) {
+    documentListeners = new Set();
+    listeners.set(documentId, documentListeners);
+  }
+  documentListeners.add(listener);
+  return () => {
+    listeners.get(documentId)?.delete(listener);
+  };
+}
+
+/**
+ * Record a change that has just been written. Clears the redo stack, as
+ * in any editor.
+ */
+export function recordCommand(documentId: string, command: AnnotationCommand): void {
+  const history = getHistory(documentId);
+  setHistory(documentId, { ...history, past: [...history.past, command].slice(-MAX_COMMANDS), future: [] });
+}
+
+async function restoreWithComments(annotation: Annotation, comments: AnnotationComment[] = []) {
+  await annotationService.restoreAnnotation(annotation);
+  await commentService.restoreComments(comments);
+}
+
+/**
+ * Replay a command. Returns it with `comments` refreshed wherever the
+ * replay deleted an annotation, so comments added since it was recorded
+ * survive the next replay.
+ */
+async function apply(command: AnnotationCommand, direction: "undo" | "redo"): Promise<AnnotationCommand> {
+  const forward = direction === "redo";
+  switch (command.type) {
+    case "create":
+    case "delete":
+      // Undoing a create deletes, like redoing a delete
+      if (forward === (command.type === "delete")) {
+        const { comments } = await deleteWithComments(command.annotation.id);
+        return { ...command, comments };
+      }
+      await restoreWithComments(command.annotation, command.comments);
+      return command;
+    case "update":
+      await annotationService.updateAnnotation(command.annotationId, forward ? command.after : command.before);
+      return command;
+    case "batch": {
+      const steps = forward ? command.commands : [...command.commands].reverse();
+      const replayed: AnnotationCommand[] = [];
+      for (const step of steps) {
+        replayed.push(await apply(step, direction));
+      }
+      return { ...command, commands: forward ? replayed : replayed.reverse() };
+    }
+  }
+}
+
+/**
+ * Undo or redo the latest command. A command that can't be replayed (say,
+ * the annotation was deleted in another tab) is dropped and the error
+ * rethrown. Calls made while a replay is running are ignored.
+ */
+async function replay(documentId: string, direction: "undo" | "redo"): Promise<AnnotationCommand | null> {
+  const history = getHistory(documentId);
+  const from = direction === "undo" ? history.past : history.future;
+  const command = from[from.length - 1];
+  if (!command || history.isReplaying) return null;
+
+  setHistory(documentId, { ...history, isReplaying: true });
+  const rest = from.slice(0, -1);
+  try {
+    const replayed = await apply(command, direction);
+    const current = getHistory(documentId);
+    setHistory(documentId, direction === "undo"
+      ? { past: rest, future: [...current.future, replayed], replays: current.replays + 1, isReplaying: false }
+      : { past: [...current.past, replayed], future: rest, replays: current.replays + 1, isReplaying: false });
+    return replayed;
+  } catch (error) {
+    const current = getHistory(documentId);
+    setHistory(documentId, direction === "undo"
+      ? { ...current, past: rest, isReplaying: false }
+      : { ...current, future: rest, isReplaying: false });
+    throw error;
+  }
+}
+
+export const undo = (documentId: string) => replay(documentId, "undo");
+export const redo = (documentId: string) => replay(documentId, "redo");
@@ -0,0 +1,148 @@
+import type { TextAnchor } from "@/services/annotationService";
+import { textNodesOf } from "@/lib/documents/textLayer";
+
+/**
+ * DOCX anchoring - maps between points on a rendered DOCX page and
+ * TextAnchors (paragraph index + character offset). Browser only.
+ *
+ * Pages are laid out at a fixed size in unscaled CSS pixels and zoomed
+ * with a transform, so all points here are unscaled page coordinates,
+ * the same space AnnotationCanvas stores coordinates in.
+ */
+
+// US Letter at 96 DPI with 0.75in margins
+export const DOCX_PAGE_WIDTH = 816;
+export const DOCX_PAGE_HEIGHT = 1056;
+export const DOCX_PAGE_MARGIN = 72;
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Resolves anchors against the page currently rendered in the viewer
+ */
+export interface AnnotationAnchoring {
+  // Anchor the given point to the nearest character on the current page
+  createAnchor(point: Point): TextAnchor | null;
+  // Page an anchor falls on, and its origin point when that page is rendered
+  resolveAnchor(anchor: TextAnchor): { pageNumber: number; point: Point | null } | null;
+}
+
+function charRect(node: Text, index: number): DOMRect {
+  const range = document.createRange();
+  range.setStart(node, index);
+  range.setEnd(node, index + 1);
+  return range.getBoundingClientRect();
+}
+
+function toPagePoint(rect: { left: number; top: number }, page: HTMLElement, scale: number): Point {
+  const pageRect = page.getBoundingClientRect();
+  return {
+    x: (rect.left - pageRect.left) / scale,
+    y: (rect.top - pageRect.top) / scale,
+  };
+}
+
+/**
+ * Top-left of character `offset` in a paragraph; falls back to the
+ * paragraph's own corner when the offset is past the end of its text.
+ */
+export function locateOffset(paragraph: HTMLElement, offset: number, page: HTMLElement, scale: number): Point {
+  let remaining = offset;
+  for (const node of textNodesOf(paragraph)) {
+    if (remaining < node.length) {
+      return toPagePoint(charRect(node, remaining), page, scale);
+    }
+    remaining -= node.length;
+  }
+  return toPagePoint(paragraph.getBoundingClientRect(), page, scale);
+}
+
+/**
+ * Character offset in a paragraph closest to a point: first the nearest
+ * line, then the nearest character on that line.
+ */
+export function offsetAtPoint(paragraph: HTMLElement, point: Point, page: HTMLElement, scale: number): number {
+  let best = { offset: 0, lineDistance: Infinity, distance: Infinity };
+  let offset = 0;
+
+  textNodesOf(paragraph).forEach((node) => {
+    for (let i = 0; i < node.length; i++) {
+      const rect = charRect(node, i);
+      if (rect.width === 0 && rect.height === 0) continue;
+
+      const topLeft = toPagePoint(rect, page, scale);
+      const bottom = topLeft.y + rect.height / scale;
+      const right = topLeft.x + rect.width / scale;
+      const lineDistance = point.y < topLeft.y ? topLeft.y - point.y : point.y > bottom ? point.y - bottom : 0;
+      const distance = point.x < topLeft.x ? topLeft.x - point.x : point.x > right ? point.x - right : 0;
+
+      if (lineDistance < best.lineDistance || (lineDistance === best.lineDistance && distance < best.distance)) {
+        best = { offset: offset + i, lineDistance, distance };
+      }
+    }
+    offset += node.length;
+  });
+
+  return best.offset;
+}
+
+/**
+ * Anchoring for a rendered page. `paragraphPages` maps each paragraph
+ * index to the (1-based) page it was laid out on.
+ */
+export function createPageAnchoring(
+  page: HTMLElement,
+  pageNumber: number,
+  paragraphPages: number[],
+  scale: number
+): AnnotationAnchoring {
+  const paragraphElement = (index: number) =>
+    page.querySelector<HTMLElement>(`[data-paragraph="${index}"]`);
+
+  return {
+    createAnchor(point) {
+      const paragraphs = Array.from(page.querySelectorAll<HTMLElement>("[data-paragraph]"));
+      if (paragraphs.length === 0) return null;
+
+      // Paragraph containing the point vertically, else the nearest one
+      let nearest = paragraphs[0];
+      let nearestDistance = Infinity;
+      paragraphs.forEach((element) => {
+        const top = toPagePoint(element.getBoundingClientRect(), page, scale).y;
+        const bottom = top + element.getBoundingClientRect().height / scale;
+        const distance = point.y < top ? top - point.y : point.y > bottom ? point.y - bottom : 0;
+        if (distance < nearestDistance) {
+          nearest = element;
+          nearestDistance = distance;
+        }
+      });
+
+      const offset = offsetAtPoint(nearest, point, page, scale);
+      const origin = locateOffset(nearest, offset, page, scale);
+      return {
+        paragraph: Number(nearest.dataset.paragraph),
+        offset,
+        dx: point.x - origin.x,
+        dy: point.y - origin.y,
+      };
+    },
+
+    resolveAnchor(anchor) {
+      const anchorPage = paragraphPages[anchor.paragraph];
+      if (anchorPage === undefined) return null;
+      if (anchorPage !== pageNumber) return { pageNumber: anchorPage, point: null };
+
+      const element = paragraphElement(anchor.paragraph);
+      if (!element) return { pageNumber: anchorPage, point: null };
+
+      const origin = locateOffset(element, anchor.offset, page, scale);
+      return {
+        pageNumber: anchorPage,
+        point: { x: origin.x + anchor.dx, y: origin.y + anchor.dy },
+      };
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Cleans mammoth's HTML before it is rendered. A DOCX can carry hyperlinks
+ * and images with arbitrary targets, so only the markup mammoth itself
+ * produces is kept, and URLs are limited to safe schemes.
+ *
+ * docxBlockTexts() splits the same HTML without a DOM, so text extraction
+ * numbers paragraphs the way the viewer does.
+ */
+
+// Elements mammoth emits; anything else is unwrapped, keeping its text
+const ALLOWED_TAGS = new Set([
+  "p", "h1", "h2", "h3", "h4", "h5", "h6", "blockquote", "pre", "code",
+  "strong", "b", "em", "i", "u", "s", "sub", "sup", "br", "span",
+  "ul", "ol", "li", "table", "thead", "tbody", "tr", "th", "td",
+  "a", "img",
+]);
+
+// Elements dropped together with their content
+const DROPPED_TAGS = new Set([
+  "script", "style", "iframe", "frame", "object", "embed", "svg", "math",
+  "form", "input", "button", "textarea", "select", "link", "meta", "base", "template",
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+  a: ["href"],
+  img: ["src", "alt"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan"],
+};
+
+// Footnotes and bookmarks link to ids within the document
+const GLOBAL_ATTRIBUTES = ["id"];
+
+const isSafeHref = (value: string) => /^(https?:|mailto:|#)/i.test(value.trim());
+
+// Mammoth inlines embedded images as data URIs; SVG is excluded since it can script
+const isSafeImageSrc = (value: string) => /^data:image\/(png|jpe?g|gif|bmp|webp);/i.test(value.trim());
+
+function sanitizeElement(element: Element) {
+  for (const child of Array.from(element.children)) {
+    const tag = child.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      child.remove();
+      continue;
+    }
+
+    sanitizeElement(child);
+
+    if (!ALLOWED_TAGS.has(tag)) {
+      child.replaceWith(...Array.from(child.childNodes));
+      continue;
+    }
+
+    const allowed = [...GLOBAL_ATTRIBUTES, ...(ALLOWED_ATTRIBUTES[tag] ?? [])];
+    for (const { name, value } of Array.from(child.attributes)) {
+      const keep =
+        allowed.includes(name) &&
+        (name !== "href" || isSafeHref(value)) &&
+        (name !== "src" || isSafeImageSrc(value));
+      if (!keep) child.removeAttribute(name);
+    }
+
+    if (tag === "a" && child.hasAttribute("href") && !child.getAttribute("href")?.startsWith("#")) {
+      child.setAttribute("target", "_blank");
+      child.setAttribute("rel", "noopener noreferrer");
+    }
+  }
+}
+
+/**
+ * Parse mammoth's HTML and return its top-level blocks, sanitized, as HTML
+ * strings
+ */
+export function docxParagraphs(html: string): string[] {
+  const body = new DOMParser().parseFromString(html, "text/html").body;
+  sanitizeElement(body);
+  return Array.from(body.children).map((element) => element.outerHTML);
+}
+
+// Elements with no closing tag
+const VOID_TAGS = new Set(["br", "img", "hr", "wbr"]);
+
+// Elements inside a paragraph; any other tag separates words
+const INLINE_TAGS = new Set(["strong", "b", "em", "i", "u", "s", "sub", "sup", "span", "a", "code"]);
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'", nbsp: " " };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] !== "#") return ENTITIES[name.toLowerCase()] ?? entity;
+    const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+/**
+ * Plain text of each top-level block in mammoth's HTML, in the order
+ * docxParagraphs() returns them. Server safe.
+ */
+export function docxBlockTexts(html: string): string[] {
+  const blocks: string[] = [];
+  let depth = 0;
+  let text = "";
+  let last = 0;
+
+  for (const tag of Array.from(html.matchAll(/<(\/?)([a-z][a-z0-9]*)[^>]*?(\/?)>/gi))) {
+    const index = tag.index ?? 0;
+    if (depth > 0) text += html.slice(last, index);
+    last = index + tag[0].length;
+
+    const [, closing, rawName, selfClosing] = tag;
+    const name = rawName.toLowerCase();
+    const isVoid = !!selfClosing || VOID_TAGS.has(name);
+
+    // A lone top-level element, such as an image, is a block of its own
+    if (depth === 0 && isVoid) {
+      blocks.push("");
+      continue;
+    }
+
+    if (!INLINE_TAGS.has(name)) text += " ";
+    if (isVoid) continue;
+
+    depth = closing ? Math.max(0, depth - 1) : depth + 1;
+    if (depth === 0) {
+      blocks.push(decodeEntities(text).replace(/\s+/g, " ").trim());
+      text = "";
+    }
+  }
+
+  return blocks;
+}
@@ -0,0 +1,124 @@
+import { extractText } from "unpdf";
+import mammoth from "mammoth";
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import { PAGE_BREAK, PARAGRAPH_BREAK } from "@/lib/ai/chunking";
+import { indexDocument } from "@/lib/ai/indexer";
+import { docxBlockTexts } from "@/lib/documents/docxHtml";
+
+/**
+ * Document text extraction - pulls plain text out of uploaded PDFs and
+ * DOCX files so search, summaries and Q&A have something to work with.
+ * PDF pages are stored in documents.extracted_text separated by PAGE_BREAK;
+ * DOCX paragraphs one per line (PARAGRAPH_BREAK).
+ */
+
+export interface ExtractedText {
+  pages: string[];
+  // Null for DOCX files, whose pages depend on how they are laid out
+  pageCount: number | null;
+}
+
+export interface ExtractionResult {
+  documentId: string;
+  status: "completed" | "failed";
+  pageCount?: number | null;
+  error?: string;
+}
+
+// Form feeds inside a page would be read back as page breaks
+const cleanPageText = (text: string) =>
+  text.replace(/\f/g, "\n").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+
+/**
+ * Per-page text from a PDF
+ */
+export async function extractPdfText(data: Uint8Array): Promise<ExtractedText> {
+  const { totalPages, text } = await extractText(data, { mergePages: false });
+  return { pages: text.map(cleanPageText), pageCount: totalPages };
+}
+
+/**
+ * Paragraph text from a DOCX. Word files have no fixed pagination, so the
+ * whole document is one page with a line per paragraph, numbered the same
+ * way as the viewer's paragraphs so search results can point at them.
+ */
+export async function extractDocxText(data: Uint8Array): Promise<ExtractedText> {
+  const { value } = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+  return { pages: [docxBlockTexts(value).join(PARAGRAPH_BREAK)], pageCount: null };
+}
+
+async function setExtractionStatus(
+  documentId: string,
+  status: "processing" | "failed",
+  errorMessage: string | null = null
+) {
+  await supabaseAdmin
+    .from("documents")
+    .update({
+      extraction_status: status,
+      extraction_error: errorMessage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", documentId);
+}
+
+/**
+ * Download a document, extract its text and page count, then re-index it.
+ * Failures are recorded on the document rather than thrown.
+ */
+export async function extractDocument(documentId: string): Promise<ExtractionResult> {
+  try {
+    const { data: doc, error: fetchError } = await supabaseAdmin
+      .from("documents")
+      .select("id, file_type, storage_path")
+      .eq("id", documentId)
+      .single();
+
+    if (fetchError || !doc) {
+      throw new Error("Document not found");
+    }
+
+    await setExtractionStatus(documentId, "processing");
+
+    const { data: fileData, error: downloadError } = await supabaseAdmin.storage
+      .from("documents")
+      .download(doc.storage_path);
+
+    if (downloadError || !fileData) {
+      throw new Error("Failed to download document");
+    }
+
+    const bytes = new Uint8Array(await fileData.arrayBuffer());
+    const { pages, pageCount } = doc.file_type === "pdf"
+      ? await extractPdfText(bytes)
+      : await extractDocxText(bytes);
+
+    const { error: updateError } = await supabaseAdmin
+      .from("documents")
+      .update({
+        extracted_text: pages.join(PAGE_BREAK),
+        page_count: pageCount,
+        extraction_status: "completed",
+        extraction_error: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", documentId);
+
+    if (updateError) {
+      throw updateError;
+    }
+
+    // Indexing is best-effort; the extracted text is already saved
+    try {
+      await indexDocument(documentId);
+    } catch (indexError) {
+      console.error("Failed to index document:", indexError);
+    }
+
+    return { documentId, status: "completed", pageCount };
+  } catch (error: any) {
+    console.error("Extraction error:", error);
+    await setExtractionStatus(documentId, "failed", error.message || "Extraction failed");
+    return { documentId, status: "failed", error: error.message || "Extraction failed" };
+  }
+}
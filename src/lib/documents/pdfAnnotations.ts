@@ -0,0 +1,515 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFString,
+  StandardFonts,
+  drawObject,
+  popGraphicsState,
+  pushGraphicsState,
+  type PDFFont,
+  type PDFObject,
+  type PDFPage,
+  type PDFRef,
+} from "pdf-lib";
+import { formatTimestamp } from "@/lib/media/words";
+import type {
+  Annotation,
+  AnnotationCoordinates,
+  AnnotationRect,
+  CreateAnnotationData,
+} from "@/services/annotationService";
+
+/**
+ * PDF annotations - writes the annotations table back into the PDF, either
+ * as native annotation objects other readers can show and edit (Highlight,
+ * Ink, Square, FreeText) or burned into the page content for printing, and
+ * reads those same kinds of annotation out of PDFs marked up elsewhere.
+ * Runs in the browser and on the server.
+ *
+ * Annotation coordinates are in unscaled viewer space: PDF points from the
+ * top-left of the page as pdf.js shows it, after the page's rotation.
+ */
+
+export interface PdfExportOptions {
+  // Draw the annotations into the page content instead of adding annotation objects
+  flatten?: boolean;
+  // Names of linked media files, by id, for timestamp-linked notes
+  mediaNames?: Record<string, string>;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const DEFAULT_COLOR = "#FFFF00";
+const HIGHLIGHT_OPACITY = 0.3;
+const LINE_WIDTH = 2;
+// Text notes are drawn at 16px in the viewer, with y on the baseline
+const FONT_SIZE = 16;
+const LINE_HEIGHT = FONT_SIZE * 1.2;
+
+// Annotation flag: print the annotation with the page
+const PRINT_FLAG = 4;
+
+/**
+ * Maps viewer coordinates on a page to PDF user space, undoing the crop
+ * box offset, the flipped y axis and the page's /Rotate the way pdf.js's
+ * viewport applies them
+ */
+export function viewerToPdf(page: PDFPage): (point: Point) => Point {
+  const { x, y, width, height } = page.getCropBox();
+  switch (((page.getRotation().angle % 360) + 360) % 360) {
+    case 90:
+      return (p) => ({ x: x + p.y, y: y + p.x });
+    case 180:
+      return (p) => ({ x: x + width - p.x, y: y + p.y });
+    case 270:
+      return (p) => ({ x: x + width - p.y, y: y + height - p.x });
+    default:
+      return (p) => ({ x: x + p.x, y: y + height - p.y });
+  }
+}
+
+function parseColor(color: string | null): [number, number, number] {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(color || "")?.[1] ?? DEFAULT_COLOR.slice(1);
+  const value = parseInt(hex, 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => channel / 255) as [number, number, number];
+}
+
+const num = (value: number) => Number(value.toFixed(3)).toString();
+
+// Highlights and shapes can be dragged in any direction, so widths may be negative
+function normalizeRect({ x, y, width, height }: AnnotationRect): AnnotationRect {
+  return {
+    x: Math.min(x, x + width),
+    y: Math.min(y, y + height),
+    width: Math.abs(width),
+    height: Math.abs(height),
+  };
+}
+
+function rectCorners(rect: AnnotationRect, toPdf: (point: Point) => Point) {
+  const { x, y, width, height } = normalizeRect(rect);
+  return {
+    topLeft: toPdf({ x, y }),
+    topRight: toPdf({ x: x + width, y }),
+    bottomLeft: toPdf({ x, y: y + height }),
+    bottomRight: toPdf({ x: x + width, y: y + height }),
+  };
+}
+
+function bounds(points: Point[], padding = 0): [number, number, number, number] {
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  return [Math.min(...xs) - padding, Math.min(...ys) - padding, Math.max(...xs) + padding, Math.max(...ys) + padding];
+}
+
+/**
+ * The annotation's note, quote and linked media time, as shown in other
+ * readers' comment panes
+ */
+export function annotationContents(annotation: Annotation, mediaNames: Record<string, string> = {}): string {
+  const coords = annotation.coordinates as unknown as AnnotationCoordinates;
+  const parts = [annotation.content || coords.quote || ""];
+  if (annotation.media_timestamp !== null) {
+    const media = annotation.media_file_id ? mediaNames[annotation.media_file_id] : undefined;
+    parts.push(`Media time ${formatTimestamp(annotation.media_timestamp)}${media ? ` (${media})` : ""}`);
+  }
+  return parts.filter(Boolean).join("\n");
+}
+
+// Characters the standard Helvetica font can't encode (not in `supported`,
+// its character set) are replaced
+function encodable(supported: Set<number>, text: string): string {
+  return Array.from(text)
+    .map((char) => {
+      const code = char.codePointAt(0);
+      return code !== undefined && supported.has(code) ? char : "?";
+    })
+    .join("");
+}
+
+/**
+ * Wrap the page's existing content streams in q/Q, so a transform or
+ * colour they leave set can't shift or recolour annotations drawn after
+ * them when flattening
+ */
+function isolatePageContent(page: PDFPage) {
+  const { context } = page.doc;
+  page.node.normalize();
+  page.node.wrapContentStreams(context.getPushGraphicsStateContentStream(), context.getPopGraphicsStateContentStream());
+}
+
+// Values pdf-lib's context.obj() turns into PDF objects; plain strings become names
+type PdfLiteral = string | number | PDFObject | PdfLiteral[] | { [key: string]: PdfLiteral };
+
+interface Appearance {
+  // Page-space bounding box of the drawing
+  rect: [number, number, number, number];
+  operators: string;
+  // Extra annotation dictionary entries for the native annotation
+  entries: Record<string, PdfLiteral>;
+}
+
+/**
+ * The drawing operators and native annotation entries for one annotation,
+ * or null when it has nothing to draw
+ */
+function buildAppearance(
+  annotation: Annotation,
+  toPdf: (point: Point) => Point,
+  font: PDFFont,
+  charset: Set<number>,
+  contents: string
+): Appearance | null {
+  const coords = annotation.coordinates as unknown as AnnotationCoordinates;
+  const [r, g, b] = parseColor(annotation.color);
+  const fill = `${num(r)} ${num(g)} ${num(b)} rg`;
+  const stroke = `${num(r)} ${num(g)} ${num(b)} RG`;
+
+  switch (annotation.annotation_type) {
+    case "highlight": {
+      const rects = coords.rects?.length ? coords.rects : [{ x: coords.x, y: coords.y, width: coords.width || 0, height: coords.height || 0 }];
+      const quads = rects.map((rect) => rectCorners(rect, toPdf));
+      const points = quads.flatMap((quad) => [quad.topLeft, quad.topRight, quad.bottomLeft, quad.bottomRight]);
+      if (points.length === 0) return null;
+
+      return {
+        rect: bounds(points),
+        operators: [
+          "/GS0 gs",
+          fill,
+          ...quads.map(({ topLeft, topRight, bottomRight, bottomLeft }) =>
+            `${num(topLeft.x)} ${num(topLeft.y)} m ${num(topRight.x)} ${num(topRight.y)} l ${num(bottomRight.x)} ${num(bottomRight.y)} l ${num(bottomLeft.x)} ${num(bottomLeft.y)} l h f`
+          ),
+        ].join("\n"),
+        entries: {
+          Subtype: "Highlight",
+          // Top-left, top-right, bottom-left, bottom-right per line, as Acrobat writes them
+          QuadPoints: points.flatMap((point) => [point.x, point.y]),
+        },
+      };
+    }
+
+    case "drawing": {
+      const points = (coords.points || []).map(toPdf);
+      if (points.length < 2) return null;
+
+      return {
+        rect: bounds(points, LINE_WIDTH),
+        operators: [
+          stroke,
+          `${LINE_WIDTH} w 1 J 1 j`,
+          `${num(points[0].x)} ${num(points[0].y)} m`,
+          ...points.slice(1).map((point) => `${num(point.x)} ${num(point.y)} l`),
+          "S",
+        ].join("\n"),
+        entries: {
+          Subtype: "Ink",
+          InkList: [points.flatMap((point) => [point.x, point.y])],
+          BS: { W: LINE_WIDTH },
+        },
+      };
+    }
+
+    case "shape": {
+      const { topLeft, topRight, bottomLeft, bottomRight } = rectCorners(
+        { x: coords.x, y: coords.y, width: coords.width || 0, height: coords.height || 0 },
+        toPdf
+      );
+      const corners = [topLeft, topRight, bottomRight, bottomLeft];
+      const [x1, y1, x2, y2] = bounds(corners);
+
+      return {
+        rect: bounds(corners, LINE_WIDTH / 2),
+        operators: [stroke, `${LINE_WIDTH} w`, `${num(x1)} ${num(y1)} ${num(x2 - x1)} ${num(y2 - y1)} re S`].join("\n"),
+        entries: {
+          Subtype: "Square",
+          BS: { W: LINE_WIDTH },
+        },
+      };
+    }
+
+    case "text": {
+      const lines = contents.split("\n").map((line) => encodable(charset, line));
+      if (!lines.some((line) => line.trim())) return null;
+
+      // Text runs along the page as the viewer shows it; rotated pages get
+      // the note's anchor point only
+      const origin = toPdf({ x: coords.x, y: coords.y });
+      const width = Math.max(...lines.map((line) => font.widthOfTextAtSize(line, FONT_SIZE)));
+      const rect: [number, number, number, number] = [
+        origin.x,
+        origin.y - LINE_HEIGHT * (lines.length - 1) - FONT_SIZE * 0.3,
+        origin.x + width + 2,
+        origin.y + FONT_SIZE,
+      ];
+
+      return {
+        rect,
+        operators: [
+          "BT",
+          `/Helv ${FONT_SIZE} Tf`,
+          fill,
+          `${LINE_HEIGHT} TL`,
+          `${num(origin.x)} ${num(origin.y)} Td`,
+          ...lines.map((line, i) => `${i > 0 ? "T* " : ""}${font.encodeText(line).toString()} Tj`),
+          "ET",
+        ].join("\n"),
+        entries: {
+          Subtype: "FreeText",
+          DA: PDFString.of(`/Helv ${FONT_SIZE} Tf ${fill}`),
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * A copy of the PDF with `annotations` written into it. Annotations on
+ * pages the PDF doesn't have are skipped.
+ */
+export async function exportAnnotatedPdf(
+  pdfBytes: ArrayBuffer | Uint8Array,
+  annotations: Annotation[],
+  { flatten = false, mediaNames = {} }: PdfExportOptions = {}
+): Promise<Uint8Array> {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  const pages = pdf.getPages();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const charset = new Set(font.getCharacterSet());
+  const context = pdf.context;
+  const highlightState = context.register(
+    context.obj({ Type: "ExtGState", ca: HIGHLIGHT_OPACITY, CA: HIGHLIGHT_OPACITY, BM: "Multiply" })
+  );
+
+  // Pages whose own content has been wrapped, when flattening
+  const isolated = new Set<PDFPage>();
+
+  for (const annotation of annotations) {
+    const page = pages[annotation.page_number - 1];
+    if (!page) continue;
+
+    const contents = annotationContents(annotation, mediaNames);
+    const appearance = buildAppearance(annotation, viewerToPdf(page), font, charset, contents);
+    if (!appearance) continue;
+
+    // Drawn in page space: the form's bounding box is the annotation rect,
+    // so no matrix is needed either as an appearance or when flattened
+    const form: PDFRef = context.register(
+      context.flateStream(appearance.operators, {
+        Type: "XObject",
+        Subtype: "Form",
+        BBox: appearance.rect,
+        Resources: {
+          ExtGState: { GS0: highlightState },
+          Font: { Helv: font.ref },
+        },
+      })
+    );
+
+    if (flatten) {
+      if (!isolated.has(page)) {
+        isolatePageContent(page);
+        isolated.add(page);
+      }
+      const name = page.node.newXObject("Annot", form);
+      page.pushOperators(pushGraphicsState(), drawObject(name), popGraphicsState());
+      continue;
+    }
+
+    const [r, g, b] = parseColor(annotation.color);
+    const modified = PDFString.fromDate(new Date(annotation.updated_at || annotation.created_at || Date.now()));
+    const annot = context.obj({
+      Type: "Annot",
+      ...appearance.entries,
+      Rect: appearance.rect,
+      C: [r, g, b],
+      F: PRINT_FLAG,
+      // The annotation's id, so a re-imported copy can be matched up
+      NM: PDFHexString.fromText(annotation.id),
+      M: modified,
+      CreationDate: PDFString.fromDate(new Date(annotation.created_at || Date.now())),
+      AP: { N: form },
+    });
+    if (contents) annot.set(PDFName.of("Contents"), PDFHexString.fromText(contents));
+    page.node.addAnnot(context.register(annot));
+  }
+
+  return pdf.save();
+}
+
+// An annotation read from a PDF, ready to be saved against a document
+export type ImportedAnnotation = Omit<CreateAnnotationData, "document_id">;
+
+// Annotation flag: hidden in every reader
+const HIDDEN_FLAG = 2;
+
+/**
+ * The inverse of viewerToPdf: PDF user space to viewer coordinates
+ */
+export function pdfToViewer(page: PDFPage): (point: Point) => Point {
+  const { x, y, width, height } = page.getCropBox();
+  switch (((page.getRotation().angle % 360) + 360) % 360) {
+    case 90:
+      return (p) => ({ x: p.y - y, y: p.x - x });
+    case 180:
+      return (p) => ({ x: x + width - p.x, y: p.y - y });
+    case 270:
+      return (p) => ({ x: y + height - p.y, y: x + width - p.x });
+    default:
+      return (p) => ({ x: p.x - x, y: y + height - p.y });
+  }
+}
+
+// Items of an array with indirect references resolved
+const itemsOf = (array: PDFArray) => Array.from({ length: array.size() }, (_, i) => array.lookup(i));
+
+// Numbers in an array, resolving indirect references and skipping anything else
+function numbersOf(array: PDFArray | undefined): number[] {
+  if (!array) return [];
+  return itemsOf(array)
+    .filter((item): item is PDFNumber => item instanceof PDFNumber)
+    .map((item) => item.asNumber());
+}
+
+function lookupArray(dict: PDFDict, key: string): PDFArray | undefined {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFArray ? value : undefined;
+}
+
+function lookupText(dict: PDFDict, key: string): string {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText().trim() : "";
+}
+
+function pointsOf(values: number[]): Point[] {
+  const points: Point[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) points.push({ x: values[i], y: values[i + 1] });
+  return points;
+}
+
+// Colors are gray, RGB or CMYK component arrays
+function colorOf(dict: PDFDict): string {
+  const components = numbersOf(lookupArray(dict, "C"));
+  let rgb: number[];
+  if (components.length === 1) rgb = [components[0], components[0], components[0]];
+  else if (components.length === 3) rgb = components;
+  else if (components.length === 4) rgb = components.slice(0, 3).map((c) => (1 - c) * (1 - components[3]));
+  else return DEFAULT_COLOR;
+
+  return `#${rgb.map((c) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, "0")).join("").toUpperCase()}`;
+}
+
+function boundingBox(points: Point[]): AnnotationRect {
+  const [x1, y1, x2, y2] = bounds(points);
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+// Rich text (RC) is XHTML; readers that only write it still need a plain note
+function plainText(dict: PDFDict): string {
+  return lookupText(dict, "Contents") || lookupText(dict, "RC").replace(/<[^>]*>/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Convert one PDF annotation dictionary into annotation rows (an ink
+ * annotation with several strokes gives one drawing per stroke)
+ */
+function convertAnnotation(dict: PDFDict, toViewer: (point: Point) => Point): Omit<ImportedAnnotation, "page_number">[] {
+  const subtype = dict.lookup(PDFName.of("Subtype"));
+  const flags = dict.lookup(PDFName.of("F"));
+  if (!(subtype instanceof PDFName)) return [];
+  if (flags instanceof PDFNumber && flags.asNumber() & HIDDEN_FLAG) return [];
+
+  const color = colorOf(dict);
+  const content = plainText(dict) || undefined;
+  const rectCorners = pointsOf(numbersOf(lookupArray(dict, "Rect"))).map(toViewer);
+
+  switch (subtype.asString()) {
+    case "/Highlight": {
+      // Each quad is four corners of one highlighted line
+      const quads = pointsOf(numbersOf(lookupArray(dict, "QuadPoints"))).map(toViewer);
+      const rects: AnnotationRect[] = [];
+      for (let i = 0; i + 3 < quads.length; i += 4) rects.push(boundingBox(quads.slice(i, i + 4)));
+      if (rects.length === 0 && rectCorners.length === 2) rects.push(boundingBox(rectCorners));
+      if (rects.length === 0) return [];
+
+      const box = boundingBox(rects.flatMap((rect) => [{ x: rect.x, y: rect.y }, { x: rect.x + rect.width, y: rect.y + rect.height }]));
+      return [{ annotation_type: "highlight", coordinates: { ...box, rects }, color, content }];
+    }
+
+    case "/Ink": {
+      const strokes = lookupArray(dict, "InkList");
+      if (!strokes) return [];
+      return itemsOf(strokes)
+        .filter((stroke): stroke is PDFArray => stroke instanceof PDFArray)
+        .map((stroke) => pointsOf(numbersOf(stroke)).map(toViewer))
+        .filter((points) => points.length > 1)
+        .map((points) => ({
+          annotation_type: "drawing" as const,
+          coordinates: { x: points[0].x, y: points[0].y, points },
+          color,
+          content,
+        }));
+    }
+
+    case "/Square": {
+      if (rectCorners.length < 2) return [];
+      // The border (BS, or the older Border array) is drawn inside Rect
+      const style = dict.lookup(PDFName.of("BS"));
+      const styleWidth = style instanceof PDFDict ? style.lookup(PDFName.of("W")) : undefined;
+      const border = styleWidth instanceof PDFNumber ? styleWidth.asNumber() : numbersOf(lookupArray(dict, "Border"))[2] ?? 1;
+      const box = boundingBox(rectCorners);
+      const inset = Math.min(border / 2, box.width / 2, box.height / 2);
+      return [{
+        annotation_type: "shape",
+        coordinates: { x: box.x + inset, y: box.y + inset, width: box.width - inset * 2, height: box.height - inset * 2 },
+        color,
+        content,
+      }];
+    }
+
+    case "/FreeText": {
+      if (rectCorners.length < 2 || !content) return [];
+      // Text notes are positioned by their first baseline
+      const box = boundingBox(rectCorners);
+      return [{
+        annotation_type: "text",
+        coordinates: { x: box.x, y: box.y + Math.min(FONT_SIZE, box.height) },
+        color,
+        content,
+      }];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Highlights, ink, squares and free text annotations in a PDF, converted to
+ * annotation rows in viewer coordinates. Other kinds (links, stamps,
+ * popups, form fields) are skipped.
+ */
+export async function readPdfAnnotations(pdfBytes: ArrayBuffer | Uint8Array): Promise<ImportedAnnotation[]> {
+  const pdf = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+  return pdf.getPages().flatMap((page, index) => {
+    const annots = page.node.Annots();
+    if (!annots) return [];
+
+    const toViewer = pdfToViewer(page);
+    return itemsOf(annots)
+      .filter((annot): annot is PDFDict => annot instanceof PDFDict)
+      .flatMap((annot) => convertAnnotation(annot, toViewer))
+      .map((annotation) => ({ ...annotation, page_number: index + 1 }));
+  });
+}
@@ -0,0 +1,152 @@
+import type { AnnotationRect } from "@/services/annotationService";
+
+/**
+ * Text layer helpers - turn a text selection on a rendered page into a
+ * quote, character range and per-line rects, and find that quote again
+ * after re-rendering. Browser only.
+ *
+ * Character offsets index into the concatenated text nodes of the text
+ * root (react-pdf's text layer, or a rendered DOCX page). Rects are in
+ * unscaled coordinates relative to `origin`, the annotation canvas.
+ */
+
+export interface TextSelectionTarget {
+  quote: string;
+  textRange: { start: number; end: number };
+  rects: AnnotationRect[];
+}
+
+export function textNodesOf(element: HTMLElement): Text[] {
+  const walker = document.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+  return nodes;
+}
+
+export function textOf(root: HTMLElement): string {
+  return textNodesOf(root).map((node) => node.data).join("");
+}
+
+// Character offset of a DOM boundary point within root
+function offsetOf(root: HTMLElement, container: Node, offset: number): number {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(container, offset);
+  return range.toString().length;
+}
+
+export function rangeFromOffsets(root: HTMLElement, start: number, end: number): Range | null {
+  const range = document.createRange();
+  let position = 0;
+  let started = false;
+
+  for (const node of textNodesOf(root)) {
+    const nodeEnd = position + node.length;
+    if (!started && start < nodeEnd) {
+      range.setStart(node, start - position);
+      started = true;
+    }
+    if (started && end <= nodeEnd) {
+      range.setEnd(node, end - position);
+      return range;
+    }
+    position = nodeEnd;
+  }
+
+  return null;
+}
+
+/**
+ * One rect per line of a range: client rects on the same line are merged
+ */
+export function lineRects(range: Range, origin: HTMLElement, scale: number): AnnotationRect[] {
+  const originRect = origin.getBoundingClientRect();
+  const lines: AnnotationRect[] = [];
+
+  Array.from(range.getClientRects())
+    .filter((rect) => rect.width > 0 && rect.height > 0)
+    .map((rect) => ({
+      x: (rect.left - originRect.left) / scale,
+      y: (rect.top - originRect.top) / scale,
+      width: rect.width / scale,
+      height: rect.height / scale,
+    }))
+    .forEach((rect) => {
+      const centre = rect.y + rect.height / 2;
+      const line = lines.find((existing) => centre >= existing.y && centre <= existing.y + existing.height);
+      if (!line) {
+        lines.push(rect);
+        return;
+      }
+      const right = Math.max(line.x + line.width, rect.x + rect.width);
+      const bottom = Math.max(line.y + line.height, rect.y + rect.height);
+      line.x = Math.min(line.x, rect.x);
+      line.y = Math.min(line.y, rect.y);
+      line.width = right - line.x;
+      line.height = bottom - line.y;
+    });
+
+  return lines;
+}
+
+export function boundingBox(rects: AnnotationRect[]): AnnotationRect {
+  const left = Math.min(...rects.map((rect) => rect.x));
+  const top = Math.min(...rects.map((rect) => rect.y));
+  const right = Math.max(...rects.map((rect) => rect.x + rect.width));
+  const bottom = Math.max(...rects.map((rect) => rect.y + rect.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+/**
+ * The current selection as a highlight target, or null if it is empty or
+ * not entirely inside the text root
+ */
+export function selectionTarget(
+  selection: Selection | null,
+  root: HTMLElement,
+  origin: HTMLElement,
+  scale: number
+): TextSelectionTarget | null {
+  if (!selection || selection.isCollapsed || selection.rangeCount === 0) return null;
+
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+
+  const text = textOf(root);
+  let start = offsetOf(root, range.startContainer, range.startOffset);
+  let end = offsetOf(root, range.endContainer, range.endOffset);
+
+  // Drop surrounding whitespace so the quote matches what the user sees
+  while (start < end && /\s/.test(text[start])) start++;
+  while (end > start && /\s/.test(text[end - 1])) end--;
+  if (start === end) return null;
+
+  const trimmed = rangeFromOffsets(root, start, end);
+  const rects = trimmed ? lineRects(trimmed, origin, scale) : [];
+  if (rects.length === 0) return null;
+
+  return { quote: text.slice(start, end), textRange: { start, end }, rects };
+}
+
+/**
+ * Find a quote in the text root again. Returns the stored range if it
+ * still holds the quote, otherwise the occurrence nearest to it, or null
+ * if the quote no longer appears on the page.
+ */
+export function reanchorQuote(
+  root: HTMLElement,
+  quote: string,
+  textRange: { start: number; end: number }
+): { start: number; end: number } | null {
+  const text = textOf(root);
+  if (text.slice(textRange.start, textRange.end) === quote) return textRange;
+
+  let best: number | null = null;
+  for (let index = text.indexOf(quote); index !== -1; index = text.indexOf(quote, index + 1)) {
+    if (best === null || Math.abs(index - textRange.start) < Math.abs(best - textRange.start)) {
+      best = index;
+    }
+  }
+
+  return best === null ? null : { start: best, end: best + quote.length };
+}
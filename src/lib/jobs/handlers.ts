@@ -0,0 +1,56 @@
+import { indexContent, indexProject } from "@/lib/ai/indexer";
+import { summarizeDocument, summarizeMedia, summarizeProject } from "@/lib/ai/summarize";
+import { extractDocument } from "@/lib/documents/extract";
+import { transcribeMedia } from "@/lib/media/transcribe";
+import { translateTranscript } from "@/lib/media/translate";
+import type { Job, JobPayloads, JobType } from "@/lib/jobs/types";
+
+/**
+ * What each job type does. Handlers throw to fail the attempt (the queue
+ * retries it) and return the job's result on success.
+ */
+
+export interface JobContext {
+  job: Job;
+  // Record progress (0-100); throws JobCancelledError once cancellation is requested
+  progress: (percent: number) => Promise<void>;
+}
+
+export type JobHandler<T extends JobType> = (payload: JobPayloads[T], context: JobContext) => Promise<unknown>;
+
+export const jobHandlers: { [T in JobType]: JobHandler<T> } = {
+  async transcribe({ transcriptId, language, prompt }, { progress }) {
+    const result = await transcribeMedia(transcriptId, { onProgress: progress, language, prompt });
+    if (result.status === "failed") throw new Error(result.error);
+    return result;
+  },
+
+  async extract({ documentId }) {
+    const result = await extractDocument(documentId);
+    if (result.status === "failed") throw new Error(result.error);
+    return result;
+  },
+
+  async embed({ contentType, contentId, projectId, incremental }) {
+    if (contentType && contentId) return [await indexContent(contentType, contentId, { incremental })];
+    if (!projectId) throw new Error("Embed job needs a content id or a project id");
+    return indexProject(projectId);
+  },
+
+  async summarize({ type, id, force = false }) {
+    switch (type) {
+      case "document":
+        return summarizeDocument(id, force);
+      case "media":
+        return summarizeMedia(id, force);
+      default:
+        return summarizeProject(id, force);
+    }
+  },
+
+  async translate({ transcriptId, language }, { progress }) {
+    const result = await translateTranscript(transcriptId, language, { onProgress: progress });
+    if (result.status === "failed") throw new Error(result.error);
+    return result;
+  },
+};
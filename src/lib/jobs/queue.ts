@@ -0,0 +1,416 @@
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import type { Json } from "@/integrations/supabase/database.types";
+import { resolveProjectId } from "@/lib/ai/indexer";
+import { resolveSummaryProject } from "@/lib/ai/summarize";
+import type { EmbeddingContentType, SummaryTarget } from "@/lib/ai/types";
+import type { Job, JobPayloads, JobType } from "@/lib/jobs/types";
+import { MAX_PROMPT_CHARS } from "@/lib/media/glossary";
+import { isTranslationLanguage } from "@/lib/media/languages";
+
+/**
+ * Job queue - durable background work stored in the jobs table. API
+ * routes enqueue and cancel; the worker (src/worker) claims, runs and
+ * settles jobs. Server only.
+ */
+
+// Retry delays double from 30 seconds, up to 30 minutes
+const BASE_RETRY_DELAY = 30 * 1000;
+const MAX_RETRY_DELAY = 30 * 60 * 1000;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Job cancelled");
+    this.name = "JobCancelledError";
+  }
+}
+
+// The job was reclaimed from this worker after its heartbeat went stale
+export class JobLockLostError extends Error {
+  constructor() {
+    super("Job lock lost");
+    this.name = "JobLockLostError";
+  }
+}
+
+export interface JobTarget {
+  projectId: string;
+  targetId: string | null;
+}
+
+// Payloads are part of the active-job unique indexes, so they stay small
+const MAX_ID_LENGTH = 64;
+const MAX_LANGUAGE_LENGTH = 16;
+
+const JOB_PAYLOAD_KEYS: Record<JobType, string[]> = {
+  transcribe: ["transcriptId", "language", "prompt"],
+  extract: ["documentId"],
+  embed: ["contentType", "contentId", "projectId", "incremental"],
+  summarize: ["type", "id", "force"],
+  translate: ["transcriptId", "language"],
+};
+
+const EMBED_CONTENT_TYPES: EmbeddingContentType[] = ["document", "transcript", "annotation"];
+const SUMMARY_TARGETS: SummaryTarget[] = ["document", "media", "project"];
+
+const isId = (value: unknown): value is string =>
+  typeof value === "string" && value.length > 0 && value.length <= MAX_ID_LENGTH;
+
+const isText = (value: unknown, maxLength: number): value is string =>
+  typeof value === "string" && value.length <= maxLength;
+
+/**
+ * A job payload built from a request body, or null if it has keys the type
+ * doesn't take or values of the wrong type or length. Duplicate jobs are
+ * found by comparing whole payloads, so nothing else may be stored.
+ */
+export function parseJobPayload<T extends JobType>(type: T, input: unknown): JobPayloads[T] | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+
+  const fields = input as Record<string, unknown>;
+  if (Object.keys(fields).some((key) => !JOB_PAYLOAD_KEYS[type].includes(key))) return null;
+
+  // Optional fields are left out rather than stored as null
+  const optional = <K extends string, V>(key: K, value: V | undefined) =>
+    (value === undefined ? {} : { [key]: value }) as Partial<Record<K, V>>;
+
+  switch (type) {
+    case "transcribe": {
+      const { transcriptId, language, prompt } = fields;
+      if (!isId(transcriptId)) return null;
+      if (language !== undefined && !isText(language, MAX_LANGUAGE_LENGTH)) return null;
+      if (prompt !== undefined && !isText(prompt, MAX_PROMPT_CHARS)) return null;
+      return {
+        transcriptId,
+        ...optional("language", language as string | undefined),
+        ...optional("prompt", prompt as string | undefined),
+      } as JobPayloads[T];
+    }
+    case "extract": {
+      const { documentId } = fields;
+      return isId(documentId) ? ({ documentId } as JobPayloads[T]) : null;
+    }
+    case "embed": {
+      const { contentType, contentId, projectId, incremental } = fields;
+      if (contentType !== undefined && !EMBED_CONTENT_TYPES.includes(contentType as EmbeddingContentType)) return null;
+      if (contentId !== undefined && !isId(contentId)) return null;
+      if (projectId !== undefined && !isId(projectId)) return null;
+      if (incremental !== undefined && typeof incremental !== "boolean") return null;
+      return {
+        ...optional("contentType", contentType as EmbeddingContentType | undefined),
+        ...optional("contentId", contentId as string | undefined),
+        ...optional("projectId", projectId as string | undefined),
+        ...optional("incremental", incremental as boolean | undefined),
+      } as JobPayloads[T];
+    }
+    case "summarize": {
+      const { type: target, id, force } = fields;
+      if (!SUMMARY_TARGETS.includes(target as SummaryTarget) || !isId(id)) return null;
+      if (force !== undefined && typeof force !== "boolean") return null;
+      return { type: target, id, ...optional("force", force as boolean | undefined) } as JobPayloads[T];
+    }
+    case "translate": {
+      const { transcriptId, language } = fields;
+      if (!isId(transcriptId) || !isTranslationLanguage(language)) return null;
+      return { transcriptId, language } as JobPayloads[T];
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Project and row a job's payload refers to, or null if they don't exist
+ */
+export async function resolveJobTarget<T extends JobType>(type: T, payload: JobPayloads[T]): Promise<JobTarget | null> {
+  const withProject = (projectId: string | null, targetId: string) =>
+    projectId ? { projectId, targetId } : null;
+
+  switch (type) {
+    case "transcribe": {
+      const { transcriptId } = payload as JobPayloads["transcribe"];
+      return withProject(await resolveProjectId("transcript", transcriptId), transcriptId);
+    }
+    case "extract": {
+      const { documentId } = payload as JobPayloads["extract"];
+      return withProject(await resolveProjectId("document", documentId), documentId);
+    }
+    case "embed": {
+      const { contentType, contentId, projectId } = payload as JobPayloads["embed"];
+      if (contentType && contentId) return withProject(await resolveProjectId(contentType, contentId), contentId);
+      return projectId ? { projectId, targetId: projectId } : null;
+    }
+    case "summarize": {
+      const { type: target, id } = payload as JobPayloads["summarize"];
+      return withProject(await resolveSummaryProject(target, id), id);
+    }
+    case "translate": {
+      const { transcriptId, language } = payload as JobPayloads["translate"];
+      // An unsupported language has nothing to run against
+      if (!isTranslationLanguage(language)) return null;
+      return withProject(await resolveProjectId("transcript", transcriptId), transcriptId);
+    }
+    default:
+      return null;
+  }
+}
+
+// Postgres unique_violation, raised by the active-job indexes on duplicates
+const UNIQUE_VIOLATION = "23505";
+
+/**
+ * The unfinished job with exactly this type and payload, if any. Mirrors
+ * the jobs_active_unique_idx and jobs_queued_embed_unique_idx indexes.
+ */
+async function findActiveDuplicate(type: JobType, projectId: string, payload: unknown): Promise<Job | null> {
+  let query = supabaseAdmin
+    .from("jobs")
+    .select("*")
+    .eq("type", type)
+    .eq("project_id", projectId)
+    .eq("payload", JSON.stringify(payload))
+    .eq("cancel_requested", false);
+
+  query = type === "embed" ? query.eq("status", "queued").eq("attempts", 0) : query.in("status", ["queued", "running"]);
+
+  const { data, error } = await query.limit(1).maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Queue a job. An identical job that hasn't finished yet is returned
+ * instead, so repeated requests don't pile up. Embedding jobs only reuse
+ * queued ones that haven't run: a running one may already have read the
+ * old content. The database enforces this, so concurrent requests can't
+ * both insert.
+ */
+export async function enqueueJob<T extends JobType>(
+  userId: string,
+  type: T,
+  payload: JobPayloads[T],
+  target: JobTarget
+): Promise<Job> {
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .insert({
+      user_id: userId,
+      project_id: target.projectId,
+      target_id: target.targetId,
+      type,
+      payload: payload as unknown as Json,
+    })
+    .select()
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const existing = await findActiveDuplicate(type, target.projectId, payload);
+    if (existing) return existing;
+  }
+
+  if (error) {
+    console.error("Error enqueuing job:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Whether a job of this type for a row is queued or running. Jobs waiting
+ * to retry count, since they are queued again.
+ */
+export async function hasActiveJob(type: JobType, targetId: string): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from("jobs")
+    .select("id", { count: "exact", head: true })
+    .eq("type", type)
+    .eq("target_id", targetId)
+    .in("status", ["queued", "running"]);
+
+  if (error) {
+    console.error("Error checking for active jobs:", error);
+    throw error;
+  }
+
+  return !!count;
+}
+
+/**
+ * Claim the next runnable job, including ones abandoned by a dead worker
+ */
+export async function claimJob(workerId: string): Promise<Job | null> {
+  const { data, error } = await supabaseAdmin.rpc("claim_job", { worker_id: workerId });
+
+  if (error) {
+    console.error("Error claiming job:", error);
+    throw error;
+  }
+
+  return data?.[0] ?? null;
+}
+
+/**
+ * Refresh a running job's lock. Returns whether cancellation was requested;
+ * throws JobLockLostError if another worker has since claimed the job.
+ */
+export async function heartbeatJob(jobId: string, workerId: string, progress?: number): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .update({
+      heartbeat_at: new Date().toISOString(),
+      ...(progress !== undefined && { progress: Math.max(0, Math.min(100, Math.round(progress))) }),
+    })
+    .eq("id", jobId)
+    .eq("locked_by", workerId)
+    .select("cancel_requested")
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error updating job heartbeat:", error);
+    throw error;
+  }
+
+  if (!data) throw new JobLockLostError();
+  return data.cancel_requested;
+}
+
+/**
+ * Record progress; throws JobCancelledError if the job should stop and
+ * JobLockLostError if it now belongs to another worker
+ */
+export async function reportProgress(jobId: string, workerId: string, progress: number): Promise<void> {
+  if (await heartbeatJob(jobId, workerId, progress)) {
+    throw new JobCancelledError();
+  }
+}
+
+export async function isCancelRequested(jobId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from("jobs")
+    .select("cancel_requested")
+    .eq("id", jobId)
+    .maybeSingle();
+  return !!data?.cancel_requested;
+}
+
+/**
+ * Write a job's outcome, provided this worker still holds its lock. Throws
+ * JobLockLostError otherwise, leaving the new owner's state alone.
+ */
+async function settleJob(jobId: string, workerId: string, update: Partial<Job>) {
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .update({ ...update, locked_by: null, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("locked_by", workerId)
+    .select("id");
+
+  if (error) {
+    console.error("Error updating job:", error);
+    throw error;
+  }
+
+  if (data.length === 0) throw new JobLockLostError();
+}
+
+export async function completeJob(jobId: string, workerId: string, result: unknown): Promise<void> {
+  await settleJob(jobId, workerId, {
+    status: "completed",
+    progress: 100,
+    result: (result ?? null) as Json,
+    last_error: null,
+    finished_at: new Date().toISOString(),
+  });
+}
+
+export async function markJobCancelled(jobId: string, workerId: string): Promise<void> {
+  await settleJob(jobId, workerId, { status: "cancelled", finished_at: new Date().toISOString() });
+}
+
+/**
+ * Schedule a retry with exponential backoff, or dead-letter the job once
+ * its attempts are used up
+ */
+export async function failJob(job: Job, workerId: string, errorMessage: string): Promise<void> {
+  if (job.attempts >= job.max_attempts) {
+    await settleJob(job.id, workerId, {
+      status: "dead",
+      last_error: errorMessage,
+      finished_at: new Date().toISOString(),
+    });
+    return;
+  }
+
+  const delay = Math.min(BASE_RETRY_DELAY * 2 ** (job.attempts - 1), MAX_RETRY_DELAY);
+  await settleJob(job.id, workerId, {
+    status: "queued",
+    last_error: errorMessage,
+    run_at: new Date(Date.now() + delay).toISOString(),
+  });
+}
+
+/**
+ * Cancel a job: queued jobs stop immediately, running ones at their next
+ * progress report. Returns the updated job, or null if it had finished.
+ */
+export async function cancelJob(jobId: string): Promise<Job | null> {
+  const { data: queued } = await supabaseAdmin
+    .from("jobs")
+    .update({
+      status: "cancelled",
+      cancel_requested: true,
+      finished_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .eq("status", "queued")
+    .select()
+    .maybeSingle();
+
+  if (queued) return queued;
+
+  const { data: running } = await supabaseAdmin
+    .from("jobs")
+    .update({ cancel_requested: true, updated_at: new Date().toISOString() })
+    .eq("id", jobId)
+    .eq("status", "running")
+    .select()
+    .maybeSingle();
+
+  return running;
+}
+
+/**
+ * Put a dead-lettered or cancelled job back on the queue with a fresh set
+ * of attempts. Returns null if the job hasn't finished that way, or the
+ * identical job already queued or running instead.
+ */
+export async function retryJob(jobId: string): Promise<Job | null> {
+  const { data, error } = await supabaseAdmin
+    .from("jobs")
+    .update({
+      status: "queued",
+      attempts: 0,
+      progress: 0,
+      cancel_requested: false,
+      run_at: new Date().toISOString(),
+      finished_at: null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", jobId)
+    .in("status", ["dead", "cancelled"])
+    .select()
+    .maybeSingle();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: job } = await supabaseAdmin.from("jobs").select("type, project_id, payload").eq("id", jobId).single();
+    return job ? findActiveDuplicate(job.type as JobType, job.project_id, job.payload) : null;
+  }
+
+  if (error) {
+    console.error("Error retrying job:", error);
+    throw error;
+  }
+
+  return data;
+}
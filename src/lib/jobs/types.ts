@@ -0,0 +1,31 @@
+// Shared between the worker, API routes and client services - keep this
+// file free of server-only imports.
+
+import type { Tables } from "@/integrations/supabase/types";
+import type { EmbeddingContentType, SummaryTarget } from "@/lib/ai/types";
+
+export type Job = Tables<"jobs">;
+
+export type JobType = "transcribe" | "extract" | "embed" | "summarize" | "translate";
+
+export type JobStatus = "queued" | "running" | "completed" | "cancelled" | "dead";
+
+export interface JobPayloads {
+  // language and prompt are passed to the transcription engine as hints
+  transcribe: { transcriptId: string; language?: string; prompt?: string };
+  extract: { documentId: string };
+  // A single source, or the whole project when contentType is omitted.
+  // incremental re-embeds only the chunks whose text changed.
+  embed: { contentType?: EmbeddingContentType; contentId?: string; projectId?: string; incremental?: boolean };
+  summarize: { type: SummaryTarget; id: string; force?: boolean };
+  // language is a target language code from TRANSLATION_LANGUAGES
+  translate: { transcriptId: string; language: string };
+}
+
+export const JOB_TYPES: JobType[] = ["transcribe", "extract", "embed", "summarize", "translate"];
+
+// Statuses the worker is done with; only an explicit retry re-queues a job
+export const FINISHED_JOB_STATUSES: JobStatus[] = ["completed", "cancelled", "dead"];
+
+export const isJobFinished = (job: Pick<Job, "status">) =>
+  FINISHED_JOB_STATUSES.includes(job.status as JobStatus);
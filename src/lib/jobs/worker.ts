@@ -0,0 +1,125 @@
+import { hostname } from "os";
+import { jobHandlers, type JobHandler } from "@/lib/jobs/handlers";
+import {
+  claimJob,
+  completeJob,
+  failJob,
+  heartbeatJob,
+  isCancelRequested,
+  JobCancelledError,
+  JobLockLostError,
+  markJobCancelled,
+  reportProgress,
+} from "@/lib/jobs/queue";
+import type { Job, JobPayloads, JobType } from "@/lib/jobs/types";
+
+/**
+ * Worker loop - claims jobs from the queue and runs them until the process
+ * is asked to stop. Started by src/worker/index.ts.
+ */
+
+// How long to wait before polling an empty queue again
+const POLL_INTERVAL = Number(process.env.JOB_POLL_INTERVAL_MS) || 2000;
+// Keep the claim alive during long steps that don't report progress; the
+// queue reclaims jobs whose heartbeat is older than five minutes
+const HEARTBEAT_INTERVAL = 30 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function executeJob(job: Job, workerId: string): Promise<void> {
+  try {
+    if (job.cancel_requested) throw new JobCancelledError();
+
+    const handler = jobHandlers[job.type as JobType] as JobHandler<JobType> | undefined;
+    if (!handler) throw new Error(`Unknown job type: ${job.type}`);
+
+    // A job reclaimed from a dead worker may already have used its attempts
+    if (job.attempts > job.max_attempts) {
+      throw new Error(job.last_error || "Worker stopped responding");
+    }
+
+    const result = await handler(job.payload as unknown as JobPayloads[JobType], {
+      job,
+      progress: (percent) => reportProgress(job.id, workerId, percent),
+    });
+
+    await completeJob(job.id, workerId, result);
+    console.log(`Job ${job.id} (${job.type}) completed`);
+  } catch (error) {
+    if (error instanceof JobLockLostError) throw error;
+
+    // Handlers may swallow the cancellation error, so check the row as well
+    if (error instanceof JobCancelledError || (await isCancelRequested(job.id))) {
+      await markJobCancelled(job.id, workerId);
+      console.log(`Job ${job.id} (${job.type}) cancelled`);
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+    await failJob(job, workerId, message);
+  }
+}
+
+/**
+ * Run one claimed job and settle it: completed, cancelled, retried or
+ * dead-lettered. A job reclaimed by another worker while this one stalled
+ * is left to its new owner.
+ */
+export async function runJob(job: Job, workerId: string): Promise<void> {
+  const heartbeat = setInterval(() => {
+    heartbeatJob(job.id, workerId).catch((error) => {
+      if (error instanceof JobLockLostError) {
+        clearInterval(heartbeat);
+      } else {
+        console.error("Job heartbeat failed:", error);
+      }
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  try {
+    await executeJob(job, workerId);
+  } catch (error) {
+    if (!(error instanceof JobLockLostError)) throw error;
+    console.log(`Job ${job.id} (${job.type}) was reclaimed by another worker; leaving it unsettled`);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Process jobs with `concurrency` parallel slots. Resolves once SIGINT or
+ * SIGTERM is received and the jobs in progress have been settled.
+ */
+export async function runWorker({ concurrency = 1 }: { concurrency?: number } = {}): Promise<void> {
+  const workerId = `${hostname()}:${process.pid}`;
+  let stopping = false;
+
+  const stop = () => {
+    console.log("Worker stopping after current jobs...");
+    stopping = true;
+  };
+  process.once("SIGINT", stop);
+  process.once("SIGTERM", stop);
+
+  const loop = async () => {
+    while (!stopping) {
+      try {
+        const job = await claimJob(workerId);
+        if (!job) {
+          await sleep(POLL_INTERVAL);
+          continue;
+        }
+
+        console.log(`Job ${job.id} (${job.type}) started, attempt ${job.attempts}/${job.max_attempts}`);
+        await runJob(job, workerId);
+      } catch (error) {
+        console.error("Worker error:", error);
+        await sleep(POLL_INTERVAL);
+      }
+    }
+  };
+
+  console.log(`Worker ${workerId} started with ${concurrency} slot(s)`);
+  await Promise.all(Array.from({ length: concurrency }, loop));
+}
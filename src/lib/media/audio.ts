@@ -0,0 +1,99 @@
+import { execFile } from "child_process";
+import { readdir, stat } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+
+/**
+ * Audio preparation for transcription, using the ffmpeg and ffprobe
+ * binaries (FFMPEG_PATH / FFPROBE_PATH, or whatever is on the PATH).
+ */
+
+const run = promisify(execFile);
+
+const FFMPEG = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE = process.env.FFPROBE_PATH || "ffprobe";
+
+// ffmpeg logs progress to stderr; long files produce a lot of it
+const EXEC_OPTIONS = { maxBuffer: 16 * 1024 * 1024 };
+
+// Whisper rejects uploads over 25 MB
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Mono 16 kHz speech at 32 kbps is about 14 MB an hour, so ten-minute
+// pieces sit far below the upload limit and are cheap to retry
+export const PIECE_SECONDS = 600;
+
+export interface AudioPiece {
+  path: string;
+  // Start of the piece within the whole recording, in seconds
+  offset: number;
+  duration: number;
+}
+
+/**
+ * Drop any video and down-sample the audio track to mono 16 kHz MP3
+ */
+export async function extractAudio(input: string, output: string): Promise<void> {
+  await run(
+    FFMPEG,
+    ["-y", "-i", input, "-vn", "-ac", "1", "-ar", "16000", "-c:a", "libmp3lame", "-b:a", "32k", output],
+    EXEC_OPTIONS
+  );
+}
+
+/**
+ * Convert audio to 16 kHz mono 16-bit PCM WAV, the input local whisper
+ * engines expect
+ */
+export async function convertToWav(input: string, output: string): Promise<void> {
+  await run(FFMPEG, ["-y", "-i", input, "-ac", "1", "-ar", "16000", "-c:a", "pcm_s16le", output], EXEC_OPTIONS);
+}
+
+export async function probeDuration(path: string): Promise<number> {
+  const { stdout } = await run(
+    FFPROBE,
+    ["-v", "error", "-show_entries", "format=duration", "-of", "default=noprint_wrappers=1:nokey=1", path],
+    EXEC_OPTIONS
+  );
+
+  const duration = Number(stdout.trim());
+  if (!Number.isFinite(duration)) {
+    throw new Error(`Could not read the duration of ${path}`);
+  }
+  return duration;
+}
+
+/**
+ * Split audio into consecutive pieces without re-encoding. Pieces are cut
+ * on frame boundaries, so offsets come from each piece's measured
+ * duration rather than from `pieceSeconds`.
+ */
+export async function splitAudio(input: string, directory: string, pieceSeconds = PIECE_SECONDS): Promise<AudioPiece[]> {
+  await run(
+    FFMPEG,
+    [
+      "-y", "-i", input,
+      "-f", "segment", "-segment_time", String(pieceSeconds), "-reset_timestamps", "1",
+      "-c", "copy", join(directory, "piece-%04d.mp3"),
+    ],
+    EXEC_OPTIONS
+  );
+
+  const names = (await readdir(directory)).filter((name) => /^piece-\d+\.mp3$/.test(name)).sort();
+  const pieces: AudioPiece[] = [];
+  let offset = 0;
+
+  for (const name of names) {
+    const path = join(directory, name);
+    const { size } = await stat(path);
+    if (size > MAX_UPLOAD_BYTES) {
+      throw new Error(`Audio piece ${name} is ${size} bytes, over the upload limit`);
+    }
+
+    const duration = await probeDuration(path);
+    pieces.push({ path, offset, duration });
+    offset += duration;
+  }
+
+  return pieces;
+}
@@ -0,0 +1,105 @@
+import { readFile } from "fs/promises";
+import { basename } from "path";
+import type { SpeakerTurn } from "@/lib/media/speakers";
+
+/**
+ * Diarization - works out who speaks when, so transcript segments can be
+ * labelled by speaker.
+ * - "http": POSTs the audio to a diarization service (e.g. a pyannote
+ *   server) at DIARIZATION_URL
+ * - "stub": deterministic local implementation, no network required
+ *
+ * Select with DIARIZATION_PROVIDER (unset disables diarization), or swap
+ * programmatically with setDiarizer().
+ */
+
+export interface DiarizationInput {
+  // Mono audio track extracted for transcription
+  audioPath: string;
+  // Length of the recording in seconds
+  duration: number;
+}
+
+export interface Diarizer {
+  diarize(input: DiarizationInput): Promise<SpeakerTurn[]>;
+}
+
+/**
+ * The service receives the audio as the `file` field of a multipart form
+ * and answers `{ "turns": [{ "speaker": "A", "start": 0.5, "end": 4.2 }] }`
+ * with times in seconds.
+ */
+export function createHttpDiarizer(
+  url = process.env.DIARIZATION_URL,
+  apiKey = process.env.DIARIZATION_API_KEY
+): Diarizer {
+  return {
+    async diarize({ audioPath }) {
+      if (!url) throw new Error("DIARIZATION_URL is not set");
+
+      const form = new FormData();
+      const audio = await readFile(audioPath);
+      form.append("file", new Blob([new Uint8Array(audio)], { type: "audio/mpeg" }), basename(audioPath));
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        body: form,
+      });
+      if (!response.ok) {
+        throw new Error(`Diarization failed with status ${response.status}`);
+      }
+
+      const { turns } = (await response.json()) as { turns?: SpeakerTurn[] };
+      return (turns || [])
+        .filter((turn) => turn.speaker != null && turn.end > turn.start)
+        .map((turn) => ({ speaker: String(turn.speaker), start: Number(turn.start), end: Number(turn.end) }));
+    },
+  };
+}
+
+/**
+ * Deterministic diarizer for tests and offline development. Speakers take
+ * turns of `turnLength` seconds, cycling through `speakerCount` voices.
+ */
+export function createStubDiarizer(turnLength = 30, speakerCount = 2): Diarizer {
+  return {
+    async diarize({ duration }) {
+      const turns: SpeakerTurn[] = [];
+      for (let start = 0, i = 0; start < duration; start += turnLength, i++) {
+        turns.push({
+          speaker: `stub_${i % speakerCount}`,
+          start,
+          end: Math.min(start + turnLength, duration),
+        });
+      }
+      return turns;
+    },
+  };
+}
+
+let activeDiarizer: Diarizer | null = null;
+
+/**
+ * The configured diarizer, or null when diarization is disabled
+ */
+export function getDiarizer(): Diarizer | null {
+  if (!activeDiarizer) {
+    switch (process.env.DIARIZATION_PROVIDER) {
+      case "http":
+        activeDiarizer = createHttpDiarizer();
+        break;
+      case "stub":
+        activeDiarizer = createStubDiarizer();
+        break;
+    }
+  }
+  return activeDiarizer;
+}
+
+/**
+ * Override the diarizer used by server code (pass null to reset)
+ */
+export function setDiarizer(diarizer: Diarizer | null): void {
+  activeDiarizer = diarizer;
+}
@@ -0,0 +1,111 @@
+/**
+ * Transcription glossaries - course-specific terms (drug names, authors,
+ * notation) that engines are prompted with so they are spelled the way
+ * the course spells them. Shared between the transcription pipeline and
+ * the project settings dialog - keep this file free of server-only imports.
+ */
+
+// Whisper only reads the last 224 tokens of a prompt; at roughly four
+// characters per token this keeps the whole glossary inside that window
+export const MAX_PROMPT_CHARS = 800;
+
+/**
+ * Trimmed, non-empty terms with case-insensitive duplicates removed,
+ * keeping the first spelling
+ */
+export function normalizeGlossary(terms: string[]): string[] {
+  const seen = new Set<string>();
+  return terms
+    .map((term) => term.trim().replace(/\s+/g, " "))
+    .filter((term) => {
+      const key = term.toLowerCase();
+      if (!term || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * The prompt for a transcription call: the caller's own prompt followed by
+ * the glossary, dropping the terms that don't fit in MAX_PROMPT_CHARS
+ */
+export function glossaryPrompt(glossary: string[], prompt?: string | null): string | undefined {
+  const parts = prompt?.trim() ? [prompt.trim()] : [];
+  const budget = MAX_PROMPT_CHARS - (parts[0]?.length ?? 0) - "Glossary: .".length;
+
+  const terms: string[] = [];
+  let length = 0;
+  for (const term of normalizeGlossary(glossary)) {
+    const added = term.length + (terms.length > 0 ? 2 : 0);
+    if (length + added > budget) break;
+    terms.push(term);
+    length += added;
+  }
+
+  if (terms.length > 0) parts.push(`Glossary: ${terms.join(", ")}.`);
+  return parts.length > 0 ? parts.join(" ") : undefined;
+}
+
+// Capitalised words that start clauses or label figures rather than name things
+const COMMON_CAPITALISED = new Set([
+  "a", "an", "and", "as", "at", "but", "by", "chapter", "figure", "for", "he", "however", "i", "if", "in",
+  "it", "of", "on", "or", "page", "section", "she", "table", "the", "these", "they", "this", "those", "to",
+  "we", "you",
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+
+const isCapitalised = (word: string) => /^\p{Lu}/u.test(word) && !COMMON_CAPITALISED.has(word.toLowerCase());
+// Acronyms and notation: "DNA", "mRNA", "SN2", "COVID-19"
+const isTechnical = (word: string) => /\p{Ll}\p{Lu}|\p{Lu}{2}|\p{L}\d|\d\p{L}/u.test(word);
+
+/**
+ * Glossary candidates from document text: names (runs of capitalised words
+ * that don't start a sentence), acronyms and notation, and long words. Terms
+ * need at least `minCount` occurrences and are ranked by how often they
+ * appear. Terms already in `existing` are left out.
+ */
+export function suggestGlossaryTerms(
+  texts: string[],
+  existing: string[] = [],
+  { limit = 30, minCount = 2 }: { limit?: number; minCount?: number } = {}
+): string[] {
+  const counts = new Map<string, { term: string; count: number }>();
+  const add = (term: string) => {
+    const key = term.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { term, count: 1 });
+  };
+
+  texts.forEach((text) => {
+    text.split(/(?<=[.!?:])\s+|\n+|\f/).forEach((sentence) => {
+      const words = (sentence.match(WORD_PATTERN) || []).map((word) => word.replace(/['’-]+$/, ""));
+      let run: string[] = [];
+      const endRun = () => {
+        if (run.length > 0 && run.length <= 3) add(run.join(" "));
+        run = [];
+      };
+
+      words.forEach((word, index) => {
+        if (isTechnical(word)) {
+          endRun();
+          add(word);
+        } else if (index > 0 && isCapitalised(word)) {
+          run.push(word);
+        } else {
+          endRun();
+          if (word.length >= 12 && /^\p{L}\p{Ll}+$/u.test(word)) add(word.toLowerCase());
+        }
+      });
+      endRun();
+    });
+  });
+
+  const known = new Set(existing.map((term) => term.trim().toLowerCase()));
+  return Array.from(counts.entries())
+    .filter(([key, { count }]) => count >= minCount && !known.has(key))
+    .sort(([, a], [, b]) => b.count - a.count || a.term.localeCompare(b.term))
+    .slice(0, limit)
+    .map(([, { term }]) => term);
+}
@@ -0,0 +1,42 @@
+/**
+ * Languages transcripts can be translated into. Shared between the
+ * translation job and the transcript view - keep this file free of
+ * server-only imports.
+ */
+
+export interface TranslationLanguage {
+  code: string;
+  name: string;
+}
+
+export const TRANSLATION_LANGUAGES: TranslationLanguage[] = [
+  { code: "ar", name: "Arabic" },
+  { code: "zh", name: "Chinese (Simplified)" },
+  { code: "nl", name: "Dutch" },
+  { code: "en", name: "English" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "hi", name: "Hindi" },
+  { code: "id", name: "Indonesian" },
+  { code: "it", name: "Italian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "pl", name: "Polish" },
+  { code: "pt", name: "Portuguese" },
+  { code: "ru", name: "Russian" },
+  { code: "es", name: "Spanish" },
+  { code: "sv", name: "Swedish" },
+  { code: "tr", name: "Turkish" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "vi", name: "Vietnamese" },
+];
+
+export const isTranslationLanguage = (code: unknown): code is string =>
+  TRANSLATION_LANGUAGES.some((language) => language.code === code);
+
+/**
+ * Display name for a language code, or the code itself when unknown
+ */
+export function languageName(code: string): string {
+  return TRANSLATION_LANGUAGES.find((language) => language.code === code)?.name ?? code;
+}
@@ -0,0 +1,207 @@
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import type { Json, Tables, TablesUpdate } from "@/integrations/supabase/database.types";
+import { transcriptText } from "@/lib/media/transcriptEdits";
+import type { TimedWord } from "@/lib/media/words";
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+/**
+ * Transcript revision history. Each transcription run and each saved edit
+ * is stored as a numbered revision; restoring one saves its segments again
+ * as a new revision, so history only ever grows.
+ */
+
+export type TranscriptRevision = Tables<"transcript_revisions">;
+
+export interface RevisionInput {
+  userId: string | null;
+  segments: TranscriptSegment[];
+  summary: string;
+}
+
+export interface SaveOptions {
+  // Other transcript columns to change in the same update
+  fields?: TablesUpdate<"transcripts">;
+  // Latest revision number the edit was based on (0 for none); the save is
+  // refused if the transcript has moved on since
+  expectedRevision?: number;
+}
+
+/**
+ * Another save got to the transcript first. Reload and edit again.
+ */
+export class RevisionConflictError extends Error {
+  constructor() {
+    super("The transcript was changed by another save");
+    this.name = "RevisionConflictError";
+  }
+}
+
+// Postgres unique_violation: two saves claimed the same revision number
+const UNIQUE_VIOLATION = "23505";
+
+const isTimedWord = (word: unknown): word is TimedWord =>
+  !!word &&
+  typeof (word as TimedWord).text === "string" &&
+  Number.isFinite((word as TimedWord).start) &&
+  Number.isFinite((word as TimedWord).end) &&
+  (word as TimedWord).start >= 0 &&
+  (word as TimedWord).end >= (word as TimedWord).start;
+
+/**
+ * Check that an edited segment list from a client is well formed
+ */
+export function parseSegments(value: unknown): TranscriptSegment[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const valid = value.every(
+    (segment) =>
+      segment &&
+      typeof segment.text === "string" &&
+      Number.isFinite(segment.start) &&
+      Number.isFinite(segment.end) &&
+      segment.start >= 0 &&
+      segment.end >= segment.start &&
+      (segment.speaker === undefined || typeof segment.speaker === "string") &&
+      (segment.words === undefined || (Array.isArray(segment.words) && segment.words.every(isTimedWord)))
+  );
+  if (!valid) return null;
+
+  return value.map(({ start, end, text, speaker, words }) => ({
+    start,
+    end,
+    text,
+    ...(speaker !== undefined && { speaker }),
+    ...(words !== undefined && { words: words.map(({ text, start, end }: TimedWord) => ({ text, start, end })) }),
+  }));
+}
+
+/**
+ * Number of a transcript's latest revision, or 0 if it has none
+ */
+export async function latestRevisionNumber(transcriptId: string): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from("transcript_revisions")
+    .select("revision_number")
+    .eq("transcript_id", transcriptId)
+    .order("revision_number", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.revision_number ?? 0;
+}
+
+// Insert a revision under a given number. The number is unique per
+// transcript, so of two saves claiming it, the second fails with a conflict.
+async function insertRevision(
+  transcriptId: string,
+  revisionNumber: number,
+  { userId, segments, summary }: RevisionInput
+): Promise<TranscriptRevision> {
+  const { data, error } = await supabaseAdmin
+    .from("transcript_revisions")
+    .insert({
+      transcript_id: transcriptId,
+      user_id: userId,
+      revision_number: revisionNumber,
+      full_text: transcriptText(segments),
+      segments: segments as unknown as Json,
+      summary,
+    })
+    .select()
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) throw new RevisionConflictError();
+  if (error) {
+    console.error("Error recording transcript revision:", error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Store the next revision of a transcript
+ */
+export async function recordRevision(transcriptId: string, input: RevisionInput): Promise<TranscriptRevision> {
+  return insertRevision(transcriptId, (await latestRevisionNumber(transcriptId)) + 1, input);
+}
+
+/**
+ * Replace a transcript's segments and record the change as a revision.
+ * Transcripts made before revisions existed get their current segments
+ * recorded first, so the edit can be undone. The revision is claimed
+ * before the transcript is written, so a save that loses a race changes
+ * nothing and throws RevisionConflictError.
+ */
+export async function saveTranscriptEdit(
+  transcriptId: string,
+  input: RevisionInput,
+  { fields = {}, expectedRevision }: SaveOptions = {}
+): Promise<{ transcript: Tables<"transcripts">; revision: TranscriptRevision }> {
+  let latest = await latestRevisionNumber(transcriptId);
+  if (expectedRevision !== undefined && latest !== expectedRevision) {
+    throw new RevisionConflictError();
+  }
+
+  if (latest === 0) {
+    const { data: current, error: fetchError } = await supabaseAdmin
+      .from("transcripts")
+      .select("user_id, segments")
+      .eq("id", transcriptId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const original = (current.segments as unknown as TranscriptSegment[]) || [];
+    if (original.length > 0) {
+      await insertRevision(transcriptId, ++latest, { userId: current.user_id, segments: original, summary: "Original transcript" });
+    }
+  }
+
+  const revision = await insertRevision(transcriptId, latest + 1, input);
+
+  const { data: transcript, error } = await supabaseAdmin
+    .from("transcripts")
+    .update({
+      ...fields,
+      full_text: transcriptText(input.segments),
+      segments: input.segments as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", transcriptId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error("Error saving transcript edit:", error);
+    throw error;
+  }
+
+  return { transcript, revision };
+}
+
+/**
+ * Make an earlier revision current again. Returns null when the revision
+ * doesn't belong to the transcript.
+ */
+export async function restoreRevision(
+  transcriptId: string,
+  revisionId: string,
+  userId: string
+): Promise<{ transcript: Tables<"transcripts">; revision: TranscriptRevision } | null> {
+  const { data: revision } = await supabaseAdmin
+    .from("transcript_revisions")
+    .select("revision_number, segments")
+    .eq("id", revisionId)
+    .eq("transcript_id", transcriptId)
+    .maybeSingle();
+
+  if (!revision) return null;
+
+  return saveTranscriptEdit(transcriptId, {
+    userId,
+    segments: (revision.segments as unknown as TranscriptSegment[]) || [],
+    summary: `Restored revision ${revision.revision_number}`,
+  });
+}
@@ -0,0 +1,82 @@
+/**
+ * Speaker labels for diarized transcripts. Pure functions only - shared by
+ * the transcription pipeline, the indexer and the transcript view.
+ */
+
+// A stretch of audio attributed to one voice, as reported by a diarizer
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+// Display names by speaker id, as stored in transcripts.speakers
+export type SpeakerNames = Record<string, string>;
+
+const SPEAKER_ID_PREFIX = "speaker_";
+
+/**
+ * Name to show for a speaker: the name given to it on this transcript, or
+ * "Speaker N"
+ */
+export function speakerName(speakers: SpeakerNames | null | undefined, id: string): string {
+  const name = speakers?.[id]?.trim();
+  if (name) return name;
+  return `Speaker ${id.startsWith(SPEAKER_ID_PREFIX) ? id.slice(SPEAKER_ID_PREFIX.length) : id}`;
+}
+
+/**
+ * Speaker ids in a transcript, in order of first appearance
+ */
+export function listSpeakers(segments: { speaker?: string }[]): string[] {
+  const ids: string[] = [];
+  segments.forEach((segment) => {
+    if (segment.speaker && !ids.includes(segment.speaker)) ids.push(segment.speaker);
+  });
+  return ids;
+}
+
+const overlap = (a: { start: number; end: number }, b: { start: number; end: number }) =>
+  Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+
+/**
+ * Give each segment the speaker heard most during it (or the nearest turn
+ * when none overlaps). The diarizer's labels are renumbered speaker_1,
+ * speaker_2, ... in order of first appearance.
+ */
+export function assignSpeakers<T extends { start: number; end: number }>(
+  segments: T[],
+  turns: SpeakerTurn[]
+): (T & { speaker?: string })[] {
+  if (turns.length === 0) return segments;
+
+  const ids = new Map<string, string>();
+  const idFor = (label: string) => {
+    let id = ids.get(label);
+    if (!id) {
+      id = `${SPEAKER_ID_PREFIX}${ids.size + 1}`;
+      ids.set(label, id);
+    }
+    return id;
+  };
+
+  return segments.map((segment) => {
+    const heard = new Map<string, number>();
+    turns.forEach((turn) => {
+      const seconds = overlap(segment, turn);
+      if (seconds > 0) heard.set(turn.speaker, (heard.get(turn.speaker) ?? 0) + seconds);
+    });
+
+    let label: string | undefined;
+    if (heard.size > 0) {
+      label = Array.from(heard.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    } else {
+      const middle = (segment.start + segment.end) / 2;
+      const distance = (turn: SpeakerTurn) =>
+        middle < turn.start ? turn.start - middle : middle > turn.end ? middle - turn.end : 0;
+      label = turns.reduce((nearest, turn) => (distance(turn) < distance(nearest) ? turn : nearest)).speaker;
+    }
+
+    return { ...segment, speaker: idFor(label) };
+  });
+}
@@ -0,0 +1,195 @@
+import { open } from "fs/promises";
+import type { NextApiResponse } from "next";
+import type { MediaFile } from "@/services/mediaService";
+
+/**
+ * Byte-range streaming of media from storage. Chunked uploads are read
+ * straight from their `.partN` objects, across chunk boundaries, so a
+ * player can seek anywhere before (or without) the background merge.
+ * Server only: storage is read with the service role key.
+ *
+ * downloadMedia() reassembles a whole file the same way, for processing.
+ */
+
+export type MediaSource = Pick<
+  MediaFile,
+  "storage_path" | "file_size" | "is_chunked" | "total_chunks" | "chunk_size" | "mime_type" | "file_type"
+>;
+
+// Inclusive byte offsets, as in the Range header
+export interface ByteRange {
+  start: number;
+  end: number;
+}
+
+interface ObjectSpan {
+  path: string;
+  start: number;
+  end: number;
+}
+
+// Uploads before chunk_size was recorded used 5 MB chunks
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+
+// Open-ended ranges ("bytes=N-") are capped so each request stays small;
+// the player asks for the next range as it needs it
+export const MAX_RANGE_LENGTH = 8 * 1024 * 1024;
+
+const objectUrl = (path: string) =>
+  `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/media/${path.split("/").map(encodeURIComponent).join("/")}`;
+
+function storageHeaders() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!key) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not set");
+  return { Authorization: `Bearer ${key}`, apikey: key };
+}
+
+export function contentTypeOf(media: MediaSource): string {
+  return media.mime_type || (media.file_type === "audio" ? "audio/mpeg" : "video/mp4");
+}
+
+/**
+ * Total size in bytes. Chunked uploads always record it; older single-file
+ * uploads fall back to asking storage.
+ */
+export async function mediaSize(media: MediaSource): Promise<number> {
+  if (media.file_size) return media.file_size;
+
+  const response = await fetch(objectUrl(media.storage_path), { method: "HEAD", headers: storageHeaders() });
+  const length = Number(response.headers.get("content-length"));
+  if (!response.ok || !Number.isFinite(length)) {
+    throw new Error(`Failed to read media size (${response.status})`);
+  }
+  return length;
+}
+
+/**
+ * A single "bytes=" range clamped to the file, or null if the header is
+ * malformed, asks for several ranges or starts past the end
+ */
+export function parseRange(header: string, size: number): ByteRange | null {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match || (!match[1] && !match[2])) return null;
+
+  let start: number;
+  let end: number;
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = Number(match[2]);
+    if (length === 0) return null;
+    start = Math.max(0, size - length);
+    end = size - 1;
+  } else {
+    start = Number(match[1]);
+    end = match[2]
+      ? Math.min(Number(match[2]), size - 1)
+      : Math.min(start + MAX_RANGE_LENGTH, size) - 1;
+  }
+
+  if (start >= size || start > end) return null;
+  return { start, end };
+}
+
+/**
+ * The storage objects (and byte ranges within them) that make up a range
+ * of the file
+ */
+function objectSpans(media: MediaSource, range: ByteRange): ObjectSpan[] {
+  if (!media.is_chunked || !media.total_chunks) {
+    return [{ path: media.storage_path, ...range }];
+  }
+
+  const chunkSize = media.chunk_size || DEFAULT_CHUNK_SIZE;
+  const spans: ObjectSpan[] = [];
+  const last = Math.min(Math.floor(range.end / chunkSize), media.total_chunks - 1);
+
+  for (let index = Math.floor(range.start / chunkSize); index <= last; index++) {
+    const chunkStart = index * chunkSize;
+    spans.push({
+      path: `${media.storage_path}.part${index}`,
+      start: Math.max(range.start, chunkStart) - chunkStart,
+      end: Math.min(range.end, chunkStart + chunkSize - 1) - chunkStart,
+    });
+  }
+
+  return spans;
+}
+
+// Resolves once the response can take more data, or the request is dropped
+function drained(res: NextApiResponse, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      res.off("drain", done);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    res.once("drain", done);
+    signal.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Write a byte range of the media to the response body, reading one storage
+ * object at a time. Headers must already be sent. Stops early if `signal`
+ * aborts, e.g. when the player seeks elsewhere and drops the request.
+ */
+export async function streamRange(
+  res: NextApiResponse,
+  media: MediaSource,
+  range: ByteRange,
+  signal: AbortSignal
+): Promise<void> {
+  for (const span of objectSpans(media, range)) {
+    if (signal.aborted) return;
+
+    const response = await fetch(objectUrl(span.path), {
+      headers: { ...storageHeaders(), Range: `bytes=${span.start}-${span.end}` },
+      signal,
+    });
+
+    // A 200 would be the whole object, which we can't splice into the range
+    if (response.status !== 206 || !response.body) {
+      throw new Error(`Failed to read ${span.path} (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      if (!res.write(value)) await drained(res, signal);
+      if (signal.aborted) {
+        await reader.cancel();
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Reassemble the media into a local file, one storage object at a time
+ */
+export async function downloadMedia(media: MediaSource, destination: string): Promise<void> {
+  const paths = media.is_chunked && media.total_chunks
+    ? Array.from({ length: media.total_chunks }, (_, i) => `${media.storage_path}.part${i}`)
+    : [media.storage_path];
+
+  const file = await open(destination, "w");
+  try {
+    for (const path of paths) {
+      const response = await fetch(objectUrl(path), { headers: storageHeaders() });
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to download ${path} (${response.status})`);
+      }
+
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await file.write(value);
+      }
+    }
+  } finally {
+    await file.close();
+  }
+}
@@ -0,0 +1,38 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/**
+ * Signed stream URLs. Media elements can't send an Authorization header,
+ * so /api/media/stream is authorised by a signature over one media file id
+ * and an expiry instead of the user's session token. Server only.
+ */
+
+// Long enough to start playback and seek around a lecture; the player asks
+// for a fresh URL if one expires while it is open
+export const STREAM_URL_TTL_SECONDS = 60 * 60;
+
+function streamSecret(): string {
+  const secret = process.env.MEDIA_STREAM_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) throw new Error("MEDIA_STREAM_SECRET is not set");
+  return secret;
+}
+
+const signatureOf = (mediaFileId: string, expires: number) =>
+  createHmac("sha256", streamSecret()).update(`${mediaFileId}.${expires}`).digest("base64url");
+
+export function signedStreamUrl(mediaFileId: string, ttlSeconds = STREAM_URL_TTL_SECONDS): string {
+  const expires = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const params = new URLSearchParams({ id: mediaFileId, expires: String(expires), signature: signatureOf(mediaFileId, expires) });
+  return `/api/media/stream?${params}`;
+}
+
+/**
+ * Whether a stream request carries an unexpired signature for this file
+ */
+export function verifyStreamSignature(mediaFileId: string, expires: string, signature: string): boolean {
+  const expiresAt = Number(expires);
+  if (!Number.isInteger(expiresAt) || expiresAt * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(signatureOf(mediaFileId, expiresAt));
+  const given = Buffer.from(signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
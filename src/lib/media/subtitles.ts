@@ -0,0 +1,197 @@
+import { speakerName, type SpeakerNames } from "@/lib/media/speakers";
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+/**
+ * Subtitle and transcript file formats. Pure functions only - shared by the
+ * transcript view (export, player captions) and the caption import route.
+ */
+
+export type SubtitleFormat = "srt" | "vtt";
+export type TranscriptExportFormat = SubtitleFormat | "txt" | "json";
+
+export const TRANSCRIPT_EXPORT_FORMATS: Record<TranscriptExportFormat, { label: string; mimeType: string }> = {
+  srt: { label: "SubRip (.srt)", mimeType: "application/x-subrip" },
+  vtt: { label: "WebVTT (.vtt)", mimeType: "text/vtt" },
+  txt: { label: "Plain text (.txt)", mimeType: "text/plain" },
+  json: { label: "JSON (.json)", mimeType: "application/json" },
+};
+
+export interface ParsedSubtitles {
+  format: SubtitleFormat;
+  segments: TranscriptSegment[];
+  // Names from WebVTT voice tags (<v Name>), by the speaker ids given to them
+  speakers: SpeakerNames;
+}
+
+/**
+ * Cue timestamp, e.g. "01:02:03,456" for SRT or "01:02:03.456" for WebVTT
+ */
+export function formatCueTime(seconds: number, format: SubtitleFormat): string {
+  const millis = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(millis / 3_600_000);
+  const minutes = Math.floor((millis % 3_600_000) / 60_000);
+  const secs = Math.floor((millis % 60_000) / 1000);
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${format === "srt" ? "," : "."}${pad(millis % 1000, 3)}`;
+}
+
+// Cue text can't contain blank lines, which end a cue
+const cueText = (text: string) => text.trim().replace(/\n\s*\n/g, "\n");
+
+const escapeVtt = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const usable = (segments: TranscriptSegment[]) => segments.filter((segment) => segment.text.trim());
+
+/**
+ * SubRip captions. Speaker names prefix the cue where their turn starts.
+ */
+export function toSrt(segments: TranscriptSegment[], speakers: SpeakerNames = {}): string {
+  return usable(segments)
+    .map((segment, i, all) => {
+      const turnStart = segment.speaker !== all[i - 1]?.speaker;
+      const text = turnStart && segment.speaker
+        ? `${speakerName(speakers, segment.speaker)}: ${cueText(segment.text)}`
+        : cueText(segment.text);
+      return `${i + 1}\n${formatCueTime(segment.start, "srt")} --> ${formatCueTime(segment.end, "srt")}\n${text}\n`;
+    })
+    .join("\n");
+}
+
+/**
+ * WebVTT captions, with speakers as voice tags
+ */
+export function toVtt(segments: TranscriptSegment[], speakers: SpeakerNames = {}): string {
+  const cues = usable(segments).map((segment) => {
+    const text = escapeVtt(cueText(segment.text));
+    const voiced = segment.speaker ? `<v ${escapeVtt(speakerName(speakers, segment.speaker))}>${text}` : text;
+    return `${formatCueTime(segment.start, "vtt")} --> ${formatCueTime(segment.end, "vtt")}\n${voiced}\n`;
+  });
+  return ["WEBVTT\n", ...cues].join("\n");
+}
+
+const formatClock = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+};
+
+/**
+ * Readable transcript: one paragraph per speaker turn, each with its start
+ * time. Transcripts without speakers get one paragraph per segment.
+ */
+export function toPlainText(segments: TranscriptSegment[], speakers: SpeakerNames = {}): string {
+  const paragraphs: { start: number; speaker?: string; text: string[] }[] = [];
+  usable(segments).forEach((segment) => {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && segment.speaker && segment.speaker === last.speaker) {
+      last.text.push(segment.text.trim());
+    } else {
+      paragraphs.push({ start: segment.start, speaker: segment.speaker, text: [segment.text.trim()] });
+    }
+  });
+
+  return paragraphs
+    .map(({ start, speaker, text }) => {
+      const label = speaker ? `${speakerName(speakers, speaker)} ` : "";
+      return `${label}[${formatClock(start)}]\n${text.join(" ")}`;
+    })
+    .join("\n\n") + "\n";
+}
+
+/**
+ * The transcript as stored: language, speaker names and timed segments
+ */
+export function toJson(segments: TranscriptSegment[], speakers: SpeakerNames = {}, language?: string | null): string {
+  return JSON.stringify({ language: language ?? null, speakers, segments }, null, 2) + "\n";
+}
+
+/**
+ * Render a transcript in one of the export formats
+ */
+export function formatTranscript(
+  format: TranscriptExportFormat,
+  segments: TranscriptSegment[],
+  speakers: SpeakerNames = {},
+  language?: string | null
+): string {
+  switch (format) {
+    case "srt":
+      return toSrt(segments, speakers);
+    case "vtt":
+      return toVtt(segments, speakers);
+    case "txt":
+      return toPlainText(segments, speakers);
+    case "json":
+      return toJson(segments, speakers, language);
+  }
+}
+
+// "01:02:03,456", "01:02:03.456" or "02:03.456"; hours are optional in WebVTT
+const CUE_TIME = /(?:(\d+):)?(\d{1,2}):(\d{1,2})[,.](\d{1,3})/;
+const TIMING_LINE = new RegExp(`^\\s*${CUE_TIME.source}\\s*-->\\s*${CUE_TIME.source}`);
+
+const parseTime = (hours: string | undefined, minutes: string, seconds: string, fraction: string) =>
+  Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, "0")) / 1000;
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+
+/**
+ * Read SRT or WebVTT captions into transcript segments. Formatting tags
+ * are dropped; WebVTT voice tags become speakers. Cues are returned in
+ * time order.
+ */
+export function parseSubtitles(content: string): ParsedSubtitles {
+  const text = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+  const format: SubtitleFormat = /^WEBVTT/.test(text) ? "vtt" : "srt";
+
+  const speakerIds = new Map<string, string>();
+  const speakers: SpeakerNames = {};
+  const speakerFor = (name: string) => {
+    let id = speakerIds.get(name);
+    if (!id) {
+      id = `speaker_${speakerIds.size + 1}`;
+      speakerIds.set(name, id);
+      speakers[id] = name;
+    }
+    return id;
+  };
+
+  const segments: TranscriptSegment[] = [];
+  text.split(/\n{2,}/).forEach((block) => {
+    const lines = block.split("\n");
+    // The timing line follows an optional cue number (SRT) or identifier (WebVTT)
+    const timingIndex = TIMING_LINE.test(lines[0]) ? 0 : 1;
+    const timing = lines[timingIndex]?.match(TIMING_LINE);
+    if (!timing) return;
+
+    const start = parseTime(timing[1], timing[2], timing[3], timing[4]);
+    const end = parseTime(timing[5], timing[6], timing[7], timing[8]);
+
+    const raw = lines.slice(timingIndex + 1).join("\n");
+    const voice = raw.match(/<v(?:\.[^\s>]*)?\s+([^>]+)>/);
+    const cue = decodeEntities(
+      raw
+        .replace(/<[^>]*>/g, "")
+        .replace(/\{\\[^}]*\}/g, "")
+    )
+      .replace(/\s*\n\s*/g, " ")
+      .trim();
+    if (!cue) return;
+
+    segments.push({
+      start,
+      end: Math.max(start, end),
+      text: cue,
+      ...(voice && { speaker: speakerFor(voice[1].trim()) }),
+    });
+  });
+
+  segments.sort((a, b) => a.start - b.start);
+  return { format, segments, speakers };
+}
@@ -0,0 +1,238 @@
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import type { Json } from "@/integrations/supabase/database.types";
+import { indexTranscript } from "@/lib/ai/indexer";
+import { extractAudio, splitAudio, type AudioPiece } from "@/lib/media/audio";
+import { getDiarizer } from "@/lib/media/diarize";
+import { recordRevision } from "@/lib/media/revisions";
+import { assignSpeakers } from "@/lib/media/speakers";
+import { glossaryPrompt } from "@/lib/media/glossary";
+import { getTranscriber, type Transcriber, type TranscriberInput, type TranscriptionHints } from "@/lib/media/transcriber";
+import { attachWords } from "@/lib/media/words";
+import { downloadMedia } from "@/lib/media/stream";
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+/**
+ * Media transcription - reassembles the upload (chunked or not), extracts
+ * a down-sampled audio track, splits it into pieces under Whisper's upload
+ * limit, transcribes them in order (with word timings) with the project's
+ * transcription engine, language and glossary, and stitches the segments
+ * back together on the recording's timeline. When a diarizer is configured,
+ * segments are then labelled with their speaker.
+ */
+
+export interface TranscriptionResult {
+  transcriptId: string;
+  status: "completed" | "failed";
+  segmentCount?: number;
+  speakerCount?: number;
+  error?: string;
+}
+
+interface PieceTranscript {
+  text: string;
+  language?: string;
+  segments: TranscriptSegment[];
+}
+
+export interface TranscriptionOptions extends TranscriptionHints {
+  // Called with a percentage as the pipeline advances; may throw to abort
+  onProgress?: (percent: number) => Promise<void> | void;
+}
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY = 2000;
+
+async function transcribePiece(
+  transcriber: Transcriber,
+  piece: AudioPiece,
+  options: Omit<TranscriberInput, "audioPath" | "duration">
+): Promise<PieceTranscript> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const output = await transcriber.transcribe({ audioPath: piece.path, duration: piece.duration, ...options });
+
+      // Engines time each piece from zero; shift onto the recording's timeline
+      const shift = <T extends { start: number; end: number }>(item: T): T => ({
+        ...item,
+        start: item.start + piece.offset,
+        end: item.end + piece.offset,
+      });
+
+      return {
+        text: output.text,
+        language: output.language,
+        segments: attachWords(output.segments.map(shift), output.words.map(shift)),
+      };
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw error;
+      console.error(`Transcription attempt ${attempt} failed, retrying:`, error);
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY * attempt));
+    }
+  }
+}
+
+/**
+ * Label segments with their speaker. Diarization is an extra, so a failure
+ * leaves the segments unlabelled rather than failing the transcript.
+ */
+async function labelSpeakers(
+  segments: TranscriptSegment[],
+  audioPath: string,
+  duration: number
+): Promise<TranscriptSegment[]> {
+  const diarizer = getDiarizer();
+  if (!diarizer || segments.length === 0) return segments;
+
+  try {
+    const turns = await diarizer.diarize({ audioPath, duration });
+    return assignSpeakers(segments, turns);
+  } catch (error) {
+    console.error("Diarization failed, keeping unlabelled segments:", error);
+    return segments;
+  }
+}
+
+/**
+ * The transcription engine, model, language and glossary a project has
+ * chosen, if any
+ */
+async function projectTranscriptionSettings(projectId: string | null) {
+  if (!projectId) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from("project_settings")
+    .select("transcription_provider, transcription_model, transcription_language, glossary")
+    .eq("project_id", projectId)
+    .maybeSingle();
+
+  // Falling back to the defaults could send audio to an engine the project opted out of
+  if (error) throw error;
+
+  return data;
+}
+
+async function failTranscript(transcriptId: string, errorMessage: string) {
+  await supabaseAdmin
+    .from("transcripts")
+    .update({
+      status: "failed",
+      error_message: errorMessage,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", transcriptId);
+}
+
+/**
+ * Transcribe the media behind a transcript record and re-index it.
+ * Failures are recorded on the transcript rather than thrown.
+ */
+export async function transcribeMedia(
+  transcriptId: string,
+  { onProgress, ...hints }: TranscriptionOptions = {}
+): Promise<TranscriptionResult> {
+  let workDir: string | null = null;
+
+  try {
+    const { data: transcript, error: fetchError } = await supabaseAdmin
+      .from("transcripts")
+      .select("id, user_id, project_id, media_files(storage_path, file_size, file_type, mime_type, is_chunked, total_chunks, chunk_size)")
+      .eq("id", transcriptId)
+      .single();
+
+    const media = transcript?.media_files;
+    if (fetchError || !transcript || !media) {
+      throw new Error("Media file not found");
+    }
+
+    await supabaseAdmin
+      .from("transcripts")
+      .update({ status: "processing", error_message: null, updated_at: new Date().toISOString() })
+      .eq("id", transcriptId);
+
+    workDir = await mkdtemp(join(tmpdir(), "transcribe-"));
+    const source = join(workDir, "source");
+    const audio = join(workDir, "audio.mp3");
+    const piecesDir = join(workDir, "pieces");
+
+    await onProgress?.(5);
+    await downloadMedia(media, source);
+    await onProgress?.(15);
+    await extractAudio(source, audio);
+    // The original can be large; it isn't needed once the audio is out
+    await rm(source, { force: true });
+    await onProgress?.(25);
+
+    await mkdir(piecesDir);
+    const pieces = await splitAudio(audio, piecesDir);
+    await onProgress?.(30);
+
+    // Transcription takes most of the time: 30% to 85%
+    // Hints passed for this run take precedence over the project's settings
+    const settings = await projectTranscriptionSettings(transcript.project_id);
+    const transcriber = getTranscriber(settings?.transcription_provider);
+    const options = {
+      language: hints.language || settings?.transcription_language,
+      prompt: glossaryPrompt(settings?.glossary ?? [], hints.prompt),
+      model: settings?.transcription_model,
+    };
+    const results: PieceTranscript[] = [];
+    for (const piece of pieces) {
+      results.push(await transcribePiece(transcriber, piece, options));
+      await onProgress?.(30 + (55 * results.length) / pieces.length);
+    }
+
+    const last = pieces[pieces.length - 1];
+    const segments = await labelSpeakers(
+      results.flatMap((result) => result.segments),
+      audio,
+      last ? last.offset + last.duration : 0
+    );
+    await onProgress?.(95);
+    const fullText = results.map((result) => result.text).filter(Boolean).join(" ");
+
+    const { error: updateError } = await supabaseAdmin
+      .from("transcripts")
+      .update({
+        full_text: fullText,
+        language: results.find((result) => result.language)?.language ?? null,
+        segments: segments as unknown as Json,
+        status: "completed",
+        error_message: null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq("id", transcriptId);
+
+    if (updateError) throw updateError;
+
+    // The transcript is saved; losing its history entry shouldn't fail it
+    try {
+      await recordRevision(transcriptId, { userId: transcript.user_id, segments, summary: "Transcribed" });
+    } catch (revisionError) {
+      console.error("Failed to record transcript revision:", revisionError);
+    }
+
+    // Make the new transcript searchable; a failure here shouldn't fail transcription
+    try {
+      await indexTranscript(transcriptId);
+    } catch (indexError) {
+      console.error("Failed to index transcript:", indexError);
+    }
+
+    return {
+      transcriptId,
+      status: "completed",
+      segmentCount: segments.length,
+      speakerCount: new Set(segments.map((segment) => segment.speaker).filter(Boolean)).size,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Transcription failed";
+    console.error("Transcription error:", error);
+    await failTranscript(transcriptId, message);
+    return { transcriptId, status: "failed", error: message };
+  } finally {
+    if (workDir) await rm(workDir, { recursive: true, force: true });
+  }
+}
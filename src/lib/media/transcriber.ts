@@ -0,0 +1,251 @@
+import { execFile } from "child_process";
+import { createReadStream } from "fs";
+import { readFile, rm } from "fs/promises";
+import { join } from "path";
+import { promisify } from "util";
+import OpenAI from "openai";
+import { convertToWav } from "@/lib/media/audio";
+import type { TimedWord } from "@/lib/media/words";
+
+/**
+ * Transcription engines - turn one audio piece into timed segments and
+ * words. The pipeline in transcribe.ts splits, retries and stitches;
+ * engines only see one piece at a time, with times relative to it.
+ * - "openai" (default): Whisper through the OpenAI API
+ * - "local": a whisper.cpp-style binary on this machine, so recordings
+ *   never leave our infrastructure
+ * - "fake": fixture-based, for tests and offline development; only
+ *   selectable with TRANSCRIPTION_PROVIDER, never per project
+ *
+ * Chosen per project (project_settings.transcription_provider), else with
+ * TRANSCRIPTION_PROVIDER, or swapped programmatically with setTranscriber().
+ */
+
+export type TranscriptionProvider = "openai" | "local" | "fake";
+
+export const TRANSCRIPTION_PROVIDERS: TranscriptionProvider[] = ["openai", "local", "fake"];
+
+// Engines a project can choose (see the project_settings CHECK constraint)
+export type ProjectTranscriptionProvider = Exclude<TranscriptionProvider, "fake">;
+
+export const PROJECT_TRANSCRIPTION_PROVIDERS: ProjectTranscriptionProvider[] = ["openai", "local"];
+
+export interface TranscriptionHints {
+  // ISO-639-1 code of the spoken language; detected when omitted
+  language?: string | null;
+  // Vocabulary and style the engine should follow (names, terms, spelling)
+  prompt?: string | null;
+}
+
+export interface TranscriberInput extends TranscriptionHints {
+  audioPath: string;
+  // Length of the piece in seconds
+  duration: number;
+  // Engine-specific model name; the engine's default when omitted
+  model?: string | null;
+}
+
+export interface TranscriberOutput {
+  text: string;
+  language?: string;
+  segments: { start: number; end: number; text: string }[];
+  words: TimedWord[];
+}
+
+export interface Transcriber {
+  transcribe(input: TranscriberInput): Promise<TranscriberOutput>;
+}
+
+export function createOpenAITranscriber(
+  openai: OpenAI = new OpenAI({ apiKey: process.env.OPENAI_API_KEY }),
+  defaultModel = process.env.OPENAI_TRANSCRIPTION_MODEL || "whisper-1"
+): Transcriber {
+  return {
+    async transcribe({ audioPath, language, prompt, model }) {
+      const transcription = await openai.audio.transcriptions.create({
+        file: createReadStream(audioPath),
+        model: model || defaultModel,
+        response_format: "verbose_json",
+        timestamp_granularities: ["segment", "word"],
+        ...(language && { language }),
+        ...(prompt && { prompt }),
+      });
+
+      return {
+        text: transcription.text.trim(),
+        language: transcription.language,
+        segments: (transcription.segments || []).map((seg) => ({ start: seg.start, end: seg.end, text: seg.text.trim() })),
+        words: (transcription.words || []).map((word) => ({ text: word.word.trim(), start: word.start, end: word.end })),
+      };
+    },
+  };
+}
+
+// Shape of whisper.cpp's --output-json-full file (the parts we read)
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription?: {
+    offsets: { from: number; to: number };
+    text: string;
+    tokens?: { text: string; offsets?: { from: number; to: number } }[];
+  }[];
+}
+
+const runBinary = promisify(execFile);
+
+/**
+ * Words from whisper.cpp's tokens: a token starting with a space begins a
+ * new word, and control tokens ("[_BEG_]", "[_TT_150]") are skipped. Builds
+ * without token timestamps report zero offsets, so no words are returned.
+ */
+function wordsFromTokens(output: WhisperCppOutput): TimedWord[] {
+  const words: TimedWord[] = [];
+  (output.transcription || []).forEach((segment) => {
+    (segment.tokens || []).forEach((token) => {
+      if (!token.offsets || token.text.startsWith("[_")) return;
+      const start = token.offsets.from / 1000;
+      const end = token.offsets.to / 1000;
+      const last = words[words.length - 1];
+      if (last && !/^\s/.test(token.text)) {
+        last.text += token.text;
+        last.end = end;
+      } else if (token.text.trim()) {
+        words.push({ text: token.text.trim(), start, end });
+      }
+    });
+  });
+  return words.some((word) => word.end > 0) ? words : [];
+}
+
+/**
+ * Runs whisper.cpp's CLI (WHISPER_CPP_PATH, default "whisper-cli") with the
+ * ggml model at WHISPER_CPP_MODEL. A named model ("small", "large-v3") is
+ * read from `ggml-<name>.bin` in WHISPER_CPP_MODEL_DIR instead. The piece
+ * is converted to WAV first, which is all the CLI reads.
+ */
+export function createLocalTranscriber(
+  binary = process.env.WHISPER_CPP_PATH || "whisper-cli",
+  defaultModel = process.env.WHISPER_CPP_MODEL,
+  threads = process.env.WHISPER_CPP_THREADS,
+  modelDir = process.env.WHISPER_CPP_MODEL_DIR
+): Transcriber {
+  return {
+    async transcribe({ audioPath, language, prompt, model: modelName }) {
+      if (modelName && !/^[\w.-]+$/.test(modelName)) throw new Error(`Invalid model name "${modelName}"`);
+      if (modelName && !modelDir) throw new Error("WHISPER_CPP_MODEL_DIR is not set");
+      const model = modelName && modelDir ? join(modelDir, `ggml-${modelName}.bin`) : defaultModel;
+      if (!model) throw new Error("WHISPER_CPP_MODEL is not set");
+
+      const wavPath = `${audioPath}.wav`;
+      const outputBase = `${audioPath}.whisper`;
+      try {
+        await convertToWav(audioPath, wavPath);
+        await runBinary(
+          binary,
+          [
+            "-m", model,
+            "-f", wavPath,
+            "-l", language || "auto",
+            "--output-json-full",
+            "-of", outputBase,
+            "--no-prints",
+            ...(threads ? ["-t", threads] : []),
+            ...(prompt ? ["--prompt", prompt] : []),
+          ],
+          { maxBuffer: 16 * 1024 * 1024 }
+        );
+
+        const output = JSON.parse(await readFile(`${outputBase}.json`, "utf8")) as WhisperCppOutput;
+        const segments = (output.transcription || [])
+          .map((segment) => ({
+            start: segment.offsets.from / 1000,
+            end: segment.offsets.to / 1000,
+            text: segment.text.trim(),
+          }))
+          .filter((segment) => segment.text);
+
+        return {
+          text: segments.map((segment) => segment.text).join(" "),
+          language: output.result?.language,
+          segments,
+          words: wordsFromTokens(output),
+        };
+      } finally {
+        await rm(wavPath, { force: true });
+        await rm(`${outputBase}.json`, { force: true });
+      }
+    },
+  };
+}
+
+const DEFAULT_FIXTURE: TranscriberOutput = {
+  text: "Welcome to the lecture. Today we cover the main ideas.",
+  language: "english",
+  segments: [
+    { start: 0, end: 2.5, text: "Welcome to the lecture." },
+    { start: 2.5, end: 5, text: "Today we cover the main ideas." },
+  ],
+  words: [],
+};
+
+/**
+ * Returns the same transcript for every piece: the JSON fixture at
+ * `fixturePath` (TRANSCRIPTION_FIXTURE, in TranscriberOutput's shape) or a
+ * short built-in one. Segments past the end of a piece are dropped.
+ */
+export function createFakeTranscriber(fixturePath = process.env.TRANSCRIPTION_FIXTURE): Transcriber {
+  let fixture: Promise<TranscriberOutput> | null = null;
+  const load = async (): Promise<TranscriberOutput> => {
+    if (!fixturePath) return DEFAULT_FIXTURE;
+    const parsed = JSON.parse(await readFile(fixturePath, "utf8")) as Partial<TranscriberOutput>;
+    return { text: parsed.text || "", language: parsed.language, segments: parsed.segments || [], words: parsed.words || [] };
+  };
+
+  return {
+    async transcribe({ duration }) {
+      fixture ??= load();
+      const { language, segments, words } = await fixture;
+      const inPiece = segments.filter((segment) => segment.start < duration);
+      return {
+        text: inPiece.map((segment) => segment.text).join(" "),
+        language,
+        segments: inPiece,
+        words: words.filter((word) => word.start < duration),
+      };
+    },
+  };
+}
+
+const transcribers = new Map<TranscriptionProvider, Transcriber>();
+let override: Transcriber | null = null;
+
+const isProvider = (value: unknown): value is TranscriptionProvider =>
+  TRANSCRIPTION_PROVIDERS.includes(value as TranscriptionProvider);
+
+const isProjectProvider = (value: unknown): value is ProjectTranscriptionProvider =>
+  PROJECT_TRANSCRIPTION_PROVIDERS.includes(value as ProjectTranscriptionProvider);
+
+/**
+ * The engine for `provider` (a project's choice), falling back to
+ * TRANSCRIPTION_PROVIDER and then OpenAI
+ */
+export function getTranscriber(provider?: string | null): Transcriber {
+  if (override) return override;
+
+  const envProvider = process.env.TRANSCRIPTION_PROVIDER;
+  const name: TranscriptionProvider = isProjectProvider(provider) ? provider : isProvider(envProvider) ? envProvider : "openai";
+
+  let transcriber = transcribers.get(name);
+  if (!transcriber) {
+    transcriber = name === "local" ? createLocalTranscriber() : name === "fake" ? createFakeTranscriber() : createOpenAITranscriber();
+    transcribers.set(name, transcriber);
+  }
+  return transcriber;
+}
+
+/**
+ * Override the engine used for every project (pass null to reset)
+ */
+export function setTranscriber(transcriber: Transcriber | null): void {
+  override = transcriber;
+}
@@ -0,0 +1,133 @@
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+/**
+ * Diffs between transcript revisions. Pure functions only.
+ *
+ * Segments are aligned first (longest common subsequence); removed and
+ * added segments that sit between the same neighbours are paired up as
+ * changes and diffed word by word.
+ */
+
+export interface DiffPart {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export type SegmentDiff =
+  | { type: "same"; before: TranscriptSegment; after: TranscriptSegment }
+  | { type: "changed"; before: TranscriptSegment; after: TranscriptSegment; parts: DiffPart[] }
+  | { type: "removed"; before: TranscriptSegment }
+  | { type: "added"; after: TranscriptSegment };
+
+// Above this many comparisons the unmatched middle is reported as a
+// replacement instead of aligned, to bound time and memory
+const MAX_LCS_CELLS = 4_000_000;
+
+type Edit<T> = { type: "same"; a: T; b: T } | { type: "removed"; a: T } | { type: "added"; b: T };
+
+function diffSequences<T>(a: T[], b: T[], equal: (x: T, y: T) => boolean): Edit<T>[] {
+  // Common prefix and suffix first; edits are usually local
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && equal(a[prefix], b[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    equal(a[a.length - 1 - suffix], b[b.length - 1 - suffix])
+  ) suffix++;
+
+  const head: Edit<T>[] = a.slice(0, prefix).map((item, i) => ({ type: "same", a: item, b: b[i] }));
+  const tail: Edit<T>[] = a.slice(a.length - suffix).map((item, i) => ({ type: "same", a: item, b: b[b.length - suffix + i] }));
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+
+  const middle: Edit<T>[] = [];
+  if ((midA.length + 1) * (midB.length + 1) > MAX_LCS_CELLS) {
+    midA.forEach((item) => middle.push({ type: "removed", a: item }));
+    midB.forEach((item) => middle.push({ type: "added", b: item }));
+  } else {
+    // lengths[i][j]: LCS length of midA[i..] and midB[j..]
+    const width = midB.length + 1;
+    const lengths = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = equal(midA[i], midB[j])
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length || j < midB.length) {
+      if (i < midA.length && j < midB.length && equal(midA[i], midB[j])) {
+        middle.push({ type: "same", a: midA[i++], b: midB[j++] });
+      } else if (j < midB.length && (i >= midA.length || lengths[i * width + j + 1] >= lengths[(i + 1) * width + j])) {
+        middle.push({ type: "added", b: midB[j++] });
+      } else {
+        middle.push({ type: "removed", a: midA[i++] });
+      }
+    }
+  }
+
+  return [...head, ...middle, ...tail];
+}
+
+/**
+ * Word-level diff of two strings; whitespace is kept with the word before it
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokenize = (text: string) => text.match(/\S+\s*/g) || [];
+  const edits = diffSequences(tokenize(before), tokenize(after), (x, y) => x.trim() === y.trim());
+
+  const parts: DiffPart[] = [];
+  edits.forEach((edit) => {
+    const text = edit.type === "removed" ? edit.a : edit.b;
+    const last = parts[parts.length - 1];
+    if (last?.type === edit.type) {
+      last.text += text;
+    } else {
+      parts.push({ type: edit.type, text });
+    }
+  });
+  return parts;
+}
+
+const sameSegment = (a: TranscriptSegment, b: TranscriptSegment) =>
+  a.text.trim() === b.text.trim() && a.start === b.start && a.end === b.end && a.speaker === b.speaker;
+
+/**
+ * Segment-by-segment diff from one revision to another
+ */
+export function diffSegments(before: TranscriptSegment[], after: TranscriptSegment[]): SegmentDiff[] {
+  const edits = diffSequences(before, after, sameSegment);
+  const result: SegmentDiff[] = [];
+
+  // Pair up runs of removals and additions between unchanged segments
+  let removed: TranscriptSegment[] = [];
+  let added: TranscriptSegment[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) {
+      result.push({ type: "changed", before: removed[i], after: added[i], parts: diffWords(removed[i].text, added[i].text) });
+    }
+    removed.slice(paired).forEach((segment) => result.push({ type: "removed", before: segment }));
+    added.slice(paired).forEach((segment) => result.push({ type: "added", after: segment }));
+    removed = [];
+    added = [];
+  };
+
+  edits.forEach((edit) => {
+    if (edit.type === "same") {
+      flush();
+      result.push({ type: "same", before: edit.a, after: edit.b });
+    } else if (edit.type === "removed") {
+      removed.push(edit.a);
+    } else {
+      added.push(edit.b);
+    }
+  });
+  flush();
+
+  return result;
+}
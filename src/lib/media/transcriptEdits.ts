@@ -0,0 +1,138 @@
+import { locateWords } from "@/lib/media/words";
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+/**
+ * Transcript editing operations. Pure functions only - each returns new
+ * segments and leaves its input untouched. Word timings are kept where
+ * they still fit the edited text and time range.
+ */
+
+export interface ReplaceOptions {
+  matchCase?: boolean;
+  wholeWord?: boolean;
+}
+
+/**
+ * Text stored in transcripts.full_text for a set of segments
+ */
+export function transcriptText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text.trim()).filter(Boolean).join(" ");
+}
+
+/**
+ * Replace a segment's text, dropping word timings for words that are no
+ * longer in it
+ */
+export function setSegmentText(segment: TranscriptSegment, text: string): TranscriptSegment {
+  const { words, ...rest } = segment;
+  if (!words) return { ...rest, text };
+
+  const ranges = locateWords(text, words);
+  const kept = words.filter((_, i) => ranges[i]);
+  return kept.length > 0 ? { ...rest, text, words: kept } : { ...rest, text };
+}
+
+/**
+ * Move a segment's boundaries, dropping word timings outside them
+ */
+export function setSegmentBounds(segment: TranscriptSegment, start: number, end: number): TranscriptSegment {
+  const { words, ...rest } = segment;
+  const kept = words?.filter((word) => word.start >= start && word.end <= end);
+  return kept?.length ? { ...rest, start, end, words: kept } : { ...rest, start, end };
+}
+
+/**
+ * Split a segment in two at a character offset. The split time is the
+ * start of the first timed word after the offset, or proportional to the
+ * text when there are no word timings.
+ */
+export function splitSegment(segments: TranscriptSegment[], index: number, offset: number): TranscriptSegment[] {
+  const segment = segments[index];
+  if (!segment) return segments;
+
+  const before = segment.text.slice(0, offset).trim();
+  const after = segment.text.slice(offset).trim();
+  if (!before || !after) return segments;
+
+  const words = segment.words || [];
+  const ranges = locateWords(segment.text, words);
+  const firstAfter = ranges.findIndex((range) => range !== null && range.start >= offset);
+
+  const time = firstAfter > 0
+    ? words[firstAfter].start
+    : segment.start + ((segment.end - segment.start) * offset) / segment.text.length;
+
+  const head: TranscriptSegment = { ...segment, end: time, text: before, words: undefined };
+  const tail: TranscriptSegment = { ...segment, start: time, text: after, words: undefined };
+  if (firstAfter > 0) {
+    head.words = words.slice(0, firstAfter);
+    tail.words = words.slice(firstAfter);
+  }
+
+  return [
+    ...segments.slice(0, index),
+    setSegmentText(head, before),
+    setSegmentText(tail, after),
+    ...segments.slice(index + 1),
+  ];
+}
+
+/**
+ * Merge a segment with the one after it. The merged segment keeps the
+ * first one's speaker.
+ */
+export function mergeWithNext(segments: TranscriptSegment[], index: number): TranscriptSegment[] {
+  const first = segments[index];
+  const second = segments[index + 1];
+  if (!first || !second) return segments;
+
+  const words = [...(first.words || []), ...(second.words || [])];
+  const merged: TranscriptSegment = {
+    ...first,
+    start: Math.min(first.start, second.start),
+    end: Math.max(first.end, second.end),
+    text: `${first.text.trim()} ${second.text.trim()}`.trim(),
+    ...(words.length > 0 && { words }),
+  };
+
+  return [...segments.slice(0, index), merged, ...segments.slice(index + 2)];
+}
+
+function findPattern(find: string, { matchCase = false, wholeWord = false }: ReplaceOptions): RegExp | null {
+  if (!find) return null;
+  const escaped = find.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const source = wholeWord ? `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])` : escaped;
+  return new RegExp(source, matchCase ? "gu" : "giu");
+}
+
+/**
+ * Number of occurrences of `find` across the transcript
+ */
+export function countOccurrences(segments: TranscriptSegment[], find: string, options: ReplaceOptions = {}): number {
+  const pattern = findPattern(find, options);
+  if (!pattern) return 0;
+  return segments.reduce((count, segment) => count + (segment.text.match(pattern)?.length ?? 0), 0);
+}
+
+/**
+ * Replace every occurrence of `find` in every segment
+ */
+export function replaceAll(
+  segments: TranscriptSegment[],
+  find: string,
+  replacement: string,
+  options: ReplaceOptions = {}
+): { segments: TranscriptSegment[]; count: number } {
+  const pattern = findPattern(find, options);
+  if (!pattern) return { segments, count: 0 };
+
+  let count = 0;
+  const replaced = segments.map((segment) => {
+    const matches = segment.text.match(pattern)?.length ?? 0;
+    if (matches === 0) return segment;
+    count += matches;
+    return setSegmentText(segment, segment.text.replace(pattern, () => replacement));
+  });
+
+  return { segments: replaced, count };
+}
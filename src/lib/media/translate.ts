@@ -0,0 +1,109 @@
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import type { Json, Tables } from "@/integrations/supabase/database.types";
+import { getTranslator } from "@/lib/ai/translator";
+import { transcriptText } from "@/lib/media/transcriptEdits";
+import type { TranscriptSegment } from "@/services/transcriptService";
+
+/**
+ * Transcript translation - translates a completed transcript's segments
+ * into a target language in batches, keeping each segment's timings and
+ * speaker, and stores them as that language's row in
+ * transcript_translations.
+ */
+
+export type TranscriptTranslation = Tables<"transcript_translations">;
+
+export interface TranslationOptions {
+  onProgress?: (percent: number) => Promise<void> | void;
+}
+
+export interface TranslationResult {
+  transcriptId: string;
+  language: string;
+  status: "completed" | "failed";
+  segmentCount?: number;
+  error?: string;
+}
+
+// Segments per request; small enough that a reply stays well under the
+// model's output limit
+const BATCH_SIZE = 40;
+
+async function setTranslationStatus(
+  transcriptId: string,
+  language: string,
+  update: Partial<TranscriptTranslation>
+) {
+  const { error } = await supabaseAdmin
+    .from("transcript_translations")
+    .upsert(
+      { transcript_id: transcriptId, language, ...update, updated_at: new Date().toISOString() },
+      { onConflict: "transcript_id,language" }
+    );
+
+  if (error) throw error;
+}
+
+/**
+ * Translate a transcript into `language`. Failures are recorded on the
+ * translation rather than thrown.
+ */
+export async function translateTranscript(
+  transcriptId: string,
+  language: string,
+  { onProgress }: TranslationOptions = {}
+): Promise<TranslationResult> {
+  try {
+    const { data: transcript, error: fetchError } = await supabaseAdmin
+      .from("transcripts")
+      .select("id, status, language, segments, updated_at")
+      .eq("id", transcriptId)
+      .single();
+
+    if (fetchError || !transcript) {
+      throw new Error("Transcript not found");
+    }
+    if (transcript.status !== "completed") {
+      throw new Error("Transcript is not ready to translate");
+    }
+
+    await setTranslationStatus(transcriptId, language, { status: "processing", error_message: null });
+    await onProgress?.(5);
+
+    const source = (transcript.segments as unknown as TranscriptSegment[]) || [];
+    const translator = getTranslator();
+    const translated: TranscriptSegment[] = [];
+
+    for (let i = 0; i < source.length; i += BATCH_SIZE) {
+      const batch = source.slice(i, i + BATCH_SIZE);
+      const texts = await translator.translate({
+        texts: batch.map((segment) => segment.text.trim()),
+        target: language,
+        source: transcript.language,
+      });
+
+      // Word timings belong to the original wording, so they aren't carried over
+      batch.forEach(({ start, end, speaker }, j) => {
+        translated.push({ start, end, text: texts[j], ...(speaker && { speaker }) });
+      });
+      await onProgress?.(5 + (90 * translated.length) / source.length);
+    }
+
+    await setTranslationStatus(transcriptId, language, {
+      segments: translated as unknown as Json,
+      full_text: transcriptText(translated),
+      status: "completed",
+      error_message: null,
+      source_updated_at: transcript.updated_at,
+    });
+
+    return { transcriptId, language, status: "completed", segmentCount: translated.length };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Translation failed";
+    console.error("Translation error:", error);
+    await setTranslationStatus(transcriptId, language, { status: "failed", error_message: message }).catch(
+      (statusError) => console.error("Failed to record translation error:", statusError)
+    );
+    return { transcriptId, language, status: "failed", error: message };
+  }
+}
@@ -0,0 +1,80 @@
+import type { TextMatch } from "@/lib/ai/types";
+
+/**
+ * Word-level timings for transcripts. Pure functions only - shared by the
+ * transcription pipeline and the transcript view.
+ */
+
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Give each segment the words that start during it. Both lists must be in
+ * time order; words before the first segment go to the first one.
+ */
+export function attachWords<T extends { start: number; end: number }>(
+  segments: T[],
+  words: TimedWord[]
+): (T & { words?: TimedWord[] })[] {
+  if (words.length === 0 || segments.length === 0) return segments;
+
+  const grouped: TimedWord[][] = segments.map(() => []);
+  let current = 0;
+  words.forEach((word) => {
+    while (current + 1 < segments.length && segments[current + 1].start <= word.start) current++;
+    grouped[current].push(word);
+  });
+
+  return segments.map((segment, i) => (grouped[i].length > 0 ? { ...segment, words: grouped[i] } : segment));
+}
+
+/**
+ * Character range of each word within its segment's text, or null where a
+ * word can't be found. Whisper's words carry no punctuation, so they are
+ * matched case-insensitively, in order.
+ */
+export function locateWords(text: string, words: TimedWord[]): (TextMatch | null)[] {
+  const lower = text.toLowerCase();
+  let cursor = 0;
+
+  return words.map((word) => {
+    const needle = word.text.trim().toLowerCase();
+    if (!needle) return null;
+
+    const start = lower.indexOf(needle, cursor);
+    if (start === -1) return null;
+
+    cursor = start + needle.length;
+    return { start, end: cursor };
+  });
+}
+
+/**
+ * Index of the word being spoken at `time`, or -1 between words
+ */
+export function wordAt(words: TimedWord[], time: number): number {
+  return words.findIndex((word) => time >= word.start && time < word.end);
+}
+
+/**
+ * Playhead position with tenths of a second, e.g. "1:02.3" or "1:00:02.3"
+ */
+export function formatTimestamp(seconds: number): string {
+  const tenths = Math.floor(seconds * 10) / 10;
+  const hours = Math.floor(tenths / 3600);
+  const minutes = Math.floor((tenths % 3600) / 60);
+  const rest = (tenths % 60).toFixed(1).padStart(4, "0");
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${rest}`
+    : `${minutes}:${rest}`;
+}
+
+/**
+ * A quote with the exact time range it was spoken in
+ */
+export function formatQuote(text: string, start: number, end: number): string {
+  return `"${text.trim()}" [${formatTimestamp(start)} - ${formatTimestamp(end)}]`;
+}
@@ -1,4 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, userOwnsProject } from "@/integrations/supabase/server";
+import { answerQuestion, MAX_MATCH_COUNT } from "@/lib/ai/rag";
+import type { SearchFilters } from "@/lib/ai/types";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,21 +12,40 @@ export default async function handler(
   }
 
   try {
-    const { projectId, question } = req.body;
-
-    // TODO: Implement RAG (Retrieval-Augmented Generation)
-    // 1. Generate embedding for question
-    // 2. Search for relevant context in embeddings
-    // 3. Pass context + question to GPT
-    // 4. Return answer with sources
-
-    // Placeholder response
-    return res.status(200).json({
-      answer: "AI Q&A will be implemented with OpenAI GPT API and RAG",
-      sources: []
-    });
+    const { projectId, question, matchCount, filters = {} } = req.body as {
+      projectId?: string;
+      question?: string;
+      matchCount?: number;
+      filters?: SearchFilters;
+    };
+
+    if (!projectId || !question?.trim()) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    if (matchCount !== undefined && !(Number.isInteger(matchCount) && matchCount > 0)) {
+      return res.status(400).json({ error: "matchCount must be a positive integer" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (!(await userOwnsProject(user.id, projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const result = await answerQuestion(
+      projectId,
+      question.trim(),
+      matchCount === undefined ? undefined : Math.min(matchCount, MAX_MATCH_COUNT),
+      filters
+    );
+
+    return res.status(200).json(result);
   } catch (error) {
     console.error("Q&A error:", error);
     return res.status(500).json({ error: "Failed to answer question" });
   }
-}
\ No newline at end of file
+}
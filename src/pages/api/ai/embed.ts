@@ -1,4 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser } from "@/integrations/supabase/server";
+import { getAIClient } from "@/lib/ai/client";
 
 export default async function handler(
   req: NextApiRequest,
@@ -11,15 +13,19 @@ export default async function handler(
   try {
     const { text } = req.body;
 
-    // TODO: Implement OpenAI Embeddings API
-    // Generate embedding vector for text
+    if (!text?.trim()) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
 
-    // Placeholder response
-    return res.status(200).json({
-      embedding: new Array(1536).fill(0) // OpenAI embedding dimension
-    });
+    if (!(await getRequestUser(req))) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const [embedding] = await getAIClient().embed([text]);
+
+    return res.status(200).json({ embedding });
   } catch (error) {
     console.error("Embedding error:", error);
     return res.status(500).json({ error: "Failed to generate embedding" });
   }
-}
\ No newline at end of file
+}
@@ -1,4 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, userOwnsProject } from "@/integrations/supabase/server";
+import { hybridSearch, MAX_SEARCH_LIMIT, semanticSearch } from "@/lib/ai/search";
+import { SEARCH_MODES, type SearchFilters, type SearchMode } from "@/lib/ai/types";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,17 +12,46 @@ export default async function handler(
   }
 
   try {
-    const { projectId, query } = req.body;
+    const { projectId, query, filters = {}, limit, mode = "hybrid" } = req.body as {
+      projectId?: string;
+      query?: string;
+      filters?: SearchFilters;
+      limit?: number;
+      mode?: SearchMode;
+    };
 
-    // TODO: Implement semantic search
-    // 1. Generate embedding for query using OpenAI
-    // 2. Search embeddings table using pgvector
-    // 3. Return relevant results
+    if (!projectId || !query?.trim()) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
 
-    // Placeholder response
-    return res.status(200).json([]);
+    if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+      return res.status(400).json({ error: "limit must be a positive integer" });
+    }
+
+    if (!SEARCH_MODES.includes(mode)) {
+      return res.status(400).json({ error: "mode must be \"semantic\" or \"hybrid\"" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (!(await userOwnsProject(user.id, projectId))) {
+      return res.status(404).json({ error: "Project not found" });
+    }
+
+    const search = mode === "semantic" ? semanticSearch : hybridSearch;
+    const hits = await search(
+      projectId,
+      query.trim(),
+      filters,
+      limit === undefined ? undefined : Math.min(limit, MAX_SEARCH_LIMIT)
+    );
+
+    return res.status(200).json(hits);
   } catch (error) {
     console.error("Search error:", error);
     return res.status(500).json({ error: "Failed to perform search" });
   }
-}
\ No newline at end of file
+}
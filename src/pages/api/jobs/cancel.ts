@@ -0,0 +1,45 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, supabaseAdmin, userOwnsProject } from "@/integrations/supabase/server";
+import { cancelJob } from "@/lib/jobs/queue";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { jobId } = req.body;
+
+    if (!jobId) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from("jobs")
+      .select("project_id")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (!existing || !(await userOwnsProject(user.id, existing.project_id))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const job = await cancelJob(jobId);
+    if (!job) {
+      return res.status(409).json({ error: "Job has already finished" });
+    }
+
+    return res.status(200).json({ job });
+  } catch (error) {
+    console.error("Cancel job error:", error);
+    return res.status(500).json({ error: "Failed to cancel job" });
+  }
+}
@@ -0,0 +1,43 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, userOwnsProject } from "@/integrations/supabase/server";
+import { enqueueJob, parseJobPayload, resolveJobTarget } from "@/lib/jobs/queue";
+import { JOB_TYPES } from "@/lib/jobs/types";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { type } = req.body;
+
+    if (!JOB_TYPES.includes(type)) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const payload = parseJobPayload(type, req.body.payload);
+    if (!payload) {
+      return res.status(400).json({ error: "Invalid job payload" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const target = await resolveJobTarget(type, payload);
+    if (!target || !(await userOwnsProject(user.id, target.projectId))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const job = await enqueueJob(user.id, type, payload, target);
+
+    return res.status(202).json({ job });
+  } catch (error) {
+    console.error("Enqueue job error:", error);
+    return res.status(500).json({ error: "Failed to queue job" });
+  }
+}
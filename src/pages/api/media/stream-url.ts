@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, supabaseAdmin, userOwnsProject } from "@/integrations/supabase/server";
+import { signedStreamUrl } from "@/lib/media/streamUrls";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { mediaFileId } = req.body;
+
+    if (typeof mediaFileId !== "string" || !mediaFileId) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { data: media } = await supabaseAdmin
+      .from("media_files")
+      .select("project_id")
+      .eq("id", mediaFileId)
+      .maybeSingle();
+
+    if (!media || !(await userOwnsProject(user.id, media.project_id))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    return res.status(200).json({ url: signedStreamUrl(mediaFileId) });
+  } catch (error) {
+    console.error("Stream URL error:", error);
+    return res.status(500).json({ error: "Failed to create stream URL" });
+  }
+}
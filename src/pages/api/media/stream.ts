@@ -0,0 +1,81 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/integrations/supabase/server";
+import { contentTypeOf, mediaSize, parseRange, streamRange } from "@/lib/media/stream";
+import { verifyStreamSignature } from "@/lib/media/streamUrls";
+
+export const config = {
+  api: {
+    // Ranges are streamed through, not buffered
+    responseLimit: false,
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  // Aborts when the connection closes before the range is fully sent
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const { id, expires, signature } = req.query;
+
+    if (typeof id !== "string" || !id || typeof expires !== "string" || typeof signature !== "string") {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    // Signed by /api/media/stream-url once it has checked the user owns the file
+    if (!verifyStreamSignature(id, expires, signature)) {
+      return res.status(403).json({ error: "Invalid or expired stream URL" });
+    }
+
+    const { data: media } = await supabaseAdmin
+      .from("media_files")
+      .select("storage_path, file_size, file_type, mime_type, is_chunked, total_chunks, chunk_size")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!media) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const size = await mediaSize(media);
+    const rangeHeader = req.headers.range;
+    const range = rangeHeader ? parseRange(rangeHeader, size) : { start: 0, end: size - 1 };
+
+    if (!range) {
+      res.setHeader("Content-Range", `bytes */${size}`);
+      return res.status(416).end();
+    }
+
+    res.status(rangeHeader ? 206 : 200);
+    res.setHeader("Content-Type", contentTypeOf(media));
+    res.setHeader("Content-Length", range.end - range.start + 1);
+    res.setHeader("Accept-Ranges", "bytes");
+    res.setHeader("Cache-Control", "private, no-store");
+    if (rangeHeader) {
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    }
+    res.flushHeaders();
+
+    await streamRange(res, media, range, controller.signal);
+    res.end();
+  } catch (error) {
+    // The player dropped the request, e.g. to seek elsewhere
+    if (controller.signal.aborted) return;
+
+    console.error("Media stream error:", error);
+    if (res.headersSent) {
+      res.destroy();
+    } else {
+      res.status(500).json({ error: "Failed to stream media" });
+    }
+  }
+}
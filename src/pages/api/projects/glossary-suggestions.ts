@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, supabaseAdmin, userOwnsProject } from "@/integrations/supabase/server";
+import { suggestGlossaryTerms } from "@/lib/media/glossary";
+
+// Enough text to find a course's recurring terms without reading every
+// page of a large reader
+const MAX_CHARS_PER_DOCUMENT = 200_000;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { projectId } = req.body;
+
+    if (!projectId) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    if (!(await userOwnsProject(user.id, projectId))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const [{ data: documents, error }, { data: settings }] = await Promise.all([
+      supabaseAdmin.from("documents").select("extracted_text").eq("project_id", projectId),
+      supabaseAdmin.from("project_settings").select("glossary").eq("project_id", projectId).maybeSingle(),
+    ]);
+
+    if (error) throw error;
+
+    const texts = (documents || [])
+      .map((doc) => (doc.extracted_text || "").slice(0, MAX_CHARS_PER_DOCUMENT))
+      .filter(Boolean);
+
+    return res.status(200).json({ terms: suggestGlossaryTerms(texts, settings?.glossary ?? []) });
+  } catch (error) {
+    console.error("Glossary suggestion error:", error);
+    return res.status(500).json({ error: "Failed to suggest glossary terms" });
+  }
+}
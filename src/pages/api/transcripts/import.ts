@@ -0,0 +1,118 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, supabaseAdmin, userOwnsProject } from "@/integrations/supabase/server";
+import type { Json } from "@/integrations/supabase/database.types";
+import { enqueueJob, hasActiveJob } from "@/lib/jobs/queue";
+import { recordRevision, RevisionConflictError, saveTranscriptEdit } from "@/lib/media/revisions";
+import { parseSubtitles } from "@/lib/media/subtitles";
+import { transcriptText } from "@/lib/media/transcriptEdits";
+
+export const config = {
+  api: {
+    // Captions for a long recording can run to a few megabytes
+    bodyParser: { sizeLimit: "10mb" },
+  },
+};
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { mediaFileId, content } = req.body;
+
+    if (!mediaFileId || typeof content !== "string") {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const { data: media } = await supabaseAdmin
+      .from("media_files")
+      .select("project_id")
+      .eq("id", mediaFileId)
+      .maybeSingle();
+
+    if (!media || !(await userOwnsProject(user.id, media.project_id))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const { format, segments, speakers } = parseSubtitles(content);
+    if (segments.length === 0) {
+      return res.status(422).json({ error: "No captions found", message: "The file has no SRT or WebVTT cues." });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from("transcripts")
+      .select("id, status")
+      .eq("media_file_id", mediaFileId)
+      .maybeSingle();
+
+    // A queued or retrying transcription would overwrite the imported captions
+    if (existing && (existing.status === "processing" || (await hasActiveJob("transcribe", existing.id)))) {
+      return res.status(409).json({
+        error: "Transcription in progress",
+        message: "Cancel the transcription before importing captions.",
+      });
+    }
+
+    const summary = `Imported ${format.toUpperCase()} captions`;
+    let transcriptId: string;
+
+    if (existing) {
+      // One update, after the current text is kept as a revision
+      await saveTranscriptEdit(
+        existing.id,
+        { userId: user.id, segments, summary },
+        { fields: { speakers, language: null, status: "completed", error_message: null } }
+      );
+      transcriptId = existing.id;
+    } else {
+      const { data: created, error } = await supabaseAdmin
+        .from("transcripts")
+        .insert({
+          media_file_id: mediaFileId,
+          project_id: media.project_id,
+          user_id: user.id,
+          full_text: transcriptText(segments),
+          segments: segments as unknown as Json,
+          speakers,
+          status: "completed",
+        })
+        .select("id")
+        .single();
+
+      if (error) throw error;
+
+      await recordRevision(created.id, { userId: user.id, segments, summary });
+      transcriptId = created.id;
+    }
+
+    await enqueueJob(
+      user.id,
+      "embed",
+      { contentType: "transcript", contentId: transcriptId },
+      { projectId: media.project_id, targetId: transcriptId }
+    );
+
+    const { data: transcript } = await supabaseAdmin
+      .from("transcripts")
+      .select("*")
+      .eq("id", transcriptId)
+      .single();
+
+    return res.status(200).json({ transcript, format, segmentCount: segments.length });
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return res.status(409).json({ error: "Revision conflict", message: "The transcript was changed by another save. Try again." });
+    }
+    console.error("Import captions error:", error);
+    return res.status(500).json({ error: "Failed to import captions" });
+  }
+}
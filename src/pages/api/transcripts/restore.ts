@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, userOwnsProject } from "@/integrations/supabase/server";
+import { resolveProjectId } from "@/lib/ai/indexer";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { restoreRevision, RevisionConflictError } from "@/lib/media/revisions";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { transcriptId, revisionId } = req.body;
+
+    if (!transcriptId || !revisionId) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const projectId = await resolveProjectId("transcript", transcriptId);
+    if (!projectId || !(await userOwnsProject(user.id, projectId))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const result = await restoreRevision(transcriptId, revisionId, user.id);
+    if (!result) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    await enqueueJob(
+      user.id,
+      "embed",
+      { contentType: "transcript", contentId: transcriptId, incremental: true },
+      { projectId, targetId: transcriptId }
+    );
+
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return res.status(409).json({ error: "Revision conflict", message: "The transcript was changed by another save. Try again." });
+    }
+    console.error("Restore revision error:", error);
+    return res.status(500).json({ error: "Failed to restore revision" });
+  }
+}
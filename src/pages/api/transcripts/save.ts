@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getRequestUser, supabaseAdmin, userOwnsProject } from "@/integrations/supabase/server";
+import { resolveProjectId } from "@/lib/ai/indexer";
+import { enqueueJob } from "@/lib/jobs/queue";
+import { parseSegments, RevisionConflictError, saveTranscriptEdit } from "@/lib/media/revisions";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const { transcriptId, summary, expectedRevision } = req.body;
+    const segments = parseSegments(req.body.segments);
+
+    if (!transcriptId || !segments || !Number.isInteger(expectedRevision) || expectedRevision < 0) {
+      return res.status(400).json({ error: "Missing required fields" });
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "Not authenticated" });
+    }
+
+    const projectId = await resolveProjectId("transcript", transcriptId);
+    if (!projectId || !(await userOwnsProject(user.id, projectId))) {
+      return res.status(404).json({ error: "Not found" });
+    }
+
+    const { data: current } = await supabaseAdmin
+      .from("transcripts")
+      .select("status")
+      .eq("id", transcriptId)
+      .single();
+
+    if (current?.status !== "completed") {
+      return res.status(409).json({ error: "Only completed transcripts can be edited" });
+    }
+
+    const result = await saveTranscriptEdit(
+      transcriptId,
+      {
+        userId: user.id,
+        segments,
+        summary: typeof summary === "string" && summary.trim() ? summary.trim() : "Edited transcript",
+      },
+      { expectedRevision }
+    );
+
+    // Re-embed only the passages the edit touched
+    await enqueueJob(
+      user.id,
+      "embed",
+      { contentType: "transcript", contentId: transcriptId, incremental: true },
+      { projectId, targetId: transcriptId }
+    );
+
+    return res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof RevisionConflictError) {
+      return res.status(409).json({ error: "Revision conflict", message: "The transcript was changed since you started editing. Reload it and try again." });
+    }
+    console.error("Save transcript error:", error);
+    return res.status(500).json({ error: "Failed to save transcript" });
+  }
+}
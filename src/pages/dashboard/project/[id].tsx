@@ -4,10 +4,15 @@ import dynamic from "next/dynamic";
 import { DashboardLayout } from "@/components/dashboard/DashboardLayout";
 import { MediaPanel } from "@/components/workspace/MediaPanel";
 import { AnnotationToolbar } from "@/components/workspace/AnnotationToolbar";
-import { projectService } from "@/services/projectService";
+import { SearchPalette } from "@/components/workspace/SearchPalette";
+import { SummaryPanel } from "@/components/workspace/SummaryPanel";
+import { CommentsPanel } from "@/components/workspace/CommentsPanel";
+import { ProjectSettingsDialog } from "@/components/workspace/ProjectSettingsDialog";
+import { projectService, type Folder } from "@/services/projectService";
 import { documentService, type Document } from "@/services/documentService";
-import { mediaService, type MediaFile } from "@/services/mediaService";
+import { isMergeAbandoned, mediaService, type MediaFile } from "@/services/mediaService";
 import { annotationService, type Annotation } from "@/services/annotationService";
+import type { SearchHit } from "@/services/aiService";
 import { 
   ResizableHandle, 
   ResizablePanel, 
@@ -24,6 +29,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { 
   FileText, 
@@ -32,9 +38,19 @@ import {
   Loader2,
   FolderOpen,
   File,
-  Trash2
+  Trash2,
+  Search,
+  Settings,
+  Sparkles,
+  MessageSquare
 } from "lucide-react";
 import { SEO } from "@/components/SEO";
+import { MediaPlaybackProvider, useMediaPlaybackController } from "@/contexts/MediaPlaybackContext";
+import { useToast } from "@/hooks/use-toast";
+import { useRowChanges } from "@/hooks/use-realtime";
+import { useAnnotationHistory } from "@/hooks/use-annotation-history";
+import { commandAnnotationIds, deleteForHistory, type AnnotationCommand } from "@/lib/documents/annotationHistory";
+import { removeRow, upsertRow } from "@/integrations/supabase/realtime";
 
 // Dynamic import for DocumentViewer to avoid SSR issues with react-pdf
 const DocumentViewer = dynamic(
@@ -53,6 +69,7 @@ export default function ProjectWorkspace() {
   const router = useRouter();
   const { id } = router.query;
   
+  const { toast } = useToast();
   const [project, setProject] = useState<any>(null);
   const [documents, setDocuments] = useState<Document[]>([]);
   const [mediaFiles, setMediaFiles] = useState<MediaFile[]>([]);
@@ -60,14 +77,36 @@ export default function ProjectWorkspace() {
   const [selectedMedia, setSelectedMedia] = useState<MediaFile | null>(null);
   const [loading, setLoading] = useState(true);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
+  // Bring in highlights and notes made in other PDF readers
+  const [importAnnotations, setImportAnnotations] = useState(true);
   const [uploadType, setUploadType] = useState<"document" | "media">("document");
   const [uploading, setUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [folders, setFolders] = useState<Folder[]>([]);
+
+  // Search
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const [targetPage, setTargetPage] = useState<{ pageNumber: number; paragraph?: number } | null>(null);
 
   // Annotation State
-  const [currentTool, setCurrentTool] = useState<"highlight" | "drawing" | "text" | "shape" | "select" | "eraser">("select");
+  const [currentTool, setCurrentTool] = useState<"highlight" | "textHighlight" | "drawing" | "text" | "shape" | "select" | "eraser">("select");
   const [currentColor, setCurrentColor] = useState<string>("#FFFF00");
   const [selectedAnnotation, setSelectedAnnotation] = useState<any>(null);
+  const [rightTab, setRightTab] = useState<"media" | "comments">("media");
+  // Link annotations to the media playhead as they are created; off unless chosen
+  const [linkNewToPlayhead, setLinkNewToPlayhead] = useState(false);
+
+  // Player shared by the transcript, document viewer and toolbar
+  const playback = useMediaPlaybackController({
+    media: selectedMedia,
+    onSelectMedia: (mediaFileId) => {
+      const media = mediaFiles.find(m => m.id === mediaFileId);
+      if (media) setSelectedMedia(media);
+    },
+  });
+
+  const annotationHistory = useAnnotationHistory(selectedDocument?.id ?? null);
 
   useEffect(() => {
     if (id && typeof id === "string") {
@@ -75,22 +114,64 @@ export default function ProjectWorkspace() {
     }
   }, [id]);
 
+  // Keep the lists live: uploads from other sessions, extraction status and
+  // chunk merges arrive over Realtime
+  const projectFilter = typeof id === "string" ? { column: "project_id" as const, value: id } : null;
+
+  useRowChanges("documents", projectFilter, {
+    // Extracted text may be left out of large payloads, so refetch the row
+    onInsert: (row) => refreshDocument(row.id),
+    onUpdate: (row) => refreshDocument(row.id),
+    onDelete: ({ id: docId }) => {
+      setDocuments(prev => removeRow(prev, docId));
+      setSelectedDocument(prev => (prev?.id === docId ? null : prev));
+    },
+  });
+
+  useRowChanges("media_files", projectFilter, {
+    onInsert: (row) => setMediaFiles(prev => upsertRow(prev, row)),
+    onUpdate: (row) => {
+      setMediaFiles(prev => upsertRow(prev, row));
+      setSelectedMedia(prev => (prev?.id === row.id ? row : prev));
+    },
+    onDelete: ({ id: mediaFileId }) => {
+      setMediaFiles(prev => removeRow(prev, mediaFileId));
+      setSelectedMedia(prev => (prev?.id === mediaFileId ? null : prev));
+    },
+  });
+
   const loadProjectData = async (projectId: string) => {
     try {
       setLoading(true);
-      const [projectData, docs, media] = await Promise.all([
+      const [projectData, docs, media, projectFolders] = await Promise.all([
         projectService.getProject(projectId),
         documentService.getDocuments(projectId),
-        mediaService.getMediaFiles(projectId)
+        mediaService.getMediaFiles(projectId),
+        projectService.getFolders(projectId)
       ]);
 
       setProject(projectData);
       setDocuments(docs);
       setMediaFiles(media);
+      setFolders(projectFolders);
       
       if (docs.length > 0 && !selectedDocument) {
         setSelectedDocument(docs[0]);
       }
+
+      // Documents uploaded before extraction existed have never been processed
+      docs
+        .filter(doc => doc.extraction_status === "pending")
+        .forEach(doc => extractDocumentText(doc.id));
+
+      // Chunked uploads whose merge was never started, failed, or was
+      // interrupted. The merge function only restarts a "merging" one once
+      // it has gone stale, and retries failed ones with a delay until their
+      // attempts run out.
+      media
+        .filter(m => m.merge_status === "pending" || m.merge_status === "failed" || m.merge_status === "merging")
+        .filter(m => !isMergeAbandoned(m))
+        .forEach(m => mergeMediaChunks(m.id));
     } catch (error) {
       console.error("Error loading project:", error);
     } finally {
@@ -117,13 +198,28 @@ export default function ProjectWorkspace() {
 
       if (uploadType === "document") {
         // Upload document
-        const document = await documentService.uploadDocument(
+        const { document, importedAnnotations, importError } = await documentService.uploadDocument(
           id as string,
           file,
-          null // no folder for now
+          null, // no folder for now
+          { importAnnotations }
         );
-        setDocuments(prev => [...prev, document]);
+        setDocuments(prev => upsertRow(prev, document));
         setSelectedDocument(document);
+        extractDocumentText(document.id);
+
+        if (importError) {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: `${document.name} was uploaded, but its annotations couldn't be imported: ${importError.message}`,
+          });
+        } else if (importedAnnotations) {
+          toast({
+            title: "Annotations imported",
+            description: `Imported ${importedAnnotations} ${importedAnnotations === 1 ? "annotation" : "annotations"} from ${document.name}.`,
+          });
+        }
       } else {
         // Upload media
         const mediaFile = await mediaService.uploadMediaFile(
@@ -131,7 +227,8 @@ export default function ProjectWorkspace() {
           file,
           null // no folder for now
         );
-        setMediaFiles(prev => [...prev, mediaFile]);
+        setMediaFiles(prev => upsertRow(prev, mediaFile));
+        if (mediaFile.is_chunked) mergeMediaChunks(mediaFile.id);
       }
 
       setUploadDialogOpen(false);
@@ -159,6 +256,38 @@ export default function ProjectWorkspace() {
     }
   };
 
+  // Runs in the background; the document row records success or failure
+  // and its changes arrive over Realtime
+  const extractDocumentText = async (docId: string) => {
+    setDocuments(prev => prev.map(d => d.id === docId ? { ...d, extraction_status: "processing" } : d));
+    try {
+      await documentService.extractText(docId);
+    } catch (error) {
+      console.error("Error extracting document text:", error);
+    }
+  };
+
+  const refreshDocument = async (docId: string) => {
+    try {
+      const updated = await documentService.getDocument(docId);
+      if (updated) {
+        setDocuments(prev => upsertRow(prev, updated));
+        setSelectedDocument(prev => prev?.id === docId ? updated : prev);
+      }
+    } catch (error) {
+      console.error("Error refreshing document:", error);
+    }
+  };
+
+  // Playback streams from the chunks meanwhile, so there's nothing to wait for
+  const mergeMediaChunks = async (mediaFileId: string) => {
+    try {
+      await mediaService.mergeChunks(mediaFileId);
+    } catch (error) {
+      console.error("Error merging media chunks:", error);
+    }
+  };
+
   const handleDeleteDocument = async (docId: string) => {
     if (!confirm("Are you sure you want to delete this document?")) return;
     
@@ -174,17 +303,39 @@ export default function ProjectWorkspace() {
     }
   };
 
+  const handleSearchSelect = (hit: SearchHit) => {
+    // Documents and annotations open the page (DOCX: paragraph) they came from
+    if (hit.document_id) {
+      const doc = documents.find(d => d.id === hit.document_id);
+      if (doc) {
+        setSelectedDocument(doc);
+        setTargetPage({ pageNumber: hit.page_number || 1, paragraph: hit.paragraph_index });
+      }
+    }
+
+    // Transcripts (and timestamp-linked annotations) seek the player
+    if (hit.media_file_id && hit.media_timestamp !== undefined) {
+      playback.seekTo(hit.media_file_id, hit.media_timestamp);
+    }
+  };
+
   const handleLinkTimestamp = async () => {
     if (!selectedAnnotation || !selectedMedia) return;
     
-    // Get current timestamp from media player (this would need to be exposed via context or ref)
-    // For now, we'll use a placeholder or need to implement a media context
-    const timestamp = 0; // TODO: Get actual timestamp
+    const timestamp = Math.floor(playback.getCurrentTime());
     
     try {
       await annotationService.linkToTimestamp(selectedAnnotation.id, selectedMedia.id, timestamp);
+      annotationHistory.record({
+        type: "update",
+        label: "Link timestamp",
+        annotationId: selectedAnnotation.id,
+        before: { media_file_id: selectedAnnotation.media_file_id, media_timestamp: selectedAnnotation.media_timestamp },
+        after: { media_file_id: selectedMedia.id, media_timestamp: timestamp },
+      });
       // Refresh annotation to show link status
       setSelectedAnnotation(prev => prev ? { ...prev, media_file_id: selectedMedia.id, media_timestamp: timestamp } : null);
+      await playback.refreshLinkedAnnotations();
     } catch (error) {
       console.error("Error linking timestamp:", error);
     }
@@ -195,7 +346,15 @@ export default function ProjectWorkspace() {
     
     try {
       await annotationService.unlinkFromTimestamp(selectedAnnotation.id);
+      annotationHistory.record({
+        type: "update",
+        label: "Unlink timestamp",
+        annotationId: selectedAnnotation.id,
+        before: { media_file_id: selectedAnnotation.media_file_id, media_timestamp: selectedAnnotation.media_timestamp },
+        after: { media_file_id: null, media_timestamp: null },
+      });
       setSelectedAnnotation(prev => prev ? { ...prev, media_file_id: null, media_timestamp: null } : null);
+      await playback.refreshLinkedAnnotations();
     } catch (error) {
       console.error("Error unlinking timestamp:", error);
     }
@@ -206,15 +365,53 @@ export default function ProjectWorkspace() {
     
     if (confirm("Delete this annotation?")) {
       try {
-        await annotationService.deleteAnnotation(selectedAnnotation.id);
+        const command = await deleteForHistory(selectedAnnotation.id, "Delete");
+        if (command) annotationHistory.record(command);
         setSelectedAnnotation(null);
         // DocumentViewer will need to reload annotations
+        await playback.refreshLinkedAnnotations();
       } catch (error) {
         console.error("Error deleting annotation:", error);
       }
     }
   };
 
+  const handleReplay = async (replay: () => Promise<AnnotationCommand | null>) => {
+    try {
+      const command = await replay();
+      if (!command) return;
+      // The selection may now be gone or out of date
+      const annotationIds = commandAnnotationIds(command);
+      setSelectedAnnotation(prev => (prev && annotationIds.includes(prev.id) ? null : prev));
+      await playback.refreshLinkedAnnotations();
+    } catch (error) {
+      console.error("Error replaying annotation history:", error);
+      alert("That change could not be undone or redone. It may have been changed elsewhere.");
+    }
+  };
+
+  const handleUndo = () => handleReplay(annotationHistory.undo);
+  const handleRedo = () => handleReplay(annotationHistory.redo);
+
+  // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes; text fields keep
+  // their own undo
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (!(e.metaKey || e.ctrlKey) || target?.closest("input, textarea, [contenteditable='true']")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
   if (loading) {
     return (
       <DashboardLayout>
@@ -254,6 +451,15 @@ export default function ProjectWorkspace() {
             </div>
             
             <div className="flex gap-2">
+              <Button
+                onClick={() => setSearchOpen(true)}
+                variant="outline"
+                size="sm"
+              >
+                <Search className="w-4 h-4 mr-2" />
+                Search
+                <kbd className="ml-2 text-xs text-slate-400">⌘K</kbd>
+              </Button>
               <Button
                 onClick={() => {
                   setUploadType("document");
@@ -276,11 +482,20 @@ export default function ProjectWorkspace() {
                 <Video className="w-4 h-4 mr-2" />
                 Upload Media
               </Button>
+              <Button
+                onClick={() => setSettingsOpen(true)}
+                variant="outline"
+                size="sm"
+                title="Transcription settings"
+              >
+                <Settings className="w-4 h-4" />
+              </Button>
             </div>
           </div>
         </div>
 
         {/* Workspace */}
+        <MediaPlaybackProvider value={playback}>
         <ResizablePanelGroup direction="horizontal" className="flex-1">
           {/* Left Sidebar - Files */}
           <ResizablePanel defaultSize={20} minSize={15} maxSize={30}>
@@ -295,6 +510,10 @@ export default function ProjectWorkspace() {
                     <Video className="w-4 h-4 mr-2" />
                     Media
                   </TabsTrigger>
+                  <TabsTrigger value="summary" className="flex-1">
+                    <Sparkles className="w-4 h-4 mr-2" />
+                    Summary
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="documents" className="flex-1 mt-0">
@@ -338,7 +557,31 @@ export default function ProjectWorkspace() {
                               </p>
                               <p className="text-xs text-slate-500 mt-0.5">
                                 {doc.file_type.toUpperCase()}
+                                {doc.extraction_status === "completed" && doc.page_count
+                                  ? ` · ${doc.page_count} ${doc.page_count === 1 ? "page" : "pages"}`
+                                  : ""}
                               </p>
+                              {(doc.extraction_status === "pending" || doc.extraction_status === "processing") && (
+                                <p className="flex items-center gap-1 text-xs text-slate-500 mt-0.5">
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                  Extracting text...
+                                </p>
+                              )}
+                              {doc.extraction_status === "failed" && (
+                                <p className="text-xs text-red-600 mt-0.5" title={doc.extraction_error || undefined}>
+                                  Text extraction failed.{" "}
+                                  <button
+                                    type="button"
+                                    className="underline"
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      extractDocumentText(doc.id);
+                                    }}
+                                  >
+                                    Retry
+                                  </button>
+                                </p>
+                              )}
                             </div>
                             <Button
                               variant="ghost"
@@ -399,6 +642,11 @@ export default function ProjectWorkspace() {
                                   ` • ${Math.floor(media.duration_seconds / 60)}:${String(media.duration_seconds % 60).padStart(2, "0")}`
                                 }
                               </p>
+                              {isMergeAbandoned(media) && (
+                                <p className="text-xs text-red-600 mt-0.5" title={media.merge_error || undefined}>
+                                  Couldn't combine the uploaded parts; it still plays from them.
+                                </p>
+                              )}
                             </div>
                           </button>
                         ))
@@ -406,6 +654,14 @@ export default function ProjectWorkspace() {
                     </div>
                   </ScrollArea>
                 </TabsContent>
+
+                <TabsContent value="summary" className="flex-1 mt-0">
+                  <SummaryPanel
+                    project={project}
+                    document={selectedDocument}
+                    media={selectedMedia}
+                  />
+                </TabsContent>
               </Tabs>
             </div>
           </ResizablePanel>
@@ -421,10 +677,19 @@ export default function ProjectWorkspace() {
                 currentColor={currentColor}
                 onColorChange={setCurrentColor}
                 hasSelectedAnnotation={!!selectedAnnotation}
-                isLinked={!!selectedAnnotation?.media_timestamp}
+                isLinked={selectedAnnotation?.media_timestamp != null}
                 onLinkTimestamp={handleLinkTimestamp}
                 onUnlinkTimestamp={handleUnlinkTimestamp}
                 onDeleteAnnotation={handleDeleteAnnotation}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={annotationHistory.canUndo}
+                canRedo={annotationHistory.canRedo}
+                undoLabel={annotationHistory.undoLabel}
+                redoLabel={annotationHistory.redoLabel}
+                onShowComments={() => setRightTab("comments")}
+                linkNewToPlayhead={linkNewToPlayhead}
+                onLinkNewToPlayheadChange={setLinkNewToPlayhead}
               />
               <DocumentViewer 
                 document={selectedDocument}
@@ -435,22 +700,59 @@ export default function ProjectWorkspace() {
                 currentTool={currentTool}
                 currentColor={currentColor}
                 onAnnotationSelect={setSelectedAnnotation}
+                targetPage={targetPage}
+                linkNewToPlayhead={linkNewToPlayhead}
               />
             </div>
           </ResizablePanel>
 
           <ResizableHandle withHandle />
 
-          {/* Right Panel - Media */}
+          {/* Right Panel - Media and annotation comments */}
           <ResizablePanel defaultSize={30} minSize={20}>
             <div className="h-full border-l">
-              <MediaPanel 
-                media={selectedMedia} 
-                projectId={project.id}
-              />
+              <Tabs value={rightTab} onValueChange={(value) => setRightTab(value as "media" | "comments")} className="h-full flex flex-col">
+                <TabsList className="w-full justify-start rounded-none border-b border-slate-200 bg-white">
+                  <TabsTrigger value="media" className="flex-1">
+                    <Video className="w-4 h-4 mr-2" />
+                    Media
+                  </TabsTrigger>
+                  <TabsTrigger value="comments" className="flex-1">
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Comments
+                  </TabsTrigger>
+                </TabsList>
+
+                {/* Media stays mounted so playback continues while reading comments */}
+                <TabsContent value="media" forceMount className="flex-1 mt-0 min-h-0 data-[state=inactive]:hidden">
+                  <MediaPanel 
+                    media={selectedMedia} 
+                    projectId={project.id}
+                  />
+                </TabsContent>
+
+                <TabsContent value="comments" className="flex-1 mt-0 min-h-0">
+                  <CommentsPanel annotation={selectedAnnotation} />
+                </TabsContent>
+              </Tabs>
             </div>
           </ResizablePanel>
         </ResizablePanelGroup>
+        </MediaPlaybackProvider>
+
+        <SearchPalette
+          open={searchOpen}
+          onOpenChange={setSearchOpen}
+          projectId={project.id}
+          folders={folders}
+          onSelect={handleSearchSelect}
+        />
+
+        <ProjectSettingsDialog
+          projectId={project.id}
+          open={settingsOpen}
+          onOpenChange={setSettingsOpen}
+        />
 
         {/* Upload Dialog */}
         <Dialog open={uploadDialogOpen} onOpenChange={setUploadDialogOpen}>
@@ -468,6 +770,20 @@ export default function ProjectWorkspace() {
             </DialogHeader>
 
             <div className="space-y-4">
+              {uploadType === "document" && (
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id="import-annotations"
+                    checked={importAnnotations}
+                    onCheckedChange={(checked) => setImportAnnotations(checked === true)}
+                    disabled={uploading}
+                  />
+                  <Label htmlFor="import-annotations" className="text-sm font-normal leading-snug">
+                    Import annotations already in the PDF (highlights, drawings, boxes and text notes)
+                  </Label>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="file">
                   Select File
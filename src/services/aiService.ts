@@ -1,89 +1,101 @@
 import { supabase } from "@/integrations/supabase/client";
+import { apiPost } from "@/lib/api";
+import { jobService, type Job } from "@/services/jobService";
+import type { AskResponse, SearchFilters, SearchHit, SummaryResult } from "@/lib/ai/types";
+
+export type {
+  AskResponse,
+  AskSource,
+  SearchFilters,
+  SearchHit,
+  SegmentMatch,
+  SummaryResult,
+  TextMatch,
+} from "@/lib/ai/types";
 
 /**
  * AI Service - Handles all AI-related operations
- * - Transcription (via API route)
- * - Summarization (future)
- * - Embeddings & Search (future)
- * - Q&A (future)
+ * - Transcription (background job)
+ * - Summarization (background job, cached in ai_summary columns)
+ * - Embeddings, Semantic & Hybrid Search (via API routes)
+ * - Q&A (via API route, RAG over the embeddings table)
  */
 
 export const aiService = {
   /**
-   * Start transcription for a media file
+   * Queue transcription of a media file into an existing transcript
+   * record. Observe the returned job for progress. `hints` tell the engine
+   * the spoken language and vocabulary to expect.
    */
   transcribeMedia: async (
-    mediaFileId: string,
-    transcriptId: string
-  ): Promise<{ success: boolean; error?: string }> => {
-    try {
-      const response = await fetch("/api/transcribe", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          mediaFileId,
-          transcriptId,
-        }),
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Transcription failed");
-      }
+    transcriptId: string,
+    hints: { language?: string; prompt?: string } = {}
+  ): Promise<Job> => {
+    return jobService.enqueue("transcribe", { transcriptId, ...hints });
+  },
 
-      const data = await response.json();
-      return { success: true };
-    } catch (error: any) {
-      console.error("Transcription error:", error);
-      return { success: false, error: error.message };
-    }
+  /**
+   * Summarise a document's extracted text. Returns the cached summary
+   * unless `force` is set.
+   */
+  summarizeDocument: async (documentId: string, force = false): Promise<SummaryResult> => {
+    return jobService.run("summarize", { type: "document", id: documentId, force }) as Promise<SummaryResult>;
   },
 
   /**
-   * Generate summary for a document (future implementation)
+   * Summarise a media file's transcript
    */
-  summarizeDocument: async (documentId: string): Promise<string> => {
-    // TODO: Implement with OpenAI GPT
-    throw new Error("Not implemented yet");
+  summarizeMedia: async (mediaFileId: string, force = false): Promise<SummaryResult> => {
+    return jobService.run("summarize", { type: "media", id: mediaFileId, force }) as Promise<SummaryResult>;
   },
 
   /**
-   * Generate summary for a project (future implementation)
+   * Project overview rolled up from its document and media summaries
    */
-  summarizeProject: async (projectId: string): Promise<string> => {
-    // TODO: Implement with OpenAI GPT
-    throw new Error("Not implemented yet");
+  summarizeProject: async (projectId: string, force = false): Promise<SummaryResult> => {
+    return jobService.run("summarize", { type: "project", id: projectId, force }) as Promise<SummaryResult>;
   },
 
   /**
-   * Generate embeddings for semantic search (future implementation)
+   * Generate an embedding vector for a piece of text
    */
   generateEmbeddings: async (text: string): Promise<number[]> => {
-    // TODO: Implement with OpenAI Embeddings API
-    throw new Error("Not implemented yet");
+    const { embedding } = await apiPost<{ embedding: number[] }>("/api/ai/embed", { text });
+    return embedding;
   },
 
   /**
-   * Semantic search across project content (future implementation)
+   * Semantic search across project content, best matches first
    */
   semanticSearch: async (
     projectId: string,
-    query: string
-  ): Promise<any[]> => {
-    // TODO: Implement with vector database
-    throw new Error("Not implemented yet");
+    query: string,
+    filters: SearchFilters = {}
+  ): Promise<SearchHit[]> => {
+    return apiPost<SearchHit[]>("/api/ai/search", { projectId, query, filters, mode: "semantic" });
+  },
+
+  /**
+   * Keyword + semantic search fused by reciprocal rank. Hits include the
+   * character ranges that matched, and matching segments for transcripts.
+   */
+  hybridSearch: async (
+    projectId: string,
+    query: string,
+    filters: SearchFilters = {}
+  ): Promise<SearchHit[]> => {
+    return apiPost<SearchHit[]>("/api/ai/search", { projectId, query, filters, mode: "hybrid" });
   },
 
   /**
-   * Ask a question about project content (future implementation)
+   * Ask a question about project content.
+   * The answer cites its sources as [n], matching `sources[n - 1].index`.
    */
   askQuestion: async (
     projectId: string,
-    question: string
-  ): Promise<string> => {
-    // TODO: Implement with RAG (Retrieval-Augmented Generation)
-    throw new Error("Not implemented yet");
+    question: string,
+    filters: SearchFilters = {}
+  ): Promise<AskResponse> => {
+    return apiPost<AskResponse>("/api/ai/ask", { projectId, question, filters });
   },
 };
\ No newline at end of file
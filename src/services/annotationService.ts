@@ -1,8 +1,29 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { embeddingService } from "@/services/embeddingService";
 
 export type Annotation = Tables<"annotations">;
 
+/**
+ * Position of an annotation relative to the document text rather than the
+ * page, for documents whose layout is computed in the browser (DOCX).
+ * `offset` is a character offset into paragraph `paragraph`; dx/dy is the
+ * distance from that character to the annotation's (x, y) origin.
+ */
+export interface TextAnchor {
+  paragraph: number;
+  offset: number;
+  dx: number;
+  dy: number;
+}
+
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface AnnotationCoordinates {
   x: number;
   y: number;
@@ -10,8 +31,18 @@ export interface AnnotationCoordinates {
   height?: number;
   points?: { x: number; y: number }[];
   path?: string;
+  anchor?: TextAnchor;
+  // Text highlights: the selected text, its character range in the page
+  // text, and one rect per line. x/y/width/height hold the bounding box.
+  quote?: string;
+  textRange?: { start: number; end: number };
+  rects?: AnnotationRect[];
 }
 
+// Text notes and quoted highlights feed the search index
+const hasSearchableText = (annotation: Annotation) =>
+  !!annotation.content || !!(annotation.coordinates as unknown as AnnotationCoordinates | null)?.quote;
+
 export interface CreateAnnotationData {
   document_id: string;
   page_number: number;
@@ -24,11 +55,12 @@ export interface CreateAnnotationData {
 }
 
 export interface UpdateAnnotationData {
+  page_number?: number;
   coordinates?: AnnotationCoordinates;
-  content?: string;
-  color?: string;
-  media_timestamp?: number;
-  media_file_id?: string;
+  content?: string | null;
+  color?: string | null;
+  media_timestamp?: number | null;
+  media_file_id?: string | null;
 }
 
 export const annotationService = {
@@ -121,9 +153,50 @@ export const annotationService = {
       throw error;
     }
 
+    if (hasSearchableText(data)) {
+      embeddingService.reindex("annotation", data.id);
+    }
+
     return data;
   },
 
+  /**
+   * Create many annotations on a document at once, e.g. ones imported
+   * from a PDF
+   */
+  async createAnnotations(
+    documentId: string,
+    annotations: Omit<CreateAnnotationData, "document_id">[]
+  ): Promise<Annotation[]> {
+    if (annotations.length === 0) return [];
+
+    const { data: session } = await supabase.auth.getSession();
+    if (!session.session) {
+      throw new Error("Not authenticated");
+    }
+
+    const { data, error } = await supabase
+      .from("annotations")
+      .insert(annotations.map((annotation) => ({
+        ...annotation,
+        document_id: documentId,
+        coordinates: annotation.coordinates as unknown as any,
+        user_id: session.session.user.id,
+      })))
+      .select();
+
+    if (error) {
+      console.error("Error creating annotations:", error);
+      throw error;
+    }
+
+    (data || []).filter(hasSearchableText).forEach((annotation) => {
+      embeddingService.reindex("annotation", annotation.id);
+    });
+
+    return data || [];
+  },
+
   /**
    * Update an annotation
    */
@@ -147,22 +220,56 @@ export const annotationService = {
       throw error;
     }
 
+    // Only text and media links feed the search index
+    if ("content" in updates || "media_timestamp" in updates || "media_file_id" in updates) {
+      embeddingService.reindex("annotation", data.id);
+    }
+
     return data;
   },
 
   /**
-   * Delete an annotation
+   * Delete an annotation. Returns the deleted row, so it can be restored.
    */
-  async deleteAnnotation(annotationId: string): Promise<void> {
-    const { error } = await supabase
+  async deleteAnnotation(annotationId: string): Promise<Annotation | null> {
+    await embeddingService.deleteForContent("annotation", [annotationId]);
+
+    const { data, error } = await supabase
       .from("annotations")
       .delete()
-      .eq("id", annotationId);
+      .eq("id", annotationId)
+      .select()
+      .maybeSingle();
 
     if (error) {
       console.error("Error deleting annotation:", error);
       throw error;
     }
+
+    return data;
+  },
+
+  /**
+   * Put a deleted annotation back exactly as it was: same id, timestamps
+   * and media link
+   */
+  async restoreAnnotation(annotation: Annotation): Promise<Annotation> {
+    const { data, error } = await supabase
+      .from("annotations")
+      .insert(annotation)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error restoring annotation:", error);
+      throw error;
+    }
+
+    if (hasSearchableText(data)) {
+      embeddingService.reindex("annotation", data.id);
+    }
+
+    return data;
   },
 
   /**
@@ -199,6 +306,10 @@ export const annotationService = {
       throw error;
     }
 
+    if (hasSearchableText(data)) {
+      embeddingService.reindex("annotation", data.id);
+    }
+
     return data;
   },
 
@@ -206,6 +317,8 @@ export const annotationService = {
    * Delete all annotations for a document
    */
   async deleteDocumentAnnotations(documentId: string): Promise<void> {
+    await embeddingService.deleteForDocumentAnnotations(documentId);
+
     const { error } = await supabase
       .from("annotations")
       .delete()
@@ -0,0 +1,134 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type AnnotationComment = Tables<"annotation_comments">;
+
+export const commentService = {
+  /**
+   * Get an annotation's comments and replies, oldest first
+   */
+  async getComments(annotationId: string): Promise<AnnotationComment[]> {
+    const { data, error } = await supabase
+      .from("annotation_comments")
+      .select("*")
+      .eq("annotation_id", annotationId)
+      .order("created_at", { ascending: true });
+
+    if (error) {
+      console.error("Error fetching comments:", error);
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Start a thread on an annotation, or reply to a comment
+   */
+  async addComment(annotationId: string, body: string, parentId?: string): Promise<AnnotationComment> {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session.session) {
+      throw new Error("Not authenticated");
+    }
+
+    const { data, error } = await supabase
+      .from("annotation_comments")
+      .insert({
+        annotation_id: annotationId,
+        parent_id: parentId ?? null,
+        body: body.trim(),
+        user_id: session.session.user.id,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error adding comment:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  /**
+   * Change a comment's text
+   */
+  async updateComment(commentId: string, body: string): Promise<AnnotationComment> {
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from("annotation_comments")
+      .update({ body: body.trim(), edited_at: now, updated_at: now })
+      .eq("id", commentId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating comment:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  /**
+   * Resolve or reopen a thread. Only top-level comments can be resolved.
+   */
+  async setResolved(commentId: string, resolved: boolean): Promise<AnnotationComment> {
+    const { data: session } = await supabase.auth.getSession();
+    if (!session.session) {
+      throw new Error("Not authenticated");
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from("annotation_comments")
+      .update({
+        resolved_at: resolved ? now : null,
+        resolved_by: resolved ? session.session.user.id : null,
+        updated_at: now,
+      })
+      .eq("id", commentId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error resolving comment:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  /**
+   * Delete a comment. Its replies are deleted with it.
+   */
+  async deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabase
+      .from("annotation_comments")
+      .delete()
+      .eq("id", commentId);
+
+    if (error) {
+      console.error("Error deleting comment:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Re-insert comments exactly as they were, e.g. when undoing the delete
+   * of their annotation. `comments` must list parents before their replies,
+   * as getComments does.
+   */
+  async restoreComments(comments: AnnotationComment[]): Promise<void> {
+    if (comments.length === 0) return;
+
+    const { error } = await supabase
+      .from("annotation_comments")
+      .insert(comments);
+
+    if (error) {
+      console.error("Error restoring comments:", error);
+      throw error;
+    }
+  },
+};
@@ -1,9 +1,21 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { exportAnnotatedPdf, readPdfAnnotations } from "@/lib/documents/pdfAnnotations";
+import { annotationService } from "@/services/annotationService";
+import { embeddingService } from "@/services/embeddingService";
+import { jobService } from "@/services/jobService";
 
 export type Document = Tables<"documents">;
 export type Annotation = Tables<"annotations">;
 
+export interface DocumentUpload {
+  document: Document;
+  // With importAnnotations: how many annotations were imported, or why
+  // they weren't. The document is uploaded either way.
+  importedAnnotations?: number;
+  importError?: Error;
+}
+
 export const documentService = {
   getDocumentUrl(storagePath: string): string {
     const { data } = supabase.storage
@@ -42,11 +54,16 @@ export const documentService = {
     return data;
   },
 
+  /**
+   * Upload a document. With `importAnnotations`, highlights, ink, squares
+   * and free text already in a PDF are saved as the document's annotations.
+   */
   async uploadDocument(
     projectId: string,
     file: File,
-    folderId?: string
-  ): Promise<Document> {
+    folderId?: string,
+    { importAnnotations = false }: { importAnnotations?: boolean } = {}
+  ): Promise<DocumentUpload> {
     const { data: { user } } = await supabase.auth.getUser();
     
     if (!user) throw new Error("User not authenticated");
@@ -83,10 +100,37 @@ export const documentService = {
       throw error;
     }
 
-    return data;
+    // The upload has succeeded by now, so a PDF we can't read annotations
+    // from still gets added, and the caller is told why they're missing
+    if (importAnnotations && data.file_type === "pdf") {
+      try {
+        const annotations = await readPdfAnnotations(await file.arrayBuffer());
+        const created = await annotationService.createAnnotations(data.id, annotations);
+        return { document: data, importedAnnotations: created.length };
+      } catch (importError) {
+        console.error("Error importing PDF annotations:", importError);
+        return {
+          document: data,
+          importError: importError instanceof Error ? importError : new Error("Failed to import annotations"),
+        };
+      }
+    }
+
+    return { document: data };
+  },
+
+  /**
+   * Extract page text and page count on the server, then index the
+   * document. Progress is recorded in documents.extraction_status.
+   */
+  async extractText(id: string): Promise<void> {
+    await jobService.run("extract", { documentId: id });
   },
 
   async deleteDocument(id: string): Promise<void> {
+    // Remove search index rows for the document and its annotations
+    await embeddingService.deleteForDocument(id);
+
     // Get document to find storage path
     const { data: doc } = await supabase
       .from("documents")
@@ -111,6 +155,40 @@ export const documentService = {
     }
   },
 
+  /**
+   * Download a PDF with its annotations written in: as native PDF
+   * annotations other readers can edit, or flattened into the pages for
+   * printing
+   */
+  async downloadAnnotatedPdf(doc: Document, { flatten = false }: { flatten?: boolean } = {}): Promise<void> {
+    const [{ data: file, error: downloadError }, annotations] = await Promise.all([
+      supabase.storage.from("documents").download(doc.storage_path),
+      documentService.getAnnotations(doc.id),
+    ]);
+
+    if (downloadError || !file) {
+      console.error("Error downloading document:", downloadError);
+      throw downloadError || new Error("Document not found");
+    }
+
+    // Timestamp-linked notes name the recording they point into
+    const mediaIds = Array.from(new Set(annotations.map((annotation) => annotation.media_file_id).filter(Boolean))) as string[];
+    const { data: media } = mediaIds.length > 0
+      ? await supabase.from("media_files").select("id, name").in("id", mediaIds)
+      : { data: [] };
+    const mediaNames = Object.fromEntries((media || []).map(({ id, name }) => [id, name]));
+
+    const bytes = await exportAnnotatedPdf(await file.arrayBuffer(), annotations, { flatten, mediaNames });
+    const url = URL.createObjectURL(new Blob([bytes], { type: "application/pdf" }));
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${doc.name.replace(/\.pdf$/i, "")} (${flatten ? "flattened" : "annotated"}).pdf`;
+    link.click();
+    // Give the browser a moment to start the download before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+
   async getAnnotations(documentId: string): Promise<Annotation[]> {
     const { data, error } = await supabase
       .from("annotations")
@@ -162,6 +240,8 @@ export const documentService = {
   },
 
   async deleteAnnotation(id: string): Promise<void> {
+    await embeddingService.deleteForContent("annotation", [id]);
+
     const { error } = await supabase
       .from("annotations")
       .delete()
@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import { jobService } from "@/services/jobService";
+import type { EmbeddingContentType } from "@/lib/ai/types";
+
+export const embeddingService = {
+  /**
+   * Re-index a single source after it changes. Queued as a background job;
+   * failures are logged rather than surfaced to the user.
+   */
+  reindex(contentType: EmbeddingContentType, contentId: string): void {
+    jobService.enqueue("embed", { contentType, contentId }).catch((error) => {
+      console.error("Error re-indexing content:", error);
+    });
+  },
+
+  /**
+   * Queue a rebuild of the embeddings index for a whole project
+   */
+  async reindexProject(projectId: string): Promise<void> {
+    await jobService.enqueue("embed", { projectId });
+  },
+
+  async deleteForContent(contentType: EmbeddingContentType, contentIds: string[]): Promise<void> {
+    if (contentIds.length === 0) return;
+
+    const { error } = await supabase
+      .from("embeddings")
+      .delete()
+      .eq("content_type", contentType)
+      .in("content_id", contentIds);
+
+    if (error) {
+      console.error("Error deleting embeddings:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove a document's chunks along with those of its annotations
+   */
+  async deleteForDocument(documentId: string): Promise<void> {
+    await this.deleteForContent("document", [documentId]);
+    await this.deleteForDocumentAnnotations(documentId);
+  },
+
+  async deleteForDocumentAnnotations(documentId: string): Promise<void> {
+    const { error } = await supabase
+      .from("embeddings")
+      .delete()
+      .eq("content_type", "annotation")
+      .eq("metadata->>document_id", documentId);
+
+    if (error) {
+      console.error("Error deleting annotation embeddings:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove the chunks of every transcript belonging to a media file
+   */
+  async deleteForMediaFile(mediaFileId: string): Promise<void> {
+    const { error } = await supabase
+      .from("embeddings")
+      .delete()
+      .eq("content_type", "transcript")
+      .eq("metadata->>media_file_id", mediaFileId);
+
+    if (error) {
+      console.error("Error deleting transcript embeddings:", error);
+      throw error;
+    }
+  },
+};
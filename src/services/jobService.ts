@@ -0,0 +1,155 @@
+import { supabase } from "@/integrations/supabase/client";
+import { subscribeToRows } from "@/integrations/supabase/realtime";
+import { apiPost } from "@/lib/api";
+import { isJobFinished, type Job, type JobPayloads, type JobType } from "@/lib/jobs/types";
+
+export type { Job, JobPayloads, JobStatus, JobType } from "@/lib/jobs/types";
+export { isJobFinished } from "@/lib/jobs/types";
+
+interface WaitOptions {
+  // Called whenever the job's status or progress changes
+  onUpdate?: (job: Job) => void;
+  // Give up waiting after this long; the job itself carries on
+  timeoutMs?: number;
+}
+
+const DEFAULT_WAIT_TIMEOUT_MS = 15 * 60 * 1000;
+
+// How often to check on a job when Realtime isn't available
+const POLL_INTERVAL_MS = 3000;
+
+/**
+ * Job Service - queues long-running work (transcription, extraction,
+ * embedding, summarisation, translation) for the background worker and observes it
+ * through Realtime changes to the jobs table.
+ */
+export const jobService = {
+  /**
+   * Queue a job. Returns the job to observe; an identical job that hasn't
+   * finished yet is returned instead of queuing a duplicate.
+   */
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T]): Promise<Job> {
+    const { job } = await apiPost<{ job: Job }>("/api/jobs", { type, payload });
+    return job;
+  },
+
+  async getJob(id: string): Promise<Job | null> {
+    const { data, error } = await supabase
+      .from("jobs")
+      .select("*")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching job:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  /**
+   * Most recent job working on a row (transcript, document, ...)
+   */
+  async getLatestJob(targetId: string, type?: JobType): Promise<Job | null> {
+    let query = supabase
+      .from("jobs")
+      .select("*")
+      .eq("target_id", targetId);
+    if (type) query = query.eq("type", type);
+
+    const { data, error } = await query
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching job:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  /**
+   * Stop a job. Queued jobs are cancelled at once, running ones at their
+   * next progress report.
+   */
+  async cancel(id: string): Promise<Job> {
+    const { job } = await apiPost<{ job: Job }>("/api/jobs/cancel", { jobId: id });
+    return job;
+  },
+
+  /**
+   * Re-queue a dead-lettered or cancelled job with fresh attempts
+   */
+  async retry(id: string): Promise<Job> {
+    const { job } = await apiPost<{ job: Job }>("/api/jobs/retry", { jobId: id });
+    return job;
+  },
+
+  /**
+   * Wait until a job completes, is cancelled or is dead-lettered. Follows
+   * the job over Realtime, polling instead if the subscription fails.
+   */
+  waitForJob(id: string, { onUpdate, timeoutMs = DEFAULT_WAIT_TIMEOUT_MS }: WaitOptions = {}): Promise<Job> {
+    return new Promise((resolve, reject) => {
+      let last: Job | null = null;
+      let settled = false;
+      let poll: ReturnType<typeof setInterval> | null = null;
+
+      const finish = (done: () => void) => {
+        if (settled) return;
+        settled = true;
+        unsubscribe();
+        clearTimeout(timeout);
+        if (poll) clearInterval(poll);
+        done();
+      };
+
+      const update = (job: Job) => {
+        if (settled) return;
+        if (!last || job.status !== last.status || job.progress !== last.progress) {
+          onUpdate?.(job);
+        }
+        last = job;
+        if (isJobFinished(job)) finish(() => resolve(job));
+      };
+
+      const check = () => {
+        this.getJob(id)
+          .then((job) => (job ? update(job) : finish(() => reject(new Error("Job not found")))))
+          .catch((error) => finish(() => reject(error)));
+      };
+
+      const timeout = setTimeout(
+        () => finish(() => reject(new Error("Timed out waiting for job"))),
+        timeoutMs
+      );
+
+      const unsubscribe = subscribeToRows("jobs", { column: "id", value: id }, {
+        onUpdate: update,
+        // Fetch once live, in case the job finished before we subscribed
+        onSubscribed: check,
+        onError: () => {
+          if (!poll && !settled) poll = setInterval(check, POLL_INTERVAL_MS);
+        },
+      });
+    });
+  },
+
+  /**
+   * Queue a job and wait for its result. Throws if the job doesn't
+   * complete.
+   */
+  async run<T extends JobType>(type: T, payload: JobPayloads[T], options: WaitOptions = {}): Promise<unknown> {
+    const queued = await this.enqueue(type, payload);
+    const job = await this.waitForJob(queued.id, options);
+
+    if (job.status !== "completed") {
+      throw new Error(job.last_error || `Job ${job.status}`);
+    }
+
+    return job.result;
+  },
+};
@@ -1,5 +1,7 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { embeddingService } from "@/services/embeddingService";
+import { apiPost } from "@/lib/api";
 
 export type MediaFile = Tables<"media_files">;
 export type Transcript = Tables<"transcripts">;
@@ -9,6 +11,17 @@ const CHUNK_SIZE = 5 * 1024 * 1024;
 const MAX_RETRIES = 3;
 const RETRY_DELAY = 1000;
 
+// Merges the merge-media-chunks function attempts before giving up; keep
+// in sync with MAX_MERGE_ATTEMPTS there
+export const MAX_MERGE_ATTEMPTS = 3;
+
+/**
+ * Whether a chunked upload's merge has failed for good. The file still
+ * streams from its chunks.
+ */
+export const isMergeAbandoned = (media: Pick<MediaFile, "merge_status" | "merge_attempts">) =>
+  media.merge_status === "failed" && media.merge_attempts >= MAX_MERGE_ATTEMPTS;
+
 export const mediaService = {
   async getMediaFiles(projectId: string): Promise<MediaFile[]> {
     const { data, error } = await supabase
@@ -62,7 +75,8 @@ export const mediaService = {
     let totalChunks = 0;
     let chunkPattern = "";
 
-    // For files larger than 50MB, use chunked upload (no merge)
+    // For files larger than 50MB, upload in chunks; they stream as-is and
+    // are merged into one object in the background (see mergeChunks)
     if (file.size > 50 * 1024 * 1024) {
       const chunks = Math.ceil(file.size / CHUNK_SIZE);
       totalChunks = chunks;
@@ -175,9 +189,12 @@ export const mediaService = {
         file_type: fileType,
         storage_path: fileNameWithPath,
         file_size: file.size,
+        mime_type: file.type || null,
         is_chunked: isChunked,
         total_chunks: isChunked ? totalChunks : null,
-        chunk_pattern: isChunked ? chunkPattern : null
+        chunk_pattern: isChunked ? chunkPattern : null,
+        chunk_size: isChunked ? CHUNK_SIZE : null,
+        merge_status: isChunked ? "pending" : "none"
       })
       .select()
       .single();
@@ -195,6 +212,9 @@ export const mediaService = {
   },
 
   async deleteMediaFile(id: string): Promise<void> {
+    // Transcripts cascade with the record, so clear their search index rows first
+    await embeddingService.deleteForMediaFile(id);
+
     // Get media file to find storage path
     const { data: media } = await supabase
       .from("media_files")
@@ -203,9 +223,9 @@ export const mediaService = {
       .single();
 
     if (media) {
-      // If chunked, delete all chunks
+      // If chunked, delete all chunks, plus a merged file a merge may have left behind
       if (media.is_chunked && media.total_chunks) {
-        const chunkPaths: string[] = [];
+        const chunkPaths: string[] = [media.storage_path];
         for (let i = 0; i < media.total_chunks; i++) {
           chunkPaths.push(`${media.storage_path}.part${i}`);
         }
@@ -267,27 +287,29 @@ export const mediaService = {
     return data;
   },
 
-  getMediaUrl(storagePath: string, isChunked?: boolean): string {
-    // For chunked files, return the first chunk
-    // The player will handle streaming remaining chunks
-    const path = isChunked ? `${storagePath}.part0` : storagePath;
-    const { data } = supabase.storage.from("media").getPublicUrl(path);
-    return data.publicUrl;
+  /**
+   * URL for <audio>/<video> elements. The stream endpoint serves byte
+   * ranges, reading across chunks for files that haven't been merged yet.
+   * Media elements can't send headers, so the URL is signed for this one
+   * file and expires after an hour; ask again when it does.
+   */
+  async getStreamUrl(mediaFileId: string): Promise<string> {
+    const { url } = await apiPost<{ url: string }>("/api/media/stream-url", { mediaFileId });
+    return url;
   },
 
-  // Helper function to get streaming URL for chunked media
-  async getChunkedMediaUrls(media: MediaFile): Promise<string[]> {
-    if (!media.is_chunked || !media.total_chunks) {
-      return [this.getMediaUrl(media.storage_path, false)];
-    }
+  /**
+   * Start merging a chunked upload into a single object. Returns once the
+   * merge is queued; playback streams from the chunks until it completes.
+   */
+  async mergeChunks(mediaFileId: string): Promise<void> {
+    const { error } = await supabase.functions.invoke("merge-media-chunks", {
+      body: { mediaFileId },
+    });
 
-    const urls: string[] = [];
-    for (let i = 0; i < media.total_chunks; i++) {
-      const { data } = supabase.storage
-        .from("media")
-        .getPublicUrl(`${media.storage_path}.part${i}`);
-      urls.push(data.publicUrl);
+    if (error) {
+      console.error("Error starting chunk merge:", error);
+      throw error;
     }
-    return urls;
   }
 };
\ No newline at end of file
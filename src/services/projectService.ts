@@ -1,8 +1,13 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { apiPost } from "@/lib/api";
 
 export type Project = Tables<"projects">;
 export type Folder = Tables<"folders">;
+export type ProjectSettings = Tables<"project_settings">;
+export type ProjectSettingsUpdate = Partial<
+  Pick<ProjectSettings, "glossary" | "transcription_language" | "transcription_model" | "transcription_provider">
+>;
 
 export const projectService = {
   async getProjects(): Promise<Project[]> {
@@ -81,6 +86,43 @@ export const projectService = {
     }
   },
 
+  // Projects without a settings row use the defaults from the environment
+  async getSettings(projectId: string): Promise<ProjectSettings | null> {
+    const { data, error } = await supabase
+      .from("project_settings")
+      .select("*")
+      .eq("project_id", projectId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching project settings:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  async updateSettings(projectId: string, updates: ProjectSettingsUpdate): Promise<ProjectSettings> {
+    const { data, error } = await supabase
+      .from("project_settings")
+      .upsert({ ...updates, project_id: projectId, updated_at: new Date().toISOString() })
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Error updating project settings:", error);
+      throw error;
+    }
+
+    return data;
+  },
+
+  // Glossary candidates from the text of the project's documents
+  async suggestGlossaryTerms(projectId: string): Promise<string[]> {
+    const { terms } = await apiPost<{ terms: string[] }>("/api/projects/glossary-suggestions", { projectId });
+    return terms;
+  },
+
   async getFolders(projectId: string): Promise<Folder[]> {
     const { data, error } = await supabase
       .from("folders")
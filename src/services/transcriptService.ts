@@ -1,12 +1,24 @@
 import { supabase } from "@/integrations/supabase/client";
 import type { Tables } from "@/integrations/supabase/types";
+import { apiPost } from "@/lib/api";
+import { embeddingService } from "@/services/embeddingService";
+import { jobService, type Job } from "@/services/jobService";
+import { listSpeakers, speakerName, type SpeakerNames } from "@/lib/media/speakers";
+import { formatTranscript, TRANSCRIPT_EXPORT_FORMATS, type TranscriptExportFormat } from "@/lib/media/subtitles";
+import type { TimedWord } from "@/lib/media/words";
 
 export type Transcript = Tables<"transcripts">;
+export type TranscriptRevision = Tables<"transcript_revisions">;
+export type TranscriptTranslation = Tables<"transcript_translations">;
 
 export interface TranscriptSegment {
   start: number;
   end: number;
   text: string;
+  // Diarized speaker id (speaker_1, ...); names live in transcript.speakers
+  speaker?: string;
+  // Word timings, for transcripts made since word-level timestamps were added
+  words?: TimedWord[];
 }
 
 export const transcriptService = {
@@ -113,6 +125,8 @@ export const transcriptService = {
 
       if (error) throw error;
 
+      embeddingService.reindex("transcript", transcriptId);
+
       return data;
     } catch (error) {
       console.error("Error updating transcript:", error);
@@ -145,11 +159,213 @@ export const transcriptService = {
     }
   },
 
+  /**
+   * Save edited segments as a new revision. Changed passages are
+   * re-indexed in the background. Fails with a conflict if the transcript
+   * has moved past `expectedRevision`.
+   */
+  saveEdits: async (
+    transcriptId: string,
+    segments: TranscriptSegment[],
+    expectedRevision: number,
+    summary?: string
+  ): Promise<{ transcript: Transcript; revision: TranscriptRevision }> => {
+    return apiPost("/api/transcripts/save", { transcriptId, segments, expectedRevision, summary });
+  },
+
+  /**
+   * Number of the transcript's latest revision, or 0 if it has none. Edits
+   * are saved against it, so a save made meanwhile isn't overwritten.
+   */
+  getLatestRevisionNumber: async (transcriptId: string): Promise<number> => {
+    const { data, error } = await supabase
+      .from("transcript_revisions")
+      .select("revision_number")
+      .eq("transcript_id", transcriptId)
+      .order("revision_number", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching latest transcript revision:", error);
+      throw error;
+    }
+
+    return data?.revision_number ?? 0;
+  },
+
+  /**
+   * Revision history of a transcript, newest first
+   */
+  getRevisions: async (transcriptId: string): Promise<TranscriptRevision[]> => {
+    try {
+      const { data, error } = await supabase
+        .from("transcript_revisions")
+        .select("*")
+        .eq("transcript_id", transcriptId)
+        .order("revision_number", { ascending: false });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching transcript revisions:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Make an earlier revision current again (recorded as a new revision)
+   */
+  restoreRevision: async (
+    transcriptId: string,
+    revisionId: string
+  ): Promise<{ transcript: Transcript; revision: TranscriptRevision }> => {
+    return apiPost("/api/transcripts/restore", { transcriptId, revisionId });
+  },
+
+  /**
+   * Name a diarized speaker on one transcript. An empty name goes back to
+   * "Speaker N". The transcript is re-indexed so search sees the new name.
+   */
+  renameSpeaker: async (
+    transcriptId: string,
+    speakerId: string,
+    name: string
+  ): Promise<Transcript> => {
+    try {
+      const { data: current, error: fetchError } = await supabase
+        .from("transcripts")
+        .select("speakers")
+        .eq("id", transcriptId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const speakers: SpeakerNames = { ...(current.speakers as SpeakerNames) };
+      if (name.trim()) {
+        speakers[speakerId] = name.trim();
+      } else {
+        delete speakers[speakerId];
+      }
+
+      const { data, error } = await supabase
+        .from("transcripts")
+        .update({ speakers, updated_at: new Date().toISOString() })
+        .eq("id", transcriptId)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      embeddingService.reindex("transcript", transcriptId);
+
+      return data;
+    } catch (error) {
+      console.error("Error renaming speaker:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Names of every speaker across a project's transcripts, for speaker filters
+   */
+  getProjectSpeakers: async (projectId: string): Promise<string[]> => {
+    try {
+      const { data, error } = await supabase
+        .from("transcripts")
+        .select("segments, speakers")
+        .eq("project_id", projectId)
+        .eq("status", "completed");
+
+      if (error) throw error;
+
+      const names = new Set<string>();
+      (data || []).forEach((row) => {
+        const segments = (row.segments as unknown as TranscriptSegment[]) || [];
+        listSpeakers(segments).forEach((id) => names.add(speakerName(row.speakers as SpeakerNames, id)));
+      });
+
+      return Array.from(names).sort((a, b) => a.localeCompare(b));
+    } catch (error) {
+      console.error("Error fetching project speakers:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Translations of a transcript, one per language
+   */
+  getTranslations: async (transcriptId: string): Promise<TranscriptTranslation[]> => {
+    try {
+      const { data, error } = await supabase
+        .from("transcript_translations")
+        .select("*")
+        .eq("transcript_id", transcriptId)
+        .order("language", { ascending: true });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error("Error fetching transcript translations:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Queue a translation into `language` (a TRANSLATION_LANGUAGES code).
+   * Translating again replaces the stored translation.
+   */
+  translate: async (transcriptId: string, language: string): Promise<Job> => {
+    return jobService.enqueue("translate", { transcriptId, language });
+  },
+
+  /**
+   * Render a transcript as SRT, WebVTT, plain text or JSON
+   */
+  exportTranscript: (transcript: Transcript, format: TranscriptExportFormat): string => {
+    return formatTranscript(
+      format,
+      (transcript.segments as unknown as TranscriptSegment[]) || [],
+      transcript.speakers as SpeakerNames,
+      transcript.language
+    );
+  },
+
+  /**
+   * Save a transcript export as a file, named after the media it belongs to
+   */
+  downloadTranscript: (transcript: Transcript, format: TranscriptExportFormat, mediaName: string): void => {
+    const content = transcriptService.exportTranscript(transcript, format);
+    const url = URL.createObjectURL(new Blob([content], { type: TRANSCRIPT_EXPORT_FORMATS[format].mimeType }));
+
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${mediaName.replace(/\.[^.]+$/, "") || "transcript"}.${format}`;
+    link.click();
+    // Give the browser a moment to start the download before releasing it
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+
+  /**
+   * Import SRT or WebVTT captions as the media file's transcript, without
+   * transcribing. Replaces any existing transcript (as a new revision).
+   */
+  importSubtitles: async (
+    mediaFileId: string,
+    file: File
+  ): Promise<{ transcript: Transcript; segmentCount: number }> => {
+    return apiPost("/api/transcripts/import", { mediaFileId, content: await file.text() });
+  },
+
   /**
    * Delete a transcript
    */
   deleteTranscript: async (transcriptId: string): Promise<void> => {
     try {
+      await embeddingService.deleteForContent("transcript", [transcriptId]);
+
       const { error } = await supabase
         .from("transcripts")
         .delete()
@@ -163,7 +379,7 @@ export const transcriptService = {
   },
 
   /**
-   * Search transcripts by text
+   * Search transcripts by text (Postgres full-text search, web-style query syntax)
    */
   searchTranscripts: async (projectId: string, query: string): Promise<Transcript[]> => {
     try {
@@ -171,7 +387,7 @@ export const transcriptService = {
         .from("transcripts")
         .select("*")
         .eq("project_id", projectId)
-        .ilike("full_text", `%${query}%`)
+        .textSearch("search_vector", query, { type: "websearch", config: "english" })
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -0,0 +1,19 @@
+import { loadEnvConfig } from "@next/env";
+
+/**
+ * Background job worker, run alongside the Next.js app:
+ *   npm run worker
+ * Set JOB_CONCURRENCY to run several jobs at once (default 1).
+ */
+
+// Load .env files the way Next.js does. Server modules read the
+// environment when they're imported, so they're loaded afterwards.
+loadEnvConfig(process.cwd());
+
+import("@/lib/jobs/worker")
+  .then(({ runWorker }) => runWorker({ concurrency: Number(process.env.JOB_CONCURRENCY) || 1 }))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error("Worker crashed:", error);
+    process.exit(1);
+  });
@@ -1,87 +1,140 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// Supabase edge runtime: keeps the worker alive for work after the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 interface MergeRequest {
-  userId: string;
-  projectId: string;
-  fileName: string;
-  totalChunks: number;
-  mimeType: string;
-  fileSize: number;
+  mediaFileId: string;
 }
 
-serve(async (req) => {
-  // CORS headers
-  if (req.method === "OPTIONS") {
-    return new Response(null, {
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
-        "Access-Control-Allow-Methods": "POST, OPTIONS"
-      }
-    });
-  }
-
-  try {
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseKey);
+interface MediaFileRow {
+  id: string;
+  user_id: string;
+  storage_path: string;
+  mime_type: string | null;
+  file_type: string;
+  is_chunked: boolean | null;
+  total_chunks: number | null;
+  merge_status: string;
+  merge_started_at: string | null;
+  merge_attempts: number;
+}
 
-    const { userId, projectId, fileName, totalChunks, mimeType, fileSize }: MergeRequest = await req.json();
+// A merge claimed longer ago than this and still "merging" was interrupted
+// (edge workers don't live this long) and is claimed again
+const STALE_MERGE_MS = 15 * 60 * 1000;
+
+// A failed merge is retried after a delay that doubles from 5 minutes,
+// until it has been attempted MAX_MERGE_ATTEMPTS times. Keep in sync with
+// MAX_MERGE_ATTEMPTS in src/services/mediaService.ts.
+const MAX_MERGE_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+// Storage rejected the merged object as too large; retrying can't help
+class MergeTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MergeTooLargeError";
+  }
+}
 
-    console.log(`Starting merge for ${fileName} with ${totalChunks} chunks`);
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS"
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...corsHeaders }
+  });
+
+/**
+ * Stream the chunks back to back as the body of a single upload, so the
+ * merged file never has to fit in memory
+ */
+function concatenatedChunks(supabaseUrl: string, supabaseKey: string, paths: string[]): ReadableStream<Uint8Array> {
+  let index = 0;
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+
+  return new ReadableStream({
+    async pull(controller) {
+      while (index < paths.length) {
+        if (!reader) {
+          const response = await fetch(`${supabaseUrl}/storage/v1/object/media/${paths[index]}`, {
+            headers: { Authorization: `Bearer ${supabaseKey}`, apikey: supabaseKey }
+          });
+          if (!response.ok || !response.body) {
+            throw new Error(`Failed to download chunk ${index}: ${response.status}`);
+          }
+          reader = response.body.getReader();
+        }
 
-    // Download all chunks
-    const chunks: Uint8Array[] = [];
-    for (let i = 0; i < totalChunks; i++) {
-      const chunkPath = `${userId}/${projectId}/${fileName}.part${i}`;
-      
-      const { data, error } = await supabase.storage
-        .from("media")
-        .download(chunkPath);
+        const { done, value } = await reader.read();
+        if (!done) {
+          controller.enqueue(value);
+          return;
+        }
 
-      if (error) {
-        throw new Error(`Failed to download chunk ${i}: ${error.message}`);
+        console.log(`Streamed chunk ${index}`);
+        reader = null;
+        index++;
       }
-
-      const arrayBuffer = await data.arrayBuffer();
-      chunks.push(new Uint8Array(arrayBuffer));
-      console.log(`Downloaded chunk ${i}, size: ${arrayBuffer.byteLength} bytes`);
+      controller.close();
     }
+  });
+}
 
-    // Calculate total size and merge chunks
-    const totalSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
-    console.log(`Total merged size: ${totalSize} bytes`);
+async function mergeChunks(supabase: SupabaseClient, supabaseUrl: string, supabaseKey: string, media: MediaFileRow) {
+  const chunkPaths = Array.from({ length: media.total_chunks! }, (_, i) => `${media.storage_path}.part${i}`);
+  const mimeType = media.mime_type || (media.file_type === "audio" ? "audio/mpeg" : "video/mp4");
 
-    const mergedArray = new Uint8Array(totalSize);
-    let offset = 0;
-    for (const chunk of chunks) {
-      mergedArray.set(chunk, offset);
-      offset += chunk.length;
-    }
-
-    // Create blob with correct MIME type
-    const mergedBlob = new Blob([mergedArray], { type: mimeType });
+  try {
+    console.log(`Starting merge for ${media.id} with ${chunkPaths.length} chunks`);
 
-    // Upload merged file
-    const finalPath = `${userId}/${projectId}/${fileName}`;
-    const { error: uploadError } = await supabase.storage
-      .from("media")
-      .upload(finalPath, mergedBlob, {
-        contentType: mimeType,
-        upsert: true
-      });
+    // The merged file takes the path the chunks were named after
+    const uploadResponse = await fetch(`${supabaseUrl}/storage/v1/object/media/${media.storage_path}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${supabaseKey}`,
+        apikey: supabaseKey,
+        "Content-Type": mimeType,
+        "x-upsert": "true"
+      },
+      body: concatenatedChunks(supabaseUrl, supabaseKey, chunkPaths)
+    });
 
-    if (uploadError) {
-      throw new Error(`Failed to upload merged file: ${uploadError.message}`);
+    if (!uploadResponse.ok) {
+      const body = await uploadResponse.text();
+      const message = `Failed to upload merged file: ${uploadResponse.status} ${body}`;
+      // Storage reports its size limit as a 413, or as a 400 naming it
+      if (uploadResponse.status === 413 || /payload too large|maximum allowed size/i.test(body)) {
+        throw new MergeTooLargeError(message);
+      }
+      throw new Error(message);
     }
 
-    console.log(`Merged file uploaded successfully: ${finalPath}`);
+    // Point the record at the merged file before the chunks go away, so
+    // the stream endpoint never reads chunks that no longer exist
+    const { error: updateError } = await supabase
+      .from("media_files")
+      .update({
+        is_chunked: false,
+        total_chunks: null,
+        chunk_pattern: null,
+        chunk_size: null,
+        merge_status: "completed",
+        merge_error: null
+      })
+      .eq("id", media.id);
 
-    // Delete chunk files
-    const chunkPaths = Array.from({ length: totalChunks }, (_, i) => 
-      `${userId}/${projectId}/${fileName}.part${i}`
-    );
+    if (updateError) {
+      throw new Error(`Failed to update media file: ${updateError.message}`);
+    }
+
+    console.log(`Merged file uploaded successfully: ${media.storage_path}`);
 
     const { error: deleteError } = await supabase.storage
       .from("media")
@@ -89,55 +142,112 @@ serve(async (req) => {
 
     if (deleteError) {
       console.error(`Warning: Failed to delete chunks: ${deleteError.message}`);
-      // Don't throw - merged file is already uploaded
+      // Don't throw - merged file is already in use
     } else {
-      console.log(`Deleted ${totalChunks} chunk files`);
+      console.log(`Deleted ${chunkPaths.length} chunk files`);
     }
+  } catch (error) {
+    console.error("Merge error:", error);
 
-    // Update media_files record with final path and size
-    // Using 'name' instead of 'file_name' to match schema
-    const { error: updateError } = await supabase
+    // The chunks are untouched, so the file keeps streaming from them
+    await supabase
       .from("media_files")
       .update({
-        storage_path: finalPath,
-        file_size: fileSize
+        merge_status: "failed",
+        merge_error: error.message,
+        ...(error instanceof MergeTooLargeError && { merge_attempts: MAX_MERGE_ATTEMPTS })
       })
-      .eq("project_id", projectId)
-      .eq("name", fileName);
+      .eq("id", media.id);
+  }
+}
 
-    if (updateError) {
-      console.error(`Warning: Failed to update database: ${updateError.message}`);
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const token = req.headers.get("Authorization")?.replace("Bearer ", "");
+    const { data: { user } } = await supabase.auth.getUser(token);
+    if (!user) {
+      return jsonResponse({ success: false, error: "Not authenticated" }, 401);
     }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: "Chunks merged successfully",
-        finalPath,
-        size: totalSize
-      }),
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*"
-        }
-      }
-    );
+    const { mediaFileId }: MergeRequest = await req.json();
+    if (!mediaFileId) {
+      return jsonResponse({ success: false, error: "Missing required fields" }, 400);
+    }
 
+    const { data: media } = await supabase
+      .from("media_files")
+      .select("id, user_id, storage_path, mime_type, file_type, is_chunked, total_chunks, merge_status, merge_started_at, merge_attempts")
+      .eq("id", mediaFileId)
+      .maybeSingle<MediaFileRow>();
+
+    if (!media || media.user_id !== user.id) {
+      return jsonResponse({ success: false, error: "Not found" }, 404);
+    }
+
+    // Pending merges are started, failed ones retried once their delay has
+    // passed, and merges that have been "merging" for too long to still be
+    // running are restarted, all until the attempts run out
+    const staleBefore = new Date(Date.now() - STALE_MERGE_MS).toISOString();
+    const isStale = media.merge_status === "merging" && (!media.merge_started_at || media.merge_started_at < staleBefore);
+    const retryAfter = media.merge_started_at
+      ? new Date(media.merge_started_at).getTime() + BASE_RETRY_DELAY_MS * 2 ** Math.max(0, media.merge_attempts - 1)
+      : 0;
+    const isWaiting = media.merge_status === "failed" && Date.now() < retryAfter;
+
+    // An interrupted last attempt is recorded as the failure it was
+    if (isStale && media.merge_attempts >= MAX_MERGE_ATTEMPTS) {
+      await supabase
+        .from("media_files")
+        .update({ merge_status: "failed", merge_error: "Merge stopped responding" })
+        .eq("id", media.id)
+        .eq("merge_status", "merging");
+      return jsonResponse({ success: true, status: "failed", attempts: media.merge_attempts });
+    }
+
+    if (
+      !media.is_chunked ||
+      !media.total_chunks ||
+      media.merge_attempts >= MAX_MERGE_ATTEMPTS ||
+      isWaiting ||
+      (media.merge_status === "merging" && !isStale)
+    ) {
+      return jsonResponse({ success: true, status: media.merge_status, attempts: media.merge_attempts });
+    }
+
+    // Claim the merge so concurrent requests don't run it twice: the row
+    // must still be in the state we read
+    const claim = supabase
+      .from("media_files")
+      .update({
+        merge_status: "merging",
+        merge_error: null,
+        merge_started_at: new Date().toISOString(),
+        merge_attempts: media.merge_attempts + 1
+      })
+      .eq("id", media.id)
+      .eq("merge_status", media.merge_status);
+    const { data: claimed } = await (media.merge_started_at
+      ? claim.eq("merge_started_at", media.merge_started_at)
+      : claim.is("merge_started_at", null)
+    ).select("id");
+
+    if (!claimed?.length) {
+      return jsonResponse({ success: true, status: "merging" });
+    }
+
+    EdgeRuntime.waitUntil(mergeChunks(supabase, supabaseUrl, supabaseKey, media));
+
+    return jsonResponse({ success: true, status: "merging" }, 202);
   } catch (error) {
     console.error("Merge error:", error);
-    return new Response(
-      JSON.stringify({
-        success: false,
-        error: error.message
-      }),
-      {
-        status: 500,
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*"
-        }
-      }
-    );
+    return jsonResponse({ success: false, error: error.message }, 500);
   }
-});
\ No newline at end of file
+});
@@ -0,0 +1,29 @@
+-- Vector similarity search over a project's embeddings (cosine distance)
+CREATE OR REPLACE FUNCTION match_embeddings(
+  query_embedding vector(1536),
+  match_project_id UUID,
+  match_count INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.id,
+    e.content_type,
+    e.content_id,
+    e.content_text,
+    e.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM embeddings e
+  WHERE e.project_id = match_project_id
+    AND e.embedding IS NOT NULL
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
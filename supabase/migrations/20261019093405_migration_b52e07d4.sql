@@ -0,0 +1,42 @@
+-- Semantic search filters: content type, folder and source date.
+-- Folder and date come from the metadata the indexer stores per chunk.
+DROP FUNCTION IF EXISTS match_embeddings(vector, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+  query_embedding vector(1536),
+  match_project_id UUID,
+  match_count INTEGER DEFAULT 8,
+  filter_content_types TEXT[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.id,
+    e.content_type,
+    e.content_id,
+    e.content_text,
+    e.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM embeddings e
+  WHERE e.project_id = match_project_id
+    AND e.embedding IS NOT NULL
+    AND (filter_content_types IS NULL OR e.content_type = ANY(filter_content_types))
+    AND (filter_folder_id IS NULL OR e.metadata->>'folder_id' = filter_folder_id::text)
+    AND (filter_created_after IS NULL OR (e.metadata->>'created_at')::timestamptz >= filter_created_after)
+    AND (filter_created_before IS NULL OR (e.metadata->>'created_at')::timestamptz <= filter_created_before)
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_embeddings_content_id ON embeddings(content_id);
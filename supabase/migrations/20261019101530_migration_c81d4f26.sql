@@ -0,0 +1,95 @@
+-- Full-text search for hybrid (keyword + vector) ranking.
+-- Chunks in the embeddings table cover document text, transcripts and
+-- annotation content, so keyword ranks line up with vector ranks row by row.
+ALTER TABLE embeddings
+ADD COLUMN content_tsv tsvector GENERATED ALWAYS AS (to_tsvector('english', content_text)) STORED;
+
+CREATE INDEX idx_embeddings_content_tsv ON embeddings USING GIN (content_tsv);
+
+-- Transcript-level index, replaces ILIKE scans in searchTranscripts
+ALTER TABLE transcripts
+ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (to_tsvector('english', coalesce(full_text, ''))) STORED;
+
+CREATE INDEX idx_transcripts_search_vector ON transcripts USING GIN (search_vector);
+
+-- Allow scoping vector search to a single source
+DROP FUNCTION IF EXISTS match_embeddings(vector, UUID, INTEGER, TEXT[], UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+  query_embedding vector(1536),
+  match_project_id UUID,
+  match_count INTEGER DEFAULT 8,
+  filter_content_types TEXT[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_content_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.id,
+    e.content_type,
+    e.content_id,
+    e.content_text,
+    e.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM embeddings e
+  WHERE e.project_id = match_project_id
+    AND e.embedding IS NOT NULL
+    AND (filter_content_types IS NULL OR e.content_type = ANY(filter_content_types))
+    AND (filter_folder_id IS NULL OR e.metadata->>'folder_id' = filter_folder_id::text)
+    AND (filter_created_after IS NULL OR (e.metadata->>'created_at')::timestamptz >= filter_created_after)
+    AND (filter_created_before IS NULL OR (e.metadata->>'created_at')::timestamptz <= filter_created_before)
+    AND (filter_content_id IS NULL OR e.content_id = filter_content_id)
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+-- Keyword search over the same chunks, ranked by cover density
+CREATE OR REPLACE FUNCTION keyword_search_embeddings(
+  search_query TEXT,
+  match_project_id UUID,
+  match_count INTEGER DEFAULT 8,
+  filter_content_types TEXT[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_content_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_text TEXT,
+  metadata JSONB,
+  rank FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.id,
+    e.content_type,
+    e.content_id,
+    e.content_text,
+    e.metadata,
+    ts_rank_cd(e.content_tsv, query) AS rank
+  FROM embeddings e, websearch_to_tsquery('english', search_query) query
+  WHERE e.project_id = match_project_id
+    AND e.content_tsv @@ query
+    AND (filter_content_types IS NULL OR e.content_type = ANY(filter_content_types))
+    AND (filter_folder_id IS NULL OR e.metadata->>'folder_id' = filter_folder_id::text)
+    AND (filter_created_after IS NULL OR (e.metadata->>'created_at')::timestamptz >= filter_created_after)
+    AND (filter_created_before IS NULL OR (e.metadata->>'created_at')::timestamptz <= filter_created_before)
+    AND (filter_content_id IS NULL OR e.content_id = filter_content_id)
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,9 @@
+-- Track server-side text extraction for uploaded documents.
+-- extracted_text holds one entry per page separated by form feeds (\f).
+ALTER TABLE documents
+ADD COLUMN extraction_status TEXT NOT NULL DEFAULT 'pending'
+  CHECK (extraction_status IN ('pending', 'processing', 'completed', 'failed')),
+ADD COLUMN extraction_error TEXT;
+
+-- Documents uploaded before extraction existed still need a pass
+UPDATE documents SET extraction_status = 'completed' WHERE extracted_text IS NOT NULL;
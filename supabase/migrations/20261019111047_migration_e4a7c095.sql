@@ -0,0 +1,73 @@
+-- Project-level summary rolled up from its documents and media
+ALTER TABLE projects ADD COLUMN ai_summary TEXT;
+
+-- Cached summaries are cleared whenever their source changes and are
+-- regenerated on the next request.
+
+-- Document summary: cleared when its extracted text changes
+CREATE OR REPLACE FUNCTION invalidate_document_summary()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.extracted_text IS DISTINCT FROM OLD.extracted_text THEN
+    NEW.ai_summary := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER documents_invalidate_summary
+BEFORE UPDATE OF extracted_text ON documents
+FOR EACH ROW EXECUTE FUNCTION invalidate_document_summary();
+
+-- Media summary: cleared when its transcript is created, edited or removed
+CREATE OR REPLACE FUNCTION invalidate_media_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_media_file UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_media_file := OLD.media_file_id;
+  ELSE
+    target_media_file := NEW.media_file_id;
+  END IF;
+
+  UPDATE media_files SET ai_summary = NULL
+  WHERE id = target_media_file AND ai_summary IS NOT NULL;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER transcripts_invalidate_media_summary
+AFTER INSERT OR DELETE OR UPDATE OF full_text, segments ON transcripts
+FOR EACH ROW EXECUTE FUNCTION invalidate_media_summary();
+
+-- Project summary: cleared when a document or media file is added or
+-- removed, or when one of their summaries is invalidated or regenerated
+CREATE OR REPLACE FUNCTION invalidate_project_summary()
+RETURNS TRIGGER AS $$
+DECLARE
+  target_project UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_project := OLD.project_id;
+  ELSE
+    target_project := NEW.project_id;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (OLD.ai_summary IS NULL OR NEW.ai_summary IS NOT DISTINCT FROM OLD.ai_summary) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE projects SET ai_summary = NULL
+  WHERE id = target_project AND ai_summary IS NOT NULL;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER documents_invalidate_project_summary
+AFTER INSERT OR DELETE OR UPDATE OF ai_summary ON documents
+FOR EACH ROW EXECUTE FUNCTION invalidate_project_summary();
+
+CREATE TRIGGER media_files_invalidate_project_summary
+AFTER INSERT OR DELETE OR UPDATE OF ai_summary ON media_files
+FOR EACH ROW EXECUTE FUNCTION invalidate_project_summary();
@@ -0,0 +1,18 @@
+-- Stream chunked uploads by byte range and merge them in the background.
+-- Chunks are `${storage_path}.part{N}`, every one chunk_size bytes except
+-- the last; once merged the file lives at storage_path itself.
+ALTER TABLE media_files
+ADD COLUMN mime_type TEXT,
+ADD COLUMN chunk_size BIGINT,
+ADD COLUMN merge_status TEXT NOT NULL DEFAULT 'none'
+  CHECK (merge_status IN ('none', 'pending', 'merging', 'completed', 'failed')),
+ADD COLUMN merge_error TEXT;
+
+COMMENT ON COLUMN media_files.mime_type IS 'MIME type of the uploaded file, served as Content-Type when streaming';
+COMMENT ON COLUMN media_files.chunk_size IS 'Size in bytes of every chunk but the last';
+COMMENT ON COLUMN media_files.merge_status IS 'Background merge of chunks into a single object; none for files uploaded whole';
+
+-- Existing chunked uploads used 5 MB chunks and were never merged
+UPDATE media_files
+SET chunk_size = 5242880, merge_status = 'pending'
+WHERE is_chunked = true;
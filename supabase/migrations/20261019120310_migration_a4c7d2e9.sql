@@ -0,0 +1,63 @@
+-- Durable background jobs for transcription, extraction, embedding and
+-- summarisation, run by the worker process (src/worker).
+--
+-- queued -> running -> completed
+--                   -> queued again after a failure, until max_attempts
+--                   -> dead (dead-lettered) once attempts are exhausted
+-- queued/running    -> cancelled when cancellation is requested
+CREATE TABLE jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('transcribe', 'extract', 'embed', 'summarize')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  -- The row the job works on (transcript, document, ...), for lookups
+  target_id UUID,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'cancelled', 'dead')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  cancel_requested BOOLEAN NOT NULL DEFAULT false,
+  locked_by TEXT,
+  -- Refreshed by the worker while the job runs; a stale lock means the worker died
+  heartbeat_at TIMESTAMP WITH TIME ZONE,
+  result JSONB,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX jobs_runnable_idx ON jobs (run_at) WHERE status = 'queued';
+CREATE INDEX jobs_target_idx ON jobs (target_id, created_at DESC);
+CREATE INDEX jobs_project_idx ON jobs (project_id, created_at DESC);
+
+-- Jobs are created and updated through the API and the worker (service
+-- role); users can only watch their own
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view their own jobs" ON jobs FOR SELECT USING (auth.uid() = user_id);
+
+-- Atomically claim the next runnable job for a worker. Also reclaims jobs
+-- whose worker stopped heartbeating, so a crash never leaves a job running.
+CREATE OR REPLACE FUNCTION claim_job(worker_id TEXT, stale_after INTERVAL DEFAULT INTERVAL '5 minutes')
+RETURNS SETOF jobs
+LANGUAGE sql
+AS $$
+  UPDATE jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = worker_id,
+      heartbeat_at = NOW(),
+      updated_at = NOW()
+  WHERE id = (
+    SELECT id FROM jobs
+    WHERE (status = 'queued' AND run_at <= NOW())
+       OR (status = 'running' AND heartbeat_at < NOW() - stale_after)
+    ORDER BY run_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
@@ -0,0 +1,16 @@
+-- Publish row changes to Supabase Realtime so the workspace can update
+-- status badges, job progress and new rows without polling. Realtime
+-- applies RLS, so subscribers only receive rows they can select.
+DO $$
+DECLARE
+  published TEXT;
+BEGIN
+  FOREACH published IN ARRAY ARRAY['annotations', 'documents', 'jobs', 'media_files', 'transcripts'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = published
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', published);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,100 @@
+-- Speaker diarization. Segments in transcripts.segments carry a speaker id
+-- (speaker_1, speaker_2, ...); speakers maps those ids to the names users
+-- give them, per transcript.
+ALTER TABLE transcripts
+ADD COLUMN speakers JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN transcripts.speakers IS 'Display names by speaker id, e.g. {"speaker_1": "Dr. Chen"}; unnamed speakers show as "Speaker N"';
+
+-- Transcript chunks list the speakers they contain in metadata.speakers;
+-- allow search and Q&A to keep only chunks where a given speaker talks
+DROP FUNCTION IF EXISTS match_embeddings(vector, UUID, INTEGER, TEXT[], UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID);
+DROP FUNCTION IF EXISTS keyword_search_embeddings(TEXT, UUID, INTEGER, TEXT[], UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, UUID);
+
+CREATE OR REPLACE FUNCTION match_embeddings(
+  query_embedding vector(1536),
+  match_project_id UUID,
+  match_count INTEGER DEFAULT 8,
+  filter_content_types TEXT[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_content_id UUID DEFAULT NULL,
+  filter_speaker TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_text TEXT,
+  metadata JSONB,
+  similarity FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.id,
+    e.content_type,
+    e.content_id,
+    e.content_text,
+    e.metadata,
+    1 - (e.embedding <=> query_embedding) AS similarity
+  FROM embeddings e
+  WHERE e.project_id = match_project_id
+    AND e.embedding IS NOT NULL
+    AND (filter_content_types IS NULL OR e.content_type = ANY(filter_content_types))
+    AND (filter_folder_id IS NULL OR e.metadata->>'folder_id' = filter_folder_id::text)
+    AND (filter_created_after IS NULL OR (e.metadata->>'created_at')::timestamptz >= filter_created_after)
+    AND (filter_created_before IS NULL OR (e.metadata->>'created_at')::timestamptz <= filter_created_before)
+    AND (filter_content_id IS NULL OR e.content_id = filter_content_id)
+    AND (filter_speaker IS NULL OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(coalesce(e.metadata->'speakers', '[]'::jsonb)) speaker
+      WHERE lower(speaker) = lower(filter_speaker)
+    ))
+  ORDER BY e.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+CREATE OR REPLACE FUNCTION keyword_search_embeddings(
+  search_query TEXT,
+  match_project_id UUID,
+  match_count INTEGER DEFAULT 8,
+  filter_content_types TEXT[] DEFAULT NULL,
+  filter_folder_id UUID DEFAULT NULL,
+  filter_created_after TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_created_before TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  filter_content_id UUID DEFAULT NULL,
+  filter_speaker TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content_type TEXT,
+  content_id UUID,
+  content_text TEXT,
+  metadata JSONB,
+  rank FLOAT
+)
+LANGUAGE sql STABLE
+AS $$
+  SELECT
+    e.id,
+    e.content_type,
+    e.content_id,
+    e.content_text,
+    e.metadata,
+    ts_rank_cd(e.content_tsv, query) AS rank
+  FROM embeddings e, websearch_to_tsquery('english', search_query) query
+  WHERE e.project_id = match_project_id
+    AND e.content_tsv @@ query
+    AND (filter_content_types IS NULL OR e.content_type = ANY(filter_content_types))
+    AND (filter_folder_id IS NULL OR e.metadata->>'folder_id' = filter_folder_id::text)
+    AND (filter_created_after IS NULL OR (e.metadata->>'created_at')::timestamptz >= filter_created_after)
+    AND (filter_created_before IS NULL OR (e.metadata->>'created_at')::timestamptz <= filter_created_before)
+    AND (filter_content_id IS NULL OR e.content_id = filter_content_id)
+    AND (filter_speaker IS NULL OR EXISTS (
+      SELECT 1 FROM jsonb_array_elements_text(coalesce(e.metadata->'speakers', '[]'::jsonb)) speaker
+      WHERE lower(speaker) = lower(filter_speaker)
+    ))
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
@@ -0,0 +1,27 @@
+-- Transcript revision history. Every transcription run and every saved
+-- edit stores the resulting segments as a numbered revision, so earlier
+-- versions can be compared and restored.
+CREATE TABLE transcript_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  revision_number INTEGER NOT NULL,
+  full_text TEXT NOT NULL DEFAULT '',
+  segments JSONB NOT NULL DEFAULT '[]',
+  -- What changed, e.g. "Transcribed", "Edited 3 segments", "Restored revision 2"
+  summary TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (transcript_id, revision_number)
+);
+
+CREATE INDEX transcript_revisions_transcript_idx ON transcript_revisions (transcript_id, revision_number DESC);
+
+-- Revisions are written through the API (service role); users can read
+-- the history of transcripts they can see
+ALTER TABLE transcript_revisions ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view revisions of their transcripts" ON transcript_revisions FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM transcripts
+    JOIN media_files ON media_files.id = transcripts.media_file_id
+    WHERE transcripts.id = transcript_revisions.transcript_id AND media_files.user_id = auth.uid()
+  ));
@@ -0,0 +1,43 @@
+-- Transcript translations. A translation job writes one row per target
+-- language, with segments on the same timings as the transcript.
+CREATE TABLE transcript_translations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transcript_id UUID NOT NULL REFERENCES transcripts(id) ON DELETE CASCADE,
+  -- Target language code, e.g. "es"
+  language TEXT NOT NULL,
+  full_text TEXT NOT NULL DEFAULT '',
+  segments JSONB NOT NULL DEFAULT '[]',
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed')),
+  error_message TEXT,
+  -- transcripts.updated_at when translated; an older value means the
+  -- transcript has been edited since
+  source_updated_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (transcript_id, language)
+);
+
+-- Translations are written by the worker (service role); users can read
+-- the translations of transcripts they can see
+ALTER TABLE transcript_translations ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view translations of their transcripts" ON transcript_translations FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM transcripts
+    JOIN media_files ON media_files.id = transcripts.media_file_id
+    WHERE transcripts.id = transcript_translations.transcript_id AND media_files.user_id = auth.uid()
+  ));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'transcript_translations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.transcript_translations;
+  END IF;
+END $$;
+
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_type_check
+  CHECK (type IN ('transcribe', 'extract', 'embed', 'summarize', 'translate'));
@@ -0,0 +1,20 @@
+-- Per-project settings. A project without a row uses the defaults from
+-- the environment.
+CREATE TABLE project_settings (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  -- Transcription engine for the project's media; NULL follows
+  -- TRANSCRIPTION_PROVIDER. "local" keeps recordings on our own servers.
+  transcription_provider TEXT CHECK (transcription_provider IN ('openai', 'local', 'fake')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE project_settings ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view settings of their projects" ON project_settings FOR SELECT
+  USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_settings.project_id AND projects.user_id = auth.uid()));
+CREATE POLICY "Users can insert settings of their projects" ON project_settings FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_settings.project_id AND projects.user_id = auth.uid()));
+CREATE POLICY "Users can update settings of their projects" ON project_settings FOR UPDATE
+  USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_settings.project_id AND projects.user_id = auth.uid()));
+CREATE POLICY "Users can delete settings of their projects" ON project_settings FOR DELETE
+  USING (EXISTS (SELECT 1 FROM projects WHERE projects.id = project_settings.project_id AND projects.user_id = auth.uid()));
@@ -0,0 +1,10 @@
+-- Transcription vocabulary and language per project. Course-specific terms
+-- (drug names, authors, notation) are passed to the engine as a prompt so
+-- they are spelled the way the course spells them.
+ALTER TABLE project_settings
+  ADD COLUMN glossary TEXT[] NOT NULL DEFAULT '{}',
+  -- ISO-639-1 code the recordings are in; NULL lets the engine detect it
+  ADD COLUMN transcription_language TEXT CHECK (transcription_language ~ '^[a-z]{2}$'),
+  -- Engine-specific model name (an OpenAI model id, or the name of a ggml
+  -- model for whisper.cpp); NULL uses the engine's default
+  ADD COLUMN transcription_model TEXT CHECK (transcription_model ~ '^[A-Za-z0-9._-]+$');
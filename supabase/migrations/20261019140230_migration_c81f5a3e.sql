@@ -0,0 +1,62 @@
+-- Discussion threads on annotations. A comment with a parent_id is a reply;
+-- top-level comments start a thread, which can be resolved and reopened.
+CREATE TABLE annotation_comments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  annotation_id UUID NOT NULL REFERENCES annotations(id) ON DELETE CASCADE,
+  -- Deleting a comment deletes its replies
+  parent_id UUID REFERENCES annotation_comments(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT NOT NULL CHECK (length(btrim(body)) > 0),
+  -- Only threads (top-level comments) are resolved
+  resolved_at TIMESTAMP WITH TIME ZONE CHECK (resolved_at IS NULL OR parent_id IS NULL),
+  resolved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Set when the body is changed after posting
+  edited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_annotation_comments_annotation_id ON annotation_comments(annotation_id);
+CREATE INDEX idx_annotation_comments_parent_id ON annotation_comments(parent_id);
+
+-- Anyone with access to the annotation's project can read and take part in
+-- its discussion; comments are posted under the commenter's own id
+ALTER TABLE annotation_comments ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view comments in their projects" ON annotation_comments FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can comment in their projects" ON annotation_comments FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can update comments in their projects" ON annotation_comments FOR UPDATE
+  USING (EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can delete comments in their projects" ON annotation_comments FOR DELETE
+  USING (EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'annotation_comments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.annotation_comments;
+  END IF;
+END $$;
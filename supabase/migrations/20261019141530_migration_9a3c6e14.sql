@@ -0,0 +1,6 @@
+-- When the current merge attempt was claimed. A merge still "merging" long
+-- after this was interrupted (the worker died) and may be claimed again.
+ALTER TABLE media_files
+ADD COLUMN merge_started_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN media_files.merge_started_at IS 'When the current merge attempt started; a stale one can be retried';
@@ -0,0 +1,69 @@
+-- Tighten annotation comment policies. Only a comment's author can edit or
+-- delete it; anyone in the project can resolve or reopen a thread, but a
+-- trigger keeps that from changing anything besides the resolved state.
+--
+-- Projects have a single owner, so for now every comment in a project is
+-- the owner's. The author checks are what keep this correct once projects
+-- gain other members.
+DROP POLICY IF EXISTS "Users can update comments in their projects" ON annotation_comments;
+DROP POLICY IF EXISTS "Users can delete comments in their projects" ON annotation_comments;
+
+CREATE POLICY "Authors can edit their comments" ON annotation_comments FOR UPDATE
+  USING (auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ))
+  WITH CHECK (auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+CREATE POLICY "Users can resolve threads in their projects" ON annotation_comments FOR UPDATE
+  USING (parent_id IS NULL AND EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ))
+  WITH CHECK (parent_id IS NULL AND (resolved_by IS NULL OR resolved_by = auth.uid()) AND EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+CREATE POLICY "Authors can delete their comments" ON annotation_comments FOR DELETE
+  USING (auth.uid() = user_id AND EXISTS (
+    SELECT 1 FROM annotations
+    JOIN documents ON documents.id = annotations.document_id
+    JOIN projects ON projects.id = documents.project_id
+    WHERE annotations.id = annotation_comments.annotation_id AND projects.user_id = auth.uid()
+  ));
+
+-- Policies can't limit which columns an update touches, so this does: a
+-- comment never moves or changes author, and only its author (or the
+-- service role) can change the text
+CREATE OR REPLACE FUNCTION guard_annotation_comment_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.annotation_id IS DISTINCT FROM OLD.annotation_id
+    OR NEW.parent_id IS DISTINCT FROM OLD.parent_id
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at THEN
+    RAISE EXCEPTION 'Comments cannot be moved or reassigned';
+  END IF;
+
+  IF (NEW.body IS DISTINCT FROM OLD.body OR NEW.edited_at IS DISTINCT FROM OLD.edited_at)
+    AND auth.uid() IS NOT NULL AND auth.uid() IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Only the author can edit a comment';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER annotation_comments_guard_update
+BEFORE UPDATE ON annotation_comments
+FOR EACH ROW EXECUTE FUNCTION guard_annotation_comment_update();
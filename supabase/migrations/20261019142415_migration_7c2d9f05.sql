@@ -0,0 +1,9 @@
+-- The fixture engine is for tests and offline development, which select it
+-- with TRANSCRIPTION_PROVIDER; a project can't choose it, or its owner
+-- could swap real transcripts for canned text
+UPDATE project_settings SET transcription_provider = NULL WHERE transcription_provider = 'fake';
+
+ALTER TABLE project_settings DROP CONSTRAINT IF EXISTS project_settings_transcription_provider_check;
+ALTER TABLE project_settings
+  ADD CONSTRAINT project_settings_transcription_provider_check
+  CHECK (transcription_provider IN ('openai', 'local'));
@@ -0,0 +1,29 @@
+-- One active job per identical request, enforced by the database so that
+-- concurrent enqueues can't both insert. Payloads are compared exactly
+-- (jsonb equality). Embedding jobs are only merged with queued ones that
+-- haven't run yet, since a running or retrying one may have read the
+-- content before the latest change.
+
+-- Settle duplicates left by the old check-then-insert dedupe, keeping the oldest
+WITH ranked AS (
+  SELECT id, status,
+    ROW_NUMBER() OVER (PARTITION BY project_id, type, payload ORDER BY created_at, id) AS position
+  FROM jobs
+  WHERE NOT cancel_requested
+    AND (
+      (type <> 'embed' AND status IN ('queued', 'running'))
+      OR (type = 'embed' AND status = 'queued' AND attempts = 0)
+    )
+)
+UPDATE jobs
+SET cancel_requested = true,
+    status = CASE WHEN ranked.status = 'queued' THEN 'cancelled' ELSE jobs.status END,
+    finished_at = CASE WHEN ranked.status = 'queued' THEN NOW() ELSE jobs.finished_at END,
+    updated_at = NOW()
+FROM ranked
+WHERE jobs.id = ranked.id AND ranked.position > 1;
+
+CREATE UNIQUE INDEX jobs_active_unique_idx ON jobs (project_id, type, payload)
+  WHERE type <> 'embed' AND status IN ('queued', 'running') AND NOT cancel_requested;
+CREATE UNIQUE INDEX jobs_queued_embed_unique_idx ON jobs (project_id, type, payload)
+  WHERE type = 'embed' AND status = 'queued' AND attempts = 0 AND NOT cancel_requested;
@@ -0,0 +1,8 @@
+-- How many times a chunked upload's merge has been claimed. Failed merges
+-- are retried with a growing delay until this reaches the limit in the
+-- merge-media-chunks function; after that the file keeps streaming from
+-- its chunks and the failure is shown to the user.
+ALTER TABLE media_files
+ADD COLUMN merge_attempts INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN media_files.merge_attempts IS 'Merge attempts claimed so far; merges stop being retried at the limit';